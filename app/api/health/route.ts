@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { getStorageProvider } from '../../../app/utils/storage';
 import { Anthropic } from '@anthropic-ai/sdk';
+import { EvaluationEngine, getEvaluationEngine } from '../../../app/lib/evaluationEngine';
+import { CLAUDE_MODEL } from '../../../app/lib/constants';
 
 export async function GET() {
   console.log('Health check: API route called');
@@ -10,6 +12,8 @@ export async function GET() {
     const envVars = {
       NODE_ENV: process.env.NODE_ENV,
       CLAUDE_API_KEY: process.env.CLAUDE_API_KEY ? 'Set (not shown for security)' : 'Not set',
+      EVALUATION_ENGINE: process.env.EVALUATION_ENGINE,
+      PROMPT_TEMPLATE: process.env.PROMPT_TEMPLATE,
       JOB_STORAGE_TYPE: process.env.JOB_STORAGE_TYPE,
       JOB_MAX_AGE: process.env.JOB_MAX_AGE,
       RENDER: process.env.RENDER,
@@ -35,10 +39,25 @@ export async function GET() {
       storageStatus = 'error';
     }
     
-    // Check Claude API connectivity
+    // Check the evaluation engine, which cannot be created without CLAUDE_API_KEY for Claude
+    let engine: EvaluationEngine | null = null;
+    let engineError: string | null = null;
+    
+    try {
+      engine = getEvaluationEngine();
+    } catch (error) {
+      console.error('Health check: Evaluation engine could not be created', error);
+      engineError = error instanceof Error ? error.message : 'Unknown error';
+    }
+    
+    // Check Claude API connectivity, which the mock engine does not need
     let claudeApiStatus = 'unknown';
     
-    if (process.env.CLAUDE_API_KEY) {
+    if (!engine) {
+      claudeApiStatus = 'error';
+    } else if (!engine.requiresApiKey) {
+      console.log(`Health check: ${engine.type} engine does not use the Claude API, skipping connectivity test`);
+    } else {
       try {
         console.log('Health check: Testing Claude API connectivity');
         const anthropic = new Anthropic({
@@ -48,7 +67,7 @@ export async function GET() {
         // Simple API check with minimal tokens
         const response = await Promise.race([
           anthropic.messages.create({
-            model: "claude-3-7-sonnet-20250219",
+            model: CLAUDE_MODEL,
             max_tokens: 10,
             messages: [{ role: "user", content: "Hello" }],
             temperature: 0,
@@ -64,8 +83,6 @@ export async function GET() {
         console.error('Health check: Claude API test failed', claudeError);
         claudeApiStatus = 'error';
       }
-    } else {
-      console.log('Health check: Claude API key not set, skipping connectivity test');
     }
     
     // Return comprehensive health status
@@ -80,6 +97,14 @@ export async function GET() {
           type: process.env.JOB_STORAGE_TYPE || 'file',
           jobCount: jobCount
         },
+        evaluationEngine: engine ? {
+          status: 'ok',
+          type: engine.type,
+          prompt: engine.prompt
+        } : {
+          status: 'error',
+          error: engineError
+        },
         claudeApi: {
           status: claudeApiStatus
         }
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadPromptLibrary, loadPromptTemplate } from '../../../../app/lib/promptTemplate';
+import { findPromptTemplateSummary } from '../../../../app/utils/promptTemplate';
+
+// Returns a parsed prompt template, optionally an earlier version with ?version=<n>
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const versionParam = request.nextUrl.searchParams.get('version');
+  const version = versionParam ? Number(versionParam) : undefined;
+  console.log(`Prompts: Template ${params.id}${version ? ` v${version}` : ''} requested`);
+
+  if (version !== undefined && !(Number.isInteger(version) && version > 0)) {
+    return NextResponse.json({
+      error: 'Invalid template version',
+      message: `"${versionParam}" is not a template version`
+    }, { status: 400 });
+  }
+
+  try {
+    const summary = findPromptTemplateSummary(loadPromptLibrary(), params.id);
+    if (!summary || (version !== undefined && version > summary.version)) {
+      return NextResponse.json({
+        error: 'Prompt template not found',
+        message: `Unknown prompt template "${params.id}"${version ? ` version ${version}` : ''}`
+      }, { status: 404 });
+    }
+
+    return NextResponse.json(loadPromptTemplate(params.id, version));
+  } catch (error) {
+    console.error(`Prompts: Error loading template ${params.id}`, error);
+
+    return NextResponse.json({
+      error: 'Failed to load the prompt template',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getDefaultPromptTemplate, listPromptTemplateVersions, loadPromptLibrary } from '../../../app/lib/promptTemplate';
+import { PromptLibraryListing } from '../../../app/types/prompt';
+
+// Lists the prompt templates and the one new evaluations use, for the prompt template admin view
+export async function GET() {
+  console.log('Prompts: API route called');
+
+  try {
+    const library = loadPromptLibrary();
+    const listing: PromptLibraryListing = {
+      defaultTemplateId: library.defaultTemplateId,
+      activeTemplate: getDefaultPromptTemplate(),
+      setByDeployment: !!process.env.PROMPT_TEMPLATE?.trim(),
+      templates: library.templates.map(summary => ({ ...summary, versions: listPromptTemplateVersions(summary) }))
+    };
+    return NextResponse.json(listing);
+  } catch (error) {
+    console.error('Prompts: Error loading the prompt library', error);
+
+    return NextResponse.json({
+      error: 'Failed to load the prompt library',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorageProvider, createJob } from '../../../app/utils/storage';
+import { formatConversation, parseConversationInput } from '../../../app/utils/conversation';
+import { loadRubric, loadRubricLibrary } from '../../../app/lib/rubric';
+import { evaluateConversation } from '../../../app/lib/conversationEvaluation';
+import { EvaluationEngine, getEvaluationEngine } from '../../../app/lib/evaluationEngine';
+import { findRubricSummary } from '../../../app/utils/rubric';
+import { rescoreWithChanges } from '../../../app/utils/rescore';
+import { Conversation } from '../../../app/types/conversation';
+import { Rubric } from '../../../app/types/rubric';
+import crypto from 'crypto';
+
+// Helper function to load the rubric version an evaluation was scored against, null if it is not available
+function loadPreviousRubric(rubricId: string, version: number): Rubric | null {
+  try {
+    return loadRubric(rubricId, version);
+  } catch (error) {
+    console.log(`Rescore: Version ${version} of rubric ${rubricId} is not available`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Re-scores a stored evaluation against the current version of its rubric (or another rubric).
+ * Weight and performance level changes are applied to the stored criterion scores without calling Claude.
+ * When the criterion descriptions changed and `requeue` is set, the conversation is evaluated again.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID();
+  console.log(`Rescore: POST request received (Request ID: ${requestId})`);
+
+  try {
+    const body = await request.json();
+    const { evaluation, requeue = false, jobId } = body;
+
+    if (!evaluation || !Array.isArray(evaluation.criteriaScores)) {
+      return NextResponse.json({
+        error: 'An evaluation with criteria scores is required',
+        requestId
+      }, { status: 400 });
+    }
+
+    const library = loadRubricLibrary();
+    const rubricId: string = body.rubricId || evaluation.rubric?.id || library.defaultRubricId;
+    if (!findRubricSummary(library, rubricId)) {
+      return NextResponse.json({
+        error: `Unknown rubric "${rubricId}"`,
+        message: `Unknown rubric "${rubricId}". Available rubrics: ${library.rubrics.map(item => item.id).join(', ')}`,
+        requestId
+      }, { status: 400 });
+    }
+
+    const rubric = loadRubric(rubricId);
+    const previous = evaluation.rubric?.id === rubricId ? loadPreviousRubric(rubricId, evaluation.rubric?.version ?? 1) : null;
+    const result = rescoreWithChanges(evaluation, previous, rubric);
+    console.log(`Rescore: Re-scored against ${rubric.id} v${rubric.version} (Request ID: ${requestId})`, {
+      changes: result.changes,
+      needsReevaluation: result.needsReevaluation
+    });
+
+    if (!result.needsReevaluation || !requeue) {
+      return NextResponse.json({
+        status: result.needsReevaluation ? 'needs_reevaluation' : 'rescored',
+        ...result,
+        requestId
+      });
+    }
+
+    // The stored scores cannot be carried over, evaluate the conversation again
+    const storageProvider = getStorageProvider();
+    let conversation: Conversation | undefined;
+    if (body.conversation || body.markdown) {
+      const parsed = parseConversationInput(body);
+      conversation = parsed.isValid ? parsed.conversation : undefined;
+    } else if (jobId) {
+      const previousJob = await storageProvider.getJob(jobId);
+      conversation = previousJob?.conversation;
+    }
+    if (!conversation) {
+      return NextResponse.json({
+        error: 'The conversation is no longer available',
+        message: 'The rubric descriptions changed, so the conversation has to be evaluated again. Import the transcript again to re-evaluate it.',
+        ...result,
+        requestId
+      }, { status: 409 });
+    }
+
+    // Create the evaluation engine before the job, so a missing API key or unknown engine fails the request
+    let engine: EvaluationEngine;
+    try {
+      engine = getEvaluationEngine();
+    } catch (error) {
+      console.error(`Rescore: Evaluation engine is not configured (Request ID: ${requestId}):`, error);
+      return NextResponse.json({
+        error: 'Evaluation engine is not configured',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        requestId
+      }, { status: 503 });
+    }
+    const job = createJob(formatConversation(conversation), body.fileName, conversation);
+    await storageProvider.saveJob(job);
+    console.log(`Rescore: Re-evaluating the conversation (Request ID: ${requestId}, Job ID: ${job.id})`);
+
+    try {
+      const evaluationData = await evaluateConversation(engine, conversation, rubric, {
+        samples: evaluation.consistency?.samples,
+        logContext: `Request ID: ${requestId}, Job ID: ${job.id}`
+      });
+      job.status = 'completed';
+      job.result = evaluationData;
+      job.updatedAt = new Date().toISOString();
+      await storageProvider.saveJob(job);
+
+      return NextResponse.json({
+        status: 'reevaluated',
+        evaluation: evaluationData,
+        changes: result.changes,
+        needsReevaluation: false,
+        jobId: job.id,
+        requestId
+      });
+    } catch (error) {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+      job.updatedAt = new Date().toISOString();
+      await storageProvider.saveJob(job);
+      throw error;
+    }
+  } catch (error) {
+    console.error(`Rescore: Error re-scoring the evaluation (Request ID: ${requestId}):`, error);
+
+    return NextResponse.json({
+      error: 'Failed to re-score the evaluation',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      requestId
+    }, { status: 500 });
+  }
+}
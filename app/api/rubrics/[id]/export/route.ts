@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadRubric, loadRubricLibrary } from '../../../../../app/lib/rubric';
+import { findRubricSummary } from '../../../../../app/utils/rubric';
+import { exportRubric, getRubricExportFileName, RubricExportFormat } from '../../../../../app/utils/rubricExchange';
+
+// Downloads a rubric as JSON or YAML with ?format=json or ?format=yaml, optionally an earlier version with ?version=<n>
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const format = (request.nextUrl.searchParams.get('format') || 'json').toLowerCase();
+  const versionParam = request.nextUrl.searchParams.get('version');
+  const version = versionParam ? Number(versionParam) : undefined;
+  console.log(`Rubrics: Export of rubric ${params.id} as ${format} requested`);
+
+  if (format !== 'json' && format !== 'yaml') {
+    return NextResponse.json({
+      error: 'Invalid export format',
+      message: `"${format}" is not an export format, use json or yaml`
+    }, { status: 400 });
+  }
+  if (version !== undefined && !(Number.isInteger(version) && version > 0)) {
+    return NextResponse.json({
+      error: 'Invalid rubric version',
+      message: `"${versionParam}" is not a rubric version`
+    }, { status: 400 });
+  }
+
+  try {
+    const summary = findRubricSummary(loadRubricLibrary(), params.id);
+    if (!summary || (version !== undefined && version > summary.version)) {
+      return NextResponse.json({
+        error: 'Rubric not found',
+        message: `Unknown rubric "${params.id}"${version ? ` version ${version}` : ''}`
+      }, { status: 404 });
+    }
+
+    const exportFormat = format as RubricExportFormat;
+    return new NextResponse(exportRubric(loadRubric(params.id, version), exportFormat, summary), {
+      headers: {
+        'Content-Type': exportFormat === 'yaml' ? 'application/yaml; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${getRubricExportFileName(summary.id, exportFormat)}"`
+      }
+    });
+  } catch (error) {
+    console.error(`Rubrics: Error exporting rubric ${params.id}`, error);
+
+    return NextResponse.json({
+      error: 'Failed to export the rubric',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRubricLibraryWriteError, loadRubric, loadRubricLibrary, saveRubricVersion } from '../../../../app/lib/rubric';
+import { findRubricSummary, formatRubricErrors, formatRubricMarkdown, parseRubric } from '../../../../app/utils/rubric';
+
+// Returns a parsed rubric, optionally an earlier version with ?version=<n>
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const versionParam = request.nextUrl.searchParams.get('version');
+  const version = versionParam ? Number(versionParam) : undefined;
+  console.log(`Rubrics: Rubric ${params.id}${version ? ` v${version}` : ''} requested`);
+
+  if (version !== undefined && !(Number.isInteger(version) && version > 0)) {
+    return NextResponse.json({
+      error: 'Invalid rubric version',
+      message: `"${versionParam}" is not a rubric version`
+    }, { status: 400 });
+  }
+
+  try {
+    const library = loadRubricLibrary();
+    const summary = findRubricSummary(library, params.id);
+    if (!summary || (version !== undefined && version > summary.version)) {
+      return NextResponse.json({
+        error: 'Rubric not found',
+        message: `Unknown rubric "${params.id}"${version ? ` version ${version}` : ''}`
+      }, { status: 404 });
+    }
+
+    return NextResponse.json(loadRubric(params.id, version));
+  } catch (error) {
+    console.error(`Rubrics: Error loading rubric ${params.id}`, error);
+
+    return NextResponse.json({
+      error: 'Failed to load the rubric',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Saves a rubric changed in the rubric editor as a new version
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  console.log(`Rubrics: Saving rubric ${params.id}`);
+
+  try {
+    const { rubric, baseVersion } = await request.json();
+    if (!rubric || !Array.isArray(rubric.criteria) || !Array.isArray(rubric.observationalCriteria) || !Array.isArray(rubric.performanceBands)) {
+      return NextResponse.json({
+        error: 'A rubric with criteria and performance levels is required'
+      }, { status: 400 });
+    }
+
+    const summary = findRubricSummary(loadRubricLibrary(), params.id);
+    if (!summary) {
+      return NextResponse.json({
+        error: 'Rubric not found',
+        message: `Unknown rubric "${params.id}"`
+      }, { status: 404 });
+    }
+
+    // Someone else saved a newer version since the editor loaded the rubric
+    if (baseVersion !== undefined && baseVersion !== summary.version) {
+      return NextResponse.json({
+        error: 'Rubric was changed',
+        message: `The rubric was edited from version ${baseVersion}, but version ${summary.version} has been saved since. Reload the rubric and make the changes again.`
+      }, { status: 409 });
+    }
+
+    const writeError = getRubricLibraryWriteError();
+    if (writeError) {
+      return NextResponse.json({
+        error: 'Rubric library is read-only',
+        message: writeError
+      }, { status: 503 });
+    }
+
+    const { isValid, errors } = parseRubric(formatRubricMarkdown(rubric));
+    if (!isValid) {
+      return NextResponse.json({
+        error: 'Invalid rubric',
+        message: formatRubricErrors(errors).join('\n'),
+        errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(saveRubricVersion(params.id, rubric));
+  } catch (error) {
+    console.error(`Rubrics: Error saving rubric ${params.id}`, error);
+
+    return NextResponse.json({
+      error: 'Failed to save the rubric',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
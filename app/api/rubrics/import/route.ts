@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addRubric, getRubricLibraryWriteError, loadRubricLibrary, saveRubricVersion } from '../../../../app/lib/rubric';
+import { findRubricSummary } from '../../../../app/utils/rubric';
+import { importRubric, toRubricId } from '../../../../app/utils/rubricExchange';
+
+/**
+ * Imports a rubric from a JSON or YAML file in the exchange format, or from a rubric markdown file.
+ * A rubric whose id is already in the library is saved as its next version, otherwise it is added to the library.
+ * Problems with the file are returned per field.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { content, fileName, rubricId } = await request.json();
+    console.log(`Rubrics: Import of ${fileName || 'a rubric'} requested`);
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json({
+        error: 'The rubric file is empty',
+        errors: [{ field: 'file', message: 'Required' }]
+      }, { status: 400 });
+    }
+
+    const result = importRubric(content, fileName || '');
+    const id = rubricId || result.summary.id || toRubricId(result.rubric.title);
+    if (result.isValid && !id) {
+      result.errors.push({ field: 'id', message: 'Required, the rubric has no id or title to derive one from' });
+    } else if (rubricId && toRubricId(rubricId) !== rubricId) {
+      result.errors.push({ field: 'id', message: 'Must be lowercase letters, numbers and dashes, e.g. "first-time-tasting"' });
+    }
+    if (result.errors.length > 0) {
+      return NextResponse.json({
+        error: 'Invalid rubric',
+        message: result.errors.map(error => `${error.field}: ${error.message}`).join('\n'),
+        errors: result.errors
+      }, { status: 400 });
+    }
+
+    const writeError = getRubricLibraryWriteError();
+    if (writeError) {
+      return NextResponse.json({
+        error: 'Rubric library is read-only',
+        message: writeError
+      }, { status: 503 });
+    }
+
+    const summary = findRubricSummary(loadRubricLibrary(), id);
+    if (summary) {
+      const saved = saveRubricVersion(id, result.rubric);
+      return NextResponse.json({ rubric: saved, created: false });
+    }
+
+    const added = addRubric({
+      id,
+      name: result.summary.name || result.rubric.title,
+      description: result.summary.description || '',
+      scenarioKeywords: result.summary.scenarioKeywords || []
+    }, result.rubric);
+    return NextResponse.json({ rubric: added, created: true });
+  } catch (error) {
+    console.error('Rubrics: Error importing a rubric', error);
+
+    return NextResponse.json({
+      error: 'Failed to import the rubric',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { loadRubricLibrary } from '../../../app/lib/rubric';
+
+// Lists the rubrics in the rubric library for the importer's rubric picker
+export async function GET() {
+  console.log('Rubrics: API route called');
+  
+  try {
+    const library = loadRubricLibrary();
+    return NextResponse.json({
+      defaultRubricId: library.defaultRubricId,
+      rubrics: library.rubrics
+    });
+  } catch (error) {
+    console.error('Rubrics: Error loading the rubric library', error);
+    
+    return NextResponse.json({
+      error: 'Failed to load the rubric library',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@
 import React, { FC, useRef, useState } from 'react';
 import { toast } from 'react-hot-toast';
 import { validateEvaluationData } from '../utils/validation';
+import { fetchRubric } from '../utils/rubric';
 import { EvaluationData } from '../types/evaluation';
 
 interface MarkdownImporterProps {
@@ -83,7 +84,7 @@ const MarkdownImporter: FC<MarkdownImporterProps> = ({ onAnalysisComplete, isAna
         }
         
         // Validate the evaluation data structure
-        const validationResult = validateEvaluationData(result);
+        const validationResult = validateEvaluationData(result, await fetchRubric());
         if (!validationResult.isValid) {
           console.warn('Validation issues found:', validationResult.errors);
           toast.error('The evaluation data has some issues, but we\'ll try to use it anyway');
@@ -212,7 +213,7 @@ const MarkdownImporter: FC<MarkdownImporterProps> = ({ onAnalysisComplete, isAna
       }
       
       // Validate the evaluation data structure
-      const validationResult = validateEvaluationData(result);
+      const validationResult = validateEvaluationData(result, await fetchRubric());
       if (!validationResult.isValid) {
         console.warn('Validation issues found:', validationResult.errors);
         toast.error('The evaluation data has some issues, but we\'ll try to use it anyway');
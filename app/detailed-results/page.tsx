@@ -2,10 +2,30 @@
 
 import React, { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import type { EvaluationData, ObservationalNotes, ObservationalNote } from '../../types/evaluation';
+import type { EvaluationData } from '../../types/evaluation';
 import LoadingIndicator from '../../components/LoadingIndicator';
 import PDFExport from '../../components/PDFExport';
 import BackButton from '../../components/BackButton';
+import ConfidenceIndicator from '../../components/ConfidenceIndicator';
+import { getEvaluationResult, updateEvaluationResult, CURRENT_EVALUATION_KEY } from '../utils/evaluationResults';
+import { getMetricRows } from '../utils/metrics';
+import {
+  calculateOverallScore,
+  fetchRubric,
+  findCriterion,
+  findObservationalCriterion,
+  formatChecklistScoring,
+  findPerformanceBand,
+  getPerformanceLevelColor,
+  getScoreDescriptor,
+  isScoredAgainst,
+  listObservationalNotes,
+  summarizeRubricChanges
+} from '../utils/rubric';
+import { rescoreStoredEvaluation } from '../utils/analysisClient';
+import { getTurnAnchorId } from '../utils/evidence';
+import { findCriterionConsistency } from '../utils/consistency';
+import { Rubric } from '../types/rubric';
 import { 
   BarChart, 
   Bar, 
@@ -42,11 +62,48 @@ export default function DetailedResultsPage() {
   const [hoveredCriterion, setHoveredCriterion] = useState<string | null>(null);
   const [chartLoaded, setChartLoaded] = useState(false);
   const [showPDFExport, setShowPDFExport] = useState(false);
+  const [rubric, setRubric] = useState<Rubric | null>(null);
+  const [currentRubric, setCurrentRubric] = useState<Rubric | null>(null);
+  const [storedResult, setStoredResult] = useState<{ id: string; jobId?: string } | null>(null);
+  const [isRescoring, setIsRescoring] = useState(false);
+  const [rescoreMessage, setRescoreMessage] = useState<string | null>(null);
+  const [canReevaluate, setCanReevaluate] = useState(false);
+  const [highlightedTurn, setHighlightedTurn] = useState<number | null>(null);
+
+  // Load the rubric version the evaluation was scored against, for criterion names and score descriptions,
+  // and the current version to offer re-scoring when the rubric has changed since
+  const rubricId = evaluationData?.rubric?.id;
+  const rubricVersion = evaluationData?.rubric?.version;
+  useEffect(() => {
+    if (!evaluationData) return;
+    fetchRubric(rubricId)
+      .then(latest => {
+        setCurrentRubric(latest);
+        if (!rubricVersion || rubricVersion === latest.version) {
+          setRubric(latest);
+          return;
+        }
+        return fetchRubric(rubricId, rubricVersion)
+          .catch(() => latest)
+          .then(setRubric);
+      })
+      .catch(err => console.error('Error loading rubric:', err));
+  }, [evaluationData, rubricId, rubricVersion]);
 
   useEffect(() => {
     try {
-      // Try to get the data from localStorage
-      const storedData = localStorage.getItem('wineEvaluationData');
+      // Batch results are opened by id, otherwise show the latest evaluation from localStorage
+      const resultId = new URLSearchParams(window.location.search).get('id');
+      let storedData: string | null;
+      if (resultId) {
+        const storedResult = getEvaluationResult(resultId);
+        storedData = storedResult ? JSON.stringify(storedResult.data) : null;
+        if (storedResult) {
+          setStoredResult({ id: storedResult.id, jobId: storedResult.jobId });
+        }
+      } else {
+        storedData = localStorage.getItem(CURRENT_EVALUATION_KEY);
+      }
       
       if (!storedData) {
         setError('No evaluation data found. Please upload a conversation first.');
@@ -65,15 +122,9 @@ export default function DetailedResultsPage() {
         return;
       }
       
-      // Handle both overallScore and totalScore fields
+      // Handle both overallScore and totalScore fields, a missing score is computed once the rubric is loaded
       if (parsedData.totalScore !== undefined) {
         parsedData.overallScore = parsedData.totalScore;
-      } else if (parsedData.overallScore === undefined) {
-        // Calculate overallScore from criteriaScores if neither field is present
-        const totalWeightedScore = parsedData.criteriaScores.reduce((sum: number, criterion: any) => {
-          return sum + (criterion.weightedScore || 0);
-        }, 0);
-        parsedData.overallScore = Math.round(totalWeightedScore / 5);
       }
       
       // Ensure overallScore is a number
@@ -81,18 +132,13 @@ export default function DetailedResultsPage() {
         parsedData.overallScore = parseFloat(parsedData.overallScore);
       }
       
-      if (typeof parsedData.overallScore !== 'number' || isNaN(parsedData.overallScore)) {
+      if (parsedData.overallScore !== undefined && (typeof parsedData.overallScore !== 'number' || isNaN(parsedData.overallScore))) {
         console.error('Invalid overallScore in evaluation data:', parsedData.overallScore);
         setError('Invalid overallScore in evaluation data. Please upload a conversation again.');
         setLoading(false);
         return;
       }
       
-      // Ensure the score is a percentage (0-100)
-      if (parsedData.overallScore > 100) {
-        parsedData.overallScore = Math.round((parsedData.overallScore / 500) * 100);
-      }
-      
       // Set the evaluation data
       setEvaluationData(parsedData);
       
@@ -132,18 +178,6 @@ export default function DetailedResultsPage() {
     return 'text-red-700';
   };
 
-  // Helper function to get color based on performance level
-  const getPerformanceLevelColor = (level: string) => {
-    switch (level.toLowerCase()) {
-      case 'exceptional': return 'text-green-600';
-      case 'strong': return 'text-green-500';
-      case 'proficient': return 'text-yellow-500';
-      case 'developing': return 'text-orange-500';
-      case 'needs improvement': return 'text-red-500';
-      default: return 'text-gray-600';
-    }
-  };
-
   // Helper function to extract examples from notes
   const extractExample = (notes: string): string | null => {
     // Look for the pattern "Staff demonstrated [behavior] when they said: '[quote]'"
@@ -194,6 +228,45 @@ export default function DetailedResultsPage() {
     setShowPDFExport(true);
   };
 
+  // Re-score the evaluation against the current rubric, or evaluate the conversation again when the scores cannot be carried over
+  const handleRescore = async (requeue: boolean) => {
+    if (!evaluationData) return;
+
+    setIsRescoring(true);
+    setRescoreMessage(null);
+    try {
+      const outcome = await rescoreStoredEvaluation(evaluationData, storedResult?.jobId, requeue);
+      if (outcome.status === 'needs_reevaluation') {
+        setCanReevaluate(true);
+        setRescoreMessage(`${summarizeRubricChanges(outcome.changes)}. The stored scores cannot be carried over, so the conversation has to be evaluated again.`);
+        return;
+      }
+
+      // Keep the re-scored evaluation where it was loaded from
+      if (storedResult) {
+        updateEvaluationResult(storedResult.id, outcome.evaluation, outcome.jobId);
+      } else {
+        localStorage.setItem(CURRENT_EVALUATION_KEY, JSON.stringify(outcome.evaluation));
+      }
+      setEvaluationData(outcome.evaluation);
+      setCanReevaluate(false);
+      setRescoreMessage(outcome.status === 'reevaluated'
+        ? 'The conversation was evaluated again against the current rubric.'
+        : `Re-scored against the current rubric. ${summarizeRubricChanges(outcome.changes)}.`);
+    } catch (err) {
+      console.error('Error re-scoring evaluation:', err);
+      setRescoreMessage(err instanceof Error ? err.message : 'Failed to re-score the evaluation');
+    } finally {
+      setIsRescoring(false);
+    }
+  };
+
+  // Scroll to the turn a citation quotes and highlight it in the conversation
+  const handleOpenCitation = (turnNumber: number) => {
+    setHighlightedTurn(turnNumber);
+    document.getElementById(getTurnAnchorId(turnNumber))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
   // Add this function to handle closing the PDF viewer
   const handleClosePDF = () => {
     setShowPDFExport(false);
@@ -251,6 +324,19 @@ export default function DetailedResultsPage() {
     );
   }
 
+  // Observational criteria the evaluation has no note for are listed as not assessed
+  const observationalNotes = listObservationalNotes(evaluationData.observationalNotes);
+  const unassessedCriteria = (rubric?.observationalCriteria ?? [])
+    .filter(criterion => !observationalNotes.some(note => findObservationalCriterion(rubric!, note.criterion) === criterion));
+
+  // Results stored before scores were computed from the rubric may have no overall score, or one in weighted points
+  const overallScore = rubric && (evaluationData.overallScore === undefined || evaluationData.overallScore > 100)
+    ? calculateOverallScore(evaluationData.criteriaScores, rubric)
+    : evaluationData.overallScore;
+  const scoringAudit = evaluationData.scoringAudit ?? [];
+  const consistency = evaluationData.consistency;
+  const criteriaNeedingReview = consistency?.criteria.filter(item => item.needsReview) ?? [];
+
   return (
     <div className="container mx-auto px-4 py-8">
       <BackButton />
@@ -283,11 +369,49 @@ export default function DetailedResultsPage() {
           </div>
           <div>
             <h2 className="text-lg font-semibold text-gray-700">Performance Level</h2>
-            <p className={`font-semibold ${getPerformanceLevelColor(evaluationData.performanceLevel)}`}>
+            <p className="font-semibold" style={{ color: getPerformanceLevelColor(rubric, evaluationData.performanceLevel) }}>
               {evaluationData.performanceLevel}
             </p>
+            {rubric && findPerformanceBand(rubric, evaluationData.performanceLevel)?.description && (
+              <p className="text-sm text-gray-500">{findPerformanceBand(rubric, evaluationData.performanceLevel)?.description}</p>
+            )}
           </div>
         </div>
+        {(evaluationData.rubric || rubric) && (
+          <p className="text-sm text-gray-500 mt-4">
+            Scored against the {evaluationData.rubric?.name || rubric?.name} rubric
+            {evaluationData.rubric?.version ? ` (version ${evaluationData.rubric.version})` : ''}
+            {evaluationData.prompt && `, with the ${evaluationData.prompt.id} prompts (version ${evaluationData.prompt.version})`}
+          </p>
+        )}
+        {currentRubric && !isScoredAgainst(evaluationData.rubric, currentRubric) && (
+          <div className="mt-4 p-4 bg-yellow-50 border border-yellow-200 rounded-md">
+            <p className="text-sm text-yellow-800">
+              The {currentRubric.name} rubric has changed since this evaluation was scored (now version {currentRubric.version}).
+            </p>
+            <div className="mt-3 flex gap-3">
+              <button
+                onClick={() => handleRescore(false)}
+                disabled={isRescoring}
+                className="px-3 py-1 text-sm bg-yellow-600 text-white rounded hover:bg-yellow-700 disabled:opacity-50"
+              >
+                {isRescoring ? 'Re-scoring...' : 'Re-score'}
+              </button>
+              {canReevaluate && (
+                <button
+                  onClick={() => handleRescore(true)}
+                  disabled={isRescoring}
+                  className="px-3 py-1 text-sm border border-yellow-600 text-yellow-800 rounded hover:bg-yellow-100 disabled:opacity-50"
+                >
+                  Re-evaluate
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+        {rescoreMessage && (
+          <p className="text-sm text-gray-600 mt-2">{rescoreMessage}</p>
+        )}
       </div>
 
       {/* Overall Score */}
@@ -297,25 +421,62 @@ export default function DetailedResultsPage() {
           <div className="flex mb-2 items-center justify-between">
             <div>
               <span className="text-xs font-semibold inline-block py-1 px-2 uppercase rounded-full text-blue-600 bg-blue-200">
-                {evaluationData.overallScore > 100 
-                  ? Math.round((evaluationData.overallScore / 500) * 100).toFixed(1) 
-                  : evaluationData.overallScore.toFixed(1)}%
+                {overallScore !== undefined ? `${overallScore.toFixed(1)}%` : '-'}
               </span>
+              {consistency && (
+                <span className="ml-2 text-sm text-gray-600">
+                  Range {consistency.overallScoreRange.min}-{consistency.overallScoreRange.max}% across {consistency.samples} runs
+                </span>
+              )}
             </div>
           </div>
           <div className="overflow-hidden h-2 mb-4 text-xs flex rounded bg-blue-200">
             <div
-              style={{ width: `${evaluationData.overallScore > 100 
-                ? Math.round((evaluationData.overallScore / 500) * 100) 
-                : evaluationData.overallScore}%` }}
-              className={`shadow-none flex flex-col text-center whitespace-nowrap text-white justify-center ${getScoreColor(evaluationData.overallScore > 100 
-                ? Math.round((evaluationData.overallScore / 500) * 100) / 20 
-                : evaluationData.overallScore / 20)}`}
+              style={{ width: `${overallScore ?? 0}%`, backgroundColor: getPerformanceLevelColor(rubric, evaluationData.performanceLevel) }}
+              className="shadow-none flex flex-col text-center whitespace-nowrap text-white justify-center"
             />
           </div>
         </div>
+        <p className="text-sm text-gray-500">
+          Computed from the criterion scores and the rubric weights{consistency && `, each the median of ${consistency.samples} independent runs`}
+        </p>
+        {criteriaNeedingReview.length > 0 && (
+          <div className="mt-4 p-4 bg-orange-50 border border-orange-200 rounded-md">
+            <p className="text-sm text-orange-800">
+              The runs disagreed on {criteriaNeedingReview.map(item => item.criterion).join(', ')}. Check {criteriaNeedingReview.length === 1 ? 'this score' : 'these scores'} against the conversation before using the result.
+            </p>
+          </div>
+        )}
+        {scoringAudit.length > 0 && (
+          <div className="mt-4 p-4 bg-yellow-50 border border-yellow-200 rounded-md">
+            <p className="text-sm font-semibold text-yellow-800 mb-2">
+              Scoring audit: the AI reported {scoringAudit.length} {scoringAudit.length === 1 ? 'number' : 'numbers'} that did not match the rubric, the computed values are shown
+            </p>
+            <ul className="list-disc pl-5 space-y-1">
+              {scoringAudit.map((warning, index) => (
+                <li key={index} className="text-sm text-yellow-800">{warning.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
 
+      {/* Conversation Metrics */}
+      {evaluationData.metrics && (
+        <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+          <h2 className="text-xl font-semibold text-gray-900 mb-1">Conversation Metrics</h2>
+          <p className="text-sm text-gray-500 mb-4">Measured directly from the transcript, independent of the AI scores</p>
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3">
+            {getMetricRows(evaluationData.metrics).map((row, index) => (
+              <div key={index} className="flex justify-between border-b border-gray-100 pb-2">
+                <dt className="text-gray-600">{row.label}</dt>
+                <dd className="font-medium text-gray-900 text-right">{row.value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+
       {/* Criteria Scores Bar Chart */}
       <div className="bg-white rounded-lg shadow-md p-6 mb-8">
         <h2 className="text-xl font-semibold text-gray-900 mb-4">Criteria Scores Overview</h2>
@@ -325,8 +486,9 @@ export default function DetailedResultsPage() {
           <ResponsiveContainer width="100%" height="100%">
             <BarChart
               data={evaluationData.criteriaScores.map(criterion => ({
-                name: criterion.criterion,
-                score: criterion.score,
+                name: criterion.notApplicable ? `${criterion.criterion} (N/A)` : criterion.criterion,
+                score: criterion.notApplicable ? null : criterion.score,
+                notApplicable: criterion.notApplicable,
                 fullName: criterion.criterion,
                 weight: criterion.weight,
                 notes: criterion.notes
@@ -354,7 +516,7 @@ export default function DetailedResultsPage() {
                     return (
                       <div className="bg-gray-800 text-white p-3 rounded shadow-lg">
                         <p className="font-bold">{data.fullName}</p>
-                        <p>Score: {data.score}/5</p>
+                        <p>{data.notApplicable ? 'Not applicable, not counted in the overall score' : `Score: ${data.score}/5`}</p>
                         <p>Weight: {data.weight}%</p>
                         <p className="mt-1 text-gray-300">
                           {data.notes}
@@ -374,7 +536,7 @@ export default function DetailedResultsPage() {
                 {evaluationData.criteriaScores.map((entry, index) => (
                   <Cell 
                     key={`cell-${index}`} 
-                    fill={getScoreColor(entry.score)} 
+                    fill={entry.notApplicable ? '#9CA3AF' : getScoreColor(entry.score)} 
                   />
                 ))}
               </Bar>
@@ -410,26 +572,104 @@ export default function DetailedResultsPage() {
                   <h3 className="text-lg font-medium text-gray-900">{criterion.criterion}</h3>
                   <p className="text-sm text-gray-500">Weight: {criterion.weight}%</p>
                 </div>
+                {criterion.notApplicable ? (
+                  <div className="flex items-center space-x-4">
+                    <span className="text-lg font-semibold px-3 py-1 rounded bg-gray-100 text-gray-600">N/A</span>
+                    <span className="text-sm text-gray-500">(not counted, remaining weights renormalized)</span>
+                  </div>
+                ) : (
                 <div className="flex items-center space-x-4">
                   <span className={`text-lg font-semibold px-3 py-1 rounded ${
                     criterion.score >= 4 ? 'bg-green-100 text-green-800' :
                     criterion.score >= 3 ? 'bg-yellow-100 text-yellow-800' :
                     'bg-red-100 text-red-800'
                   }`}>
-                    {criterion.score}/5
+                    {criterion.score}/{rubric?.maxScore ?? 5}
                   </span>
                   <span className="text-sm text-gray-500">
                     ({criterion.weightedScore} points)
                   </span>
                 </div>
+                )}
+                {findCriterionConsistency(consistency, criterion.criterion) && (
+                  <ConfidenceIndicator consistency={findCriterionConsistency(consistency, criterion.criterion)!} />
+                )}
               </div>
 
+              {!criterion.notApplicable && rubric && findCriterion(rubric, criterion.criterion) && (
+                <p className="text-sm text-gray-600 italic mb-4">
+                  {getScoreDescriptor(findCriterion(rubric, criterion.criterion)!, criterion.score)}
+                </p>
+              )}
+
               <div className="prose max-w-none">
                 <div className="bg-gray-50 p-4 rounded-md mb-4">
-                  <h4 className="text-md font-semibold text-gray-900 mb-2">Evaluation Notes</h4>
-                  <p className="text-gray-700">{criterion.notes}</p>
+                  <h4 className="text-md font-semibold text-gray-900 mb-2">
+                    {criterion.notApplicable ? 'Why This Criterion Is Not Applicable' : 'Evaluation Notes'}
+                  </h4>
+                  {criterion.notes ? (
+                    <p className="text-gray-700">{criterion.notes}</p>
+                  ) : (
+                    <p className="text-sm text-gray-500">No notes were recorded for this criterion</p>
+                  )}
                 </div>
 
+                {criterion.evidence && criterion.evidence.length > 0 && (
+                  <div className="bg-gray-50 p-4 rounded-md mb-4">
+                    <h4 className="text-md font-semibold text-gray-900 mb-2">Evidence</h4>
+                    <ul className="space-y-2">
+                      {criterion.evidence.map((citation, idx) => (
+                        <li key={idx} className="flex items-start">
+                          {evaluationData.transcript ? (
+                            <button
+                              onClick={() => handleOpenCitation(citation.turnNumber)}
+                              className="mr-2 text-sm font-semibold text-blue-600 hover:underline whitespace-nowrap"
+                            >
+                              Turn {citation.turnNumber}
+                            </button>
+                          ) : (
+                            <span className="mr-2 text-sm font-semibold text-gray-600 whitespace-nowrap">Turn {citation.turnNumber}</span>
+                          )}
+                          <div>
+                            <p className="text-gray-700 italic">"{citation.excerpt}"</p>
+                            {!citation.verified && (
+                              <p className="text-sm text-yellow-700">Not found in turn {citation.turnNumber}, this quote could not be verified</p>
+                            )}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {!criterion.notApplicable && criterion.checklist && criterion.checklist.length > 0 && (
+                  <div className="bg-gray-50 p-4 rounded-md mb-4">
+                    <h4 className="text-md font-semibold text-gray-900 mb-2">
+                      Checklist ({criterion.checklist.filter(item => item.met).length} of {criterion.checklist.length} met)
+                    </h4>
+                    <ul className="space-y-2">
+                      {criterion.checklist.map((result, idx) => (
+                        <li key={idx} className="flex items-start">
+                          <span className={`mr-2 font-semibold ${result.met ? 'text-green-600' : 'text-red-600'}`}>
+                            {result.met ? '✓' : '✗'}
+                          </span>
+                          <div>
+                            <p className="text-gray-700">{result.item}</p>
+                            {result.evidence && (
+                              <p className="text-sm text-gray-500 italic">"{result.evidence}"</p>
+                            )}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                    {rubric && findCriterion(rubric, criterion.criterion)?.checklist && (
+                      <p className="text-sm text-gray-500 mt-2">
+                        Score from the checklist: {formatChecklistScoring(findCriterion(rubric, criterion.criterion)!.checklist!)}
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 {extractExample(criterion.notes) && (
                   <div className="bg-blue-50 p-4 rounded-md mb-4">
                     <h4 className="text-md font-semibold text-gray-900 mb-2">Specific Example</h4>
@@ -439,7 +679,7 @@ export default function DetailedResultsPage() {
                   </div>
                 )}
 
-                {criterion.score < 4 && (
+                {!criterion.notApplicable && criterion.score < 4 && (
                   <div className="bg-yellow-50 p-4 rounded-md">
                     <h4 className="text-md font-semibold text-gray-900 mb-2">Areas for Improvement</h4>
                     <ul className="list-disc pl-4 space-y-2">
@@ -460,16 +700,16 @@ export default function DetailedResultsPage() {
       </div>
 
       {/* Observational Criteria */}
-      {evaluationData.observationalNotes && (
+      {(observationalNotes.length > 0 || unassessedCriteria.length > 0) && (
         <div className="bg-white rounded-lg shadow-md p-6 mb-8">
           <h2 className="text-xl font-semibold text-gray-900 mb-4">Observational Criteria</h2>
           <div className="space-y-8">
-            {(Object.entries(evaluationData.observationalNotes) as [keyof ObservationalNotes, ObservationalNote][]).map(([key, value], index) => (
+            {observationalNotes.map((value, index) => (
               <div key={index} className="border-b border-gray-200 pb-6 last:border-b-0">
                 <div className="flex justify-between items-start mb-4">
                   <div className="flex-1">
                     <h3 className="text-lg font-medium text-gray-900">
-                      {key === 'productKnowledge' ? 'Product Knowledge' : 'Handling Objections'}
+                      {(rubric && findObservationalCriterion(rubric, value.criterion)?.name) || value.criterion}
                     </h3>
                     <p className="text-sm text-gray-500">Observational Only (No Weight)</p>
                   </div>
@@ -479,7 +719,7 @@ export default function DetailedResultsPage() {
                       value.score >= 3 ? 'bg-yellow-100 text-yellow-800' :
                       'bg-red-100 text-red-800'
                     }`}>
-                      {value.score}/5
+                      {value.score}/{rubric?.maxScore ?? 5}
                     </span>
                   </div>
                 </div>
@@ -516,6 +756,93 @@ export default function DetailedResultsPage() {
                 </div>
               </div>
             ))}
+            {unassessedCriteria.map(criterion => (
+              <div key={criterion.id} className="border-b border-gray-200 pb-6 last:border-b-0">
+                <h3 className="text-lg font-medium text-gray-900">{criterion.name}</h3>
+                <p className="text-sm text-gray-500">Not assessed in this evaluation</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Guest Roster */}
+      {evaluationData.guestRoster && evaluationData.guestRoster.guests.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Guest Roster</h2>
+          {evaluationData.guestRoster.unengagedGuests.length > 0 ? (
+            <div className="bg-yellow-50 p-4 rounded-md mb-4 text-gray-700">
+              Not addressed by name: {evaluationData.guestRoster.unengagedGuests.join(', ')}
+            </div>
+          ) : (
+            <div className="bg-green-50 p-4 rounded-md mb-4 text-gray-700">
+              Every guest in the party was addressed by name.
+            </div>
+          )}
+          <div className="space-y-6">
+            {evaluationData.guestRoster.guests.map((guest, index) => {
+              const guestSignals = evaluationData.guestRoster!.signals.filter(signal => signal.guest === guest.name);
+              return (
+                <div key={index} className="border-b border-gray-200 pb-6 last:border-b-0">
+                  <div className="flex justify-between items-start mb-2">
+                    <div>
+                      <h3 className="text-lg font-medium text-gray-900">{guest.name}</h3>
+                      <p className="text-sm text-gray-500">
+                        {guest.relationship ? `${guest.relationship[0].toUpperCase()}${guest.relationship.slice(1)}, i` : 'I'}ntroduced in turn {guest.introducedInTurn}
+                      </p>
+                    </div>
+                    <span className={`text-sm font-semibold px-3 py-1 rounded ${
+                      guest.engagedByName ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                    }`}>
+                      {guest.engagedByName
+                        ? `Named by staff in turn${guest.staffMentions.length > 1 ? 's' : ''} ${guest.staffMentions.join(', ')}`
+                        : 'Never named by staff'}
+                    </span>
+                  </div>
+                  {guestSignals.length > 0 && (
+                    <ul className="list-disc pl-4 space-y-1">
+                      {guestSignals.map((signal, idx) => (
+                        <li key={idx} className="text-gray-700">
+                          <span className="text-sm text-gray-500">Turn {signal.turnNumber}, {signal.kind.replace('-', ' ')}:</span> {signal.text}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Conversation */}
+      {evaluationData.transcript && evaluationData.transcript.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+          <h2 className="text-xl font-semibold text-gray-900 mb-1">Conversation</h2>
+          <p className="text-sm text-gray-500 mb-4">Select a turn in the evidence of a criterion to jump to it here</p>
+          <div className="space-y-3 max-h-[32rem] overflow-y-auto">
+            {evaluationData.transcript.map(turn => {
+              const citedBy = evaluationData.criteriaScores.filter(criterion =>
+                criterion.evidence?.some(citation => citation.turnNumber === turn.turnNumber));
+              return (
+                <div
+                  key={turn.turnNumber}
+                  id={getTurnAnchorId(turn.turnNumber)}
+                  className={`p-3 rounded-md border ${
+                    highlightedTurn === turn.turnNumber ? 'border-blue-400 bg-blue-50' :
+                    turn.role === 'staff' ? 'border-gray-200 bg-gray-50' : 'border-gray-200'
+                  }`}
+                >
+                  <p className="text-sm font-semibold text-gray-600">
+                    {turn.speaker} ({turn.turnNumber})
+                    {citedBy.length > 0 && (
+                      <span className="ml-2 font-normal text-gray-500">Cited for {citedBy.map(criterion => criterion.criterion).join(', ')}</span>
+                    )}
+                  </p>
+                  <p className="text-gray-700 whitespace-pre-line">{turn.text}</p>
+                </div>
+              );
+            })}
           </div>
         </div>
       )}
@@ -562,7 +889,7 @@ export default function DetailedResultsPage() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
               </svg>
             </button>
-            <PDFExport evaluationData={evaluationData} onClose={handleClosePDF} />
+            <PDFExport evaluationData={evaluationData} rubric={rubric} onClose={handleClosePDF} />
           </div>
         </div>
       )}
@@ -0,0 +1,2 @@
+// Claude model used for evaluations
+export const CLAUDE_MODEL = 'claude-3-7-sonnet-20250219';
@@ -0,0 +1,93 @@
+import { Conversation } from '../types/conversation';
+import { EvaluationData } from '../types/evaluation';
+import { Rubric } from '../types/rubric';
+import { combineEvaluationSamples, normalizeSampleCount } from '../utils/consistency';
+import { toTranscript, verifyEvaluationEvidence } from '../utils/evidence';
+import { detectGuests } from '../utils/guests';
+import { computeConversationMetrics } from '../utils/metrics';
+import { getRubricReference } from '../utils/rubric';
+import { applyScoring, summarizeScoringAudit } from '../utils/scoring';
+import { EngineEvaluationOptions, EvaluationEngine } from './evaluationEngine';
+import { formatFieldErrors } from './structuredOutput';
+
+export interface ConversationEvaluationOptions extends EngineEvaluationOptions {
+  samples?: number;                        // Independent evaluations to take the median of, 1 by default
+}
+
+/**
+ * Evaluates a conversation against a rubric with an evaluation engine, computes the scores from the engine's
+ * criterion scores, verifies the evidence each score cites against the transcript and attaches the details
+ * computed from the transcript: the guest roster, the conversation metrics, the turns the evidence cites, the
+ * rubric the evaluation was scored against and the prompt template the engine used. With more than one sample the conversation is evaluated that many
+ * times, each criterion gets the median score and the agreement between the samples is attached as the consistency.
+ * @param engine The evaluation engine, Claude or the offline mock
+ * @param conversation The conversation to evaluate
+ * @param rubric The rubric to score against
+ * @param options Evaluation mode, number of samples, log context and rate limiting
+ * @returns The evaluation data
+ * @throws Error if a criterion score is missing or cannot be used
+ */
+export async function evaluateConversation(
+  engine: EvaluationEngine,
+  conversation: Conversation,
+  rubric: Rubric,
+  options: ConversationEvaluationOptions
+): Promise<EvaluationData> {
+  const { logContext } = options;
+  
+  // Objective metrics are computed before the evaluation and attached to the result
+  const metrics = computeConversationMetrics(conversation);
+  console.log(`Evaluation: Conversation metrics computed (${logContext})`, metrics);
+  
+  // With several samples the conversation is evaluated independently each time and the median scores are kept
+  const samples = normalizeSampleCount(options.samples);
+  const results: any[] = [];
+  for (let sample = 1; sample <= samples; sample++) {
+    console.log(`Evaluation: Evaluating with the ${engine.type} engine${samples > 1 ? `, sample ${sample} of ${samples}` : ''} (${logContext})`);
+    const result = await engine.evaluate(conversation, rubric, options);
+    
+    // Every citation is checked against the turn it cites, so a quote that is not in the conversation is flagged
+    const evidence = verifyEvaluationEvidence(result, conversation);
+    console.log(`Evaluation: Evidence verified, ${evidence.verified} citations found, ${evidence.unverified} not found in the cited turn, ${evidence.removed} removed (${logContext})`);
+    results.push(result);
+  }
+  
+  let evaluationData = results[0];
+  if (samples > 1) {
+    const combined = combineEvaluationSamples(results, rubric);
+    evaluationData = combined.evaluation;
+    evaluationData.consistency = combined.consistency;
+    const review = combined.consistency.criteria.filter(item => item.needsReview).map(item => item.criterion);
+    console.log(`Evaluation: Combined ${samples} samples, overall score range ${combined.consistency.overallScoreRange.min}-${combined.consistency.overallScoreRange.max}%, ${review.length > 0 ? `needs review: ${review.join(', ')}` : 'no criterion needs review'} (${logContext})`);
+  }
+  
+  // Prefer metadata parsed from the transcript when the engine leaves it out
+  if (!evaluationData.staffName && conversation.staffName) {
+    evaluationData.staffName = conversation.staffName;
+  }
+  if (!evaluationData.date && conversation.date) {
+    evaluationData.date = conversation.date;
+  }
+  
+  // The engine's criterion scores are kept, the weighted scores, overall score and performance level are computed
+  // from the rubric, and the numbers the engine reported differently are kept as an audit trail
+  const scoring = applyScoring(evaluationData, rubric);
+  console.log(`Evaluation: Scores computed from the rubric, ${summarizeScoringAudit(scoring.warnings)} (${logContext})`);
+  
+  // Missing or unusable criterion scores fail the evaluation rather than leaving a result built on partial scores
+  if (scoring.errors.length > 0) {
+    console.error(`Evaluation: The criterion scores are incomplete (${logContext})`, scoring.errors);
+    throw new Error(`The evaluation's criterion scores are incomplete:\n${formatFieldErrors(scoring.errors)}`);
+  }
+  
+  // Attach the guests detected in the party so the results can show who was engaged by name
+  evaluationData.guestRoster = detectGuests(conversation);
+  evaluationData.metrics = metrics;
+  evaluationData.transcript = toTranscript(conversation);
+  evaluationData.rubric = getRubricReference(rubric);
+  if (engine.prompt) {
+    evaluationData.prompt = engine.prompt;
+  }
+  
+  return evaluationData;
+}
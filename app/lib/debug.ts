@@ -1,3 +1,5 @@
+import { parseConversation } from '../utils/conversation';
+
 /**
  * Sanitizes an error object for logging
  * @param error The error to sanitize
@@ -25,17 +27,7 @@ export function sanitizeError(error: unknown): Record<string, unknown> {
  * Useful for debugging or fallback values
  */
 export function extractStaffName(markdown: string): string | null {
-  // Look for patterns like "Staff Member: name" or "Staff: name"
-  const staffMemberMatch = markdown.match(/Staff(?:\s+Member)?(?:\s+\(\d+\))?[:\s]+([^\n]+)/i);
-  if (staffMemberMatch && staffMemberMatch[1]) {
-    // Extract name if it appears like "hi my name is Russell"
-    const nameMatch = staffMemberMatch[1].match(/(?:hi|hello|hey)[\s,]+(?:my name is|i'm|i am)\s+([^\s,\.]+)/i);
-    if (nameMatch && nameMatch[1]) {
-      return nameMatch[1].trim();
-    }
-    return staffMemberMatch[1].trim();
-  }
-  return null;
+  return parseConversation(markdown).conversation.staffName;
 }
 
 /**
@@ -43,16 +35,5 @@ export function extractStaffName(markdown: string): string | null {
  * Useful for debugging or fallback values
  */
 export function extractDate(markdown: string): string | null {
-  const dateMatch = markdown.match(/Date:?\s+(\d{1,2}\/\d{1,2}\/\d{4}|\d{4}-\d{2}-\d{2})/i);
-  if (dateMatch && dateMatch[1]) {
-    // Try to parse and format date consistently
-    try {
-      const dateStr = dateMatch[1];
-      const date = new Date(dateStr);
-      return date.toISOString().split('T')[0]; // YYYY-MM-DD format
-    } catch (e) {
-      return dateMatch[1]; // Return as is if parsing fails
-    }
-  }
-  return null;
-} 
\ No newline at end of file
+  return parseConversation(markdown).conversation.date;
+}
@@ -0,0 +1,148 @@
+import { Anthropic } from '@anthropic-ai/sdk';
+import { Conversation } from '../types/conversation';
+import { Rubric } from '../types/rubric';
+import { PromptReference, PromptTemplate, PromptVariables } from '../types/prompt';
+import { formatConversationForEvaluation, formatGuestReactionSignals } from '../utils/conversation';
+import { needsWindowedEvaluation } from '../utils/chunking';
+import { detectGuests, formatGuestRoster } from '../utils/guests';
+import { getCommonPromptVariables, getPromptReference, renderPrompt } from '../utils/promptTemplate';
+import { loadExampleEvaluation, loadPromptTemplate } from './promptTemplate';
+import { requestEvaluation } from './structuredOutput';
+import { CLAUDE_MODEL } from './constants';
+import { evaluateConversationInWindows } from './windowedEvaluation';
+import { MockEvaluationEngine } from './mockEvaluationEngine';
+
+// How the conversation is sent to Claude: in one request, in overlapping windows, or picked by length
+export type EvaluationMode = 'auto' | 'single' | 'windowed';
+
+// Engines that can evaluate a conversation, picked with the EVALUATION_ENGINE environment variable
+export type EvaluationEngineType = 'anthropic' | 'mock';
+
+export interface EngineEvaluationOptions {
+  evaluationMode?: EvaluationMode;
+  logContext: string;                      // Request and job ids for log lines
+  beforeRequest?: () => Promise<void>;     // Called before every model request, e.g. for rate limiting
+}
+
+// Evaluation engine interface
+export interface EvaluationEngine {
+  readonly type: EvaluationEngineType;
+  readonly requiresApiKey: boolean;        // Whether the engine needs CLAUDE_API_KEY
+  readonly prompt?: PromptReference;       // Prompt template the engine sends, not set for engines that send no prompts
+  /**
+   * Evaluates a conversation against a rubric
+   * @returns The evaluation as the engine returned it, before it is scored and validated
+   */
+  evaluate(conversation: Conversation, rubric: Rubric, options: EngineEvaluationOptions): Promise<any>;
+}
+
+// Helper function to turn Claude API errors into messages that say what to check
+function describeClaudeError(error: unknown): Error {
+  if (error instanceof Error) {
+    if (error.message.includes('404') || error.message.includes('not_found_error')) {
+      return new Error('Claude API model not found. Please check your API key and model name.');
+    } else if (error.message.includes('401') || error.message.includes('unauthorized')) {
+      return new Error('Unauthorized access to Claude API. Please check your API key.');
+    } else if (error.message.includes('429') || error.message.includes('rate_limit')) {
+      return new Error('Rate limit exceeded for Claude API. Please try again later.');
+    }
+    return error;
+  }
+  return new Error(String(error));
+}
+
+// Evaluation engine that calls Claude
+export class AnthropicEvaluationEngine implements EvaluationEngine {
+  readonly type = 'anthropic';
+  readonly requiresApiKey = true;
+  readonly prompt: PromptReference;
+  private anthropic: Anthropic;
+  private model: string;
+  private promptTemplate: PromptTemplate;
+
+  constructor(apiKey: string, promptTemplate: PromptTemplate, model: string = CLAUDE_MODEL) {
+    this.anthropic = new Anthropic({ apiKey });
+    this.model = model;
+    this.promptTemplate = promptTemplate;
+    this.prompt = getPromptReference(promptTemplate);
+  }
+
+  async evaluate(conversation: Conversation, rubric: Rubric, options: EngineEvaluationOptions): Promise<any> {
+    const { evaluationMode = 'auto', logContext } = options;
+    const conversationText = formatConversationForEvaluation(conversation);
+    const variables = getCommonPromptVariables(conversation, rubric, loadExampleEvaluation());
+
+    // Long conversations are evaluated in overlapping windows instead of being truncated
+    const useWindows = evaluationMode === 'windowed' ||
+      (evaluationMode !== 'single' && needsWindowedEvaluation(conversationText));
+
+    try {
+      if (useWindows) {
+        console.log(`Evaluation Engine: Evaluating conversation in windows (${logContext})`);
+        return await evaluateConversationInWindows(this.anthropic, conversation, {
+          rubric,
+          promptTemplate: this.promptTemplate,
+          promptVariables: variables,
+          model: this.model,
+          beforeRequest: options.beforeRequest,
+          logPrefix: `Evaluation Engine (${logContext})`
+        });
+      }
+      return await this.evaluateInSinglePass(conversation, conversationText, rubric, variables, options);
+    } catch (error) {
+      console.error(`Evaluation Engine: Error calling Claude API (${logContext}):`, error);
+      throw describeClaudeError(error);
+    }
+  }
+
+  // Evaluate a conversation with a single Claude request
+  private async evaluateInSinglePass(
+    conversation: Conversation,
+    conversationText: string,
+    rubric: Rubric,
+    variables: PromptVariables,
+    options: EngineEvaluationOptions
+  ): Promise<any> {
+    const { logContext } = options;
+    console.log(`Evaluation Engine: Calling Claude API with the ${this.promptTemplate.id} v${this.promptTemplate.version} prompts (${logContext})`);
+    const evaluation = await requestEvaluation(this.anthropic, rubric, {
+      model: this.model,
+      maxTokens: 8000,
+      system: renderPrompt(this.promptTemplate.sections.system, variables),
+      prompt: renderPrompt(this.promptTemplate.sections.evaluation, {
+        ...variables,
+        conversation: conversationText,
+        guestReactionSignals: formatGuestReactionSignals(conversation.turns),
+        guestRoster: formatGuestRoster(detectGuests(conversation))
+      }),
+      beforeRequest: options.beforeRequest,
+      logPrefix: `Evaluation Engine (${logContext})`
+    });
+
+    console.log(`Evaluation Engine: Claude API response received (${logContext})`);
+    return evaluation;
+  }
+}
+
+/**
+ * Creates the evaluation engine selected by the EVALUATION_ENGINE environment variable:
+ * "anthropic" (the default) calls Claude, "mock" scores the transcript offline without an API key.
+ * Claude is sent the prompts of the template picked by the PROMPT_TEMPLATE setting.
+ * @returns The evaluation engine
+ * @throws Error if the engine is unknown or CLAUDE_API_KEY is not set for the Claude engine
+ */
+export function getEvaluationEngine(): EvaluationEngine {
+  const engineType = (process.env.EVALUATION_ENGINE || 'anthropic').toLowerCase();
+  console.log(`Evaluation Engine: Using the ${engineType} engine`);
+
+  if (engineType === 'mock') {
+    return new MockEvaluationEngine();
+  }
+  if (engineType !== 'anthropic') {
+    throw new Error(`Unknown evaluation engine "${process.env.EVALUATION_ENGINE}", use anthropic or mock`);
+  }
+  if (!process.env.CLAUDE_API_KEY) {
+    throw new Error('CLAUDE_API_KEY is not set, set it or use EVALUATION_ENGINE=mock');
+  }
+  return new AnthropicEvaluationEngine(process.env.CLAUDE_API_KEY, loadPromptTemplate());
+}
@@ -0,0 +1,22 @@
+import fs from 'fs';
+import path from 'path';
+import { WineryLexicon } from '../types/lexicon';
+import { validateLexicon } from '../utils/lexicon';
+
+/**
+ * Loads the winery lexicon from public/data on the server
+ * @returns The lexicon, or null when the file cannot be read
+ */
+export function loadLexicon(): WineryLexicon | null {
+  try {
+    const lexiconPath = path.join(process.cwd(), 'public', 'data', 'winery_lexicon.json');
+    const { errors, lexicon } = validateLexicon(JSON.parse(fs.readFileSync(lexiconPath, 'utf8')));
+    if (errors.length > 0) {
+      console.warn('Lexicon: Problems found in the winery lexicon', errors);
+    }
+    return lexicon;
+  } catch (error) {
+    console.error('Lexicon: Error loading the winery lexicon:', error);
+    return null;
+  }
+}
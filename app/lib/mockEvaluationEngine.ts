@@ -0,0 +1,155 @@
+import { Conversation, ConversationTurn } from '../types/conversation';
+import { ChecklistItemResult, CriterionScore, EvidenceCitation, ObservationalNote } from '../types/evaluation';
+import { ObservationalCriterion, Rubric, RubricCriterion } from '../types/rubric';
+import { applyChecklist, calculateOverallScore, getPerformanceLevel, getScoreDescriptor } from '../utils/rubric';
+import type { EngineEvaluationOptions, EvaluationEngine } from './evaluationEngine';
+
+// Words in criterion names and descriptions that say nothing about what to look for in the transcript
+const IGNORED_WORDS = new Set([
+  'about', 'also', 'attempt', 'been', 'could', 'does', 'during', 'each', 'effective', 'effectively', 'from',
+  'guest', 'guests', 'have', 'here', 'into', 'just', 'make', 'makes', 'member', 'more', 'most', 'other',
+  'should', 'staff', 'that', 'their', 'them', 'there', 'they', 'this', 'very', 'well', 'were', 'what', 'when',
+  'where', 'which', 'while', 'will', 'wine', 'wines', 'winery', 'with', 'would', 'your'
+]);
+
+// Longest quote from a turn in the notes
+const MAX_QUOTE_LENGTH = 120;
+
+// Helper function to reduce a word to a prefix so "recommend" matches "recommendations"
+function toKeyword(word: string): string {
+  return word.length > 5 ? word.slice(0, 5) : word;
+}
+
+// Helper function to list the keywords of a piece of text, in order of appearance
+function extractKeywords(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z']+/g) || [];
+  const keywords = words
+    .filter(word => word.length >= 4 && !IGNORED_WORDS.has(word))
+    .map(toKeyword);
+  return Array.from(new Set(keywords));
+}
+
+// Helper function to find the staff turns that mention the keywords, with the keywords each one mentions
+function findEvidence(turns: ConversationTurn[], keywords: string[]): { turn: ConversationTurn; matched: string[] }[] {
+  return turns
+    .filter(turn => turn.role === 'staff')
+    .map(turn => {
+      const turnKeywords = new Set(extractKeywords(turn.spokenText));
+      return { turn, matched: keywords.filter(keyword => turnKeywords.has(keyword)) };
+    })
+    .filter(entry => entry.matched.length > 0);
+}
+
+// Helper function to take the opening words of a turn, at most MAX_QUOTE_LENGTH characters
+function excerptTurn(turn: ConversationTurn): string {
+  const text = turn.spokenText.replace(/\s+/g, ' ').trim();
+  if (text.length <= MAX_QUOTE_LENGTH) {
+    return text;
+  }
+  const lastSpace = text.lastIndexOf(' ', MAX_QUOTE_LENGTH);
+  return text.slice(0, lastSpace > 0 ? lastSpace : MAX_QUOTE_LENGTH);
+}
+
+// Helper function to quote a turn for the notes, e.g. (Turn 4) "Welcome to Milea"
+function quoteTurn(turn: ConversationTurn): string {
+  return `(Turn ${turn.turnNumber}) "${excerptTurn(turn)}"`;
+}
+
+// Helper function to cite the first turns of the evidence for a criterion
+function citeEvidence(evidence: { turn: ConversationTurn }[]): EvidenceCitation[] {
+  return evidence.slice(0, 3).map(entry => ({ turnNumber: entry.turn.turnNumber, excerpt: excerptTurn(entry.turn), verified: true }));
+}
+
+// Helper function to score a criterion from the number of staff turns that mention its keywords
+function scoreFromEvidence(evidenceCount: number, rubric: Rubric): number {
+  return Math.min(rubric.maxScore, rubric.minScore + Math.ceil(evidenceCount / 2));
+}
+
+// Helper function to write the notes for a criterion from its evidence
+function describeEvidence(criterion: RubricCriterion | ObservationalCriterion, evidence: { turn: ConversationTurn; matched: string[] }[]): string {
+  if (evidence.length === 0) {
+    return `Mock evaluation: no staff turn mentions ${criterion.name.toLowerCase()}.`;
+  }
+  const quotes = evidence.slice(0, 2).map(entry => quoteTurn(entry.turn)).join(' ');
+  return `Mock evaluation: ${evidence.length} staff ${evidence.length === 1 ? 'turn mentions' : 'turns mention'} ${criterion.name.toLowerCase()}. ${quotes}`;
+}
+
+// Helper function to mark a checklist item met when a staff turn mentions its keywords
+function checkItem(item: string, turns: ConversationTurn[]): ChecklistItemResult {
+  const keywords = extractKeywords(item);
+  const needed = Math.min(2, keywords.length);
+  const evidence = findEvidence(turns, keywords).find(entry => entry.matched.length >= needed);
+  return evidence && needed > 0
+    ? { item, met: true, evidence: quoteTurn(evidence.turn) }
+    : { item, met: false, evidence: '' };
+}
+
+/**
+ * Evaluation engine that scores a conversation offline, without an API key or network access.
+ * Every criterion is scored from the staff turns that mention the words in its name and description, so the
+ * same transcript always gets the same rubric-shaped result. The scores say nothing about real performance,
+ * the engine is for local development, demos and automated tests of the upload, job and results flow.
+ */
+export class MockEvaluationEngine implements EvaluationEngine {
+  readonly type = 'mock';
+  readonly requiresApiKey = false;
+
+  async evaluate(conversation: Conversation, rubric: Rubric, options: EngineEvaluationOptions): Promise<any> {
+    console.log(`Evaluation Engine: Scoring ${conversation.turns.length} turns with the mock engine (${options.logContext})`);
+
+    const criteriaScores: CriterionScore[] = rubric.criteria.map(criterion => {
+      const keywords = extractKeywords(`${criterion.name} ${criterion.description}`);
+      const evidence = findEvidence(conversation.turns, keywords);
+      // A criterion with a checklist is scored from the items met, as the scoring engine would
+      const checklist = criterion.checklist
+        ? applyChecklist(criterion.checklist.items.map(item => checkItem(item, conversation.turns)), criterion.checklist)
+        : null;
+      const score = checklist ? checklist.score : scoreFromEvidence(evidence.length, rubric);
+      return {
+        criterion: criterion.name,
+        weight: criterion.weight,
+        score,
+        weightedScore: score * criterion.weight,
+        notApplicable: false,
+        notes: describeEvidence(criterion, evidence),
+        evidence: citeEvidence(evidence),
+        ...(checklist ? { checklist: checklist.checklist } : {})
+      };
+    });
+
+    const observationalNotes: ObservationalNote[] = rubric.observationalCriteria.map(criterion => {
+      const keywords = extractKeywords(`${criterion.name} ${criterion.description}`);
+      const evidence = findEvidence(conversation.turns, keywords);
+      return {
+        criterion: criterion.name,
+        score: scoreFromEvidence(evidence.length, rubric),
+        notes: describeEvidence(criterion, evidence)
+      };
+    });
+
+    // Strengths and improvements come from the highest and lowest scored criteria, in rubric order on ties
+    const ranked = criteriaScores
+      .map((item, index) => ({ item, criterion: rubric.criteria[index] }))
+      .sort((a, b) => b.item.score - a.item.score);
+    const highest = ranked.slice(0, 3);
+    const lowest = ranked.slice(-3).reverse();
+
+    const overallScore = calculateOverallScore(criteriaScores, rubric);
+    return {
+      staffName: conversation.staffName || 'Unknown Staff',
+      date: conversation.date || new Date().toISOString().split('T')[0],
+      overallScore,
+      performanceLevel: getPerformanceLevel(overallScore, rubric),
+      criteriaScores,
+      observationalNotes,
+      strengths: highest.map(({ item, criterion }) =>
+        `${criterion.name}: ${getScoreDescriptor(criterion, item.score) || `scored ${item.score} of ${rubric.maxScore}`}`),
+      areasForImprovement: lowest.map(({ item, criterion }) =>
+        `${criterion.name}: scored ${item.score} of ${rubric.maxScore}`),
+      keyRecommendations: lowest.map(({ item, criterion }) => {
+        const next = getScoreDescriptor(criterion, Math.min(rubric.maxScore, item.score + 1));
+        return next ? `${criterion.name}: aim for "${next}"` : `${criterion.name}: keep the current approach`;
+      })
+    };
+  }
+}
@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { PromptLibrary, PromptTemplate, PromptTemplateSummary } from '../types/prompt';
+import {
+  findPromptTemplateSummary,
+  formatPromptTemplateErrors,
+  parsePromptTemplate,
+  parsePromptTemplateSetting,
+  validatePromptLibrary
+} from '../utils/promptTemplate';
+
+const PROMPTS_DIR = path.join(process.cwd(), 'public', 'data', 'prompts');
+
+// Example evaluation filled in for {{exampleEvaluation}}
+const EXAMPLE_EVALUATION_PATH = path.join(process.cwd(), 'public', 'data', 'evaluation_new.json');
+
+let cachedLibrary: PromptLibrary | null = null;
+const cachedTemplates = new Map<string, PromptTemplate>();
+let cachedExampleEvaluation: any = null;
+
+/**
+ * Loads the prompt library from public/data/prompts/index.json on the server
+ * @returns The prompt library
+ * @throws Error when the library file cannot be read or is invalid
+ */
+export function loadPromptLibrary(): PromptLibrary {
+  if (cachedLibrary) {
+    return cachedLibrary;
+  }
+
+  const libraryPath = path.join(PROMPTS_DIR, 'index.json');
+  console.log('Prompt Template: Loading prompt library from', libraryPath);
+  const { isValid, errors, library } = validatePromptLibrary(JSON.parse(fs.readFileSync(libraryPath, 'utf8')));
+  if (!isValid) {
+    throw new Error(`The prompt library is invalid:\n${errors.join('\n')}`);
+  }
+
+  cachedLibrary = library;
+  return library;
+}
+
+// Helper function to find the markdown file of a version of a template.
+// Earlier versions are kept as versions/<id>/v<version>.md when a template is changed.
+function getPromptTemplatePath(summary: PromptTemplateSummary, version: number): string {
+  if (version === summary.version) {
+    return path.join(PROMPTS_DIR, summary.file);
+  }
+  return path.join(PROMPTS_DIR, 'versions', summary.id, `v${version}.md`);
+}
+
+/**
+ * Gets the template evaluations use by default: the PROMPT_TEMPLATE setting of the deployment when it is set,
+ * e.g. "general-manager" or "wine-sales-trainer@1", otherwise the library's default template
+ * @returns The template id, and the version when the setting pins one
+ * @throws Error when the setting names a template that is not in the library
+ */
+export function getDefaultPromptTemplate(): { id: string; version?: number } {
+  const library = loadPromptLibrary();
+  const setting = process.env.PROMPT_TEMPLATE?.trim();
+  if (!setting) {
+    return { id: library.defaultTemplateId };
+  }
+
+  const selected = parsePromptTemplateSetting(setting);
+  if (!findPromptTemplateSummary(library, selected.id)) {
+    throw new Error(`Unknown prompt template "${selected.id}" in PROMPT_TEMPLATE, use one of ${library.templates.map(template => template.id).join(', ')}`);
+  }
+  return selected;
+}
+
+/**
+ * Loads and parses a prompt template from the prompt library on the server.
+ * The template is checked when it is loaded, so a template with a missing section or an unknown variable is never used.
+ * @param templateId Id of the template in the library, the deployment's default template when not given
+ * @param version Version of the template, the current version when not given
+ * @returns The template
+ * @throws Error when the template or version is not in the library, cannot be read or is invalid
+ */
+export function loadPromptTemplate(templateId?: string, version?: number): PromptTemplate {
+  const library = loadPromptLibrary();
+  const selected = templateId ? { id: templateId, version } : getDefaultPromptTemplate();
+
+  const summary = findPromptTemplateSummary(library, selected.id);
+  if (!summary) {
+    throw new Error(`Unknown prompt template "${selected.id}"`);
+  }
+
+  const templateVersion = selected.version ?? summary.version;
+  const cacheKey = `${summary.id}@${templateVersion}`;
+  const cached = cachedTemplates.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const templatePath = getPromptTemplatePath(summary, templateVersion);
+  if (!fs.existsSync(templatePath)) {
+    throw new Error(`Version ${templateVersion} of the prompt template "${summary.id}" is not available`);
+  }
+  console.log('Prompt Template: Loading prompt template from', templatePath);
+  const markdown = fs.readFileSync(templatePath, 'utf8');
+  const { isValid, errors, sections } = parsePromptTemplate(markdown);
+  if (!isValid) {
+    throw new Error(`The prompt template "${summary.name}" v${templateVersion} is invalid:\n${formatPromptTemplateErrors(errors).join('\n')}`);
+  }
+
+  const template: PromptTemplate = {
+    id: summary.id,
+    name: summary.name,
+    version: templateVersion,
+    description: summary.description,
+    contentHash: crypto.createHash('sha256').update(markdown).digest('hex'),
+    sections
+  };
+
+  console.log(`Prompt Template: Loaded "${template.name}" v${template.version}`);
+  cachedTemplates.set(cacheKey, template);
+  return template;
+}
+
+/**
+ * Lists the versions of a template that can be loaded, the archived ones and the current one
+ * @param summary The template in the library
+ * @returns The versions, oldest first
+ */
+export function listPromptTemplateVersions(summary: PromptTemplateSummary): number[] {
+  const archiveDir = path.join(PROMPTS_DIR, 'versions', summary.id);
+  const archived = fs.existsSync(archiveDir)
+    ? fs.readdirSync(archiveDir)
+      .map(file => file.match(/^v(\d+)\.md$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => Number(match[1]))
+      .filter(version => version < summary.version)
+    : [];
+  return [...archived.sort((a, b) => a - b), summary.version];
+}
+
+/**
+ * Loads the example evaluation filled in for {{exampleEvaluation}}, public/data/evaluation_new.json
+ * @returns The example evaluation as it is stored, before it is fitted to a rubric
+ */
+export function loadExampleEvaluation(): any {
+  if (!cachedExampleEvaluation) {
+    console.log('Prompt Template: Loading example evaluation from', EXAMPLE_EVALUATION_PATH);
+    cachedExampleEvaluation = JSON.parse(fs.readFileSync(EXAMPLE_EVALUATION_PATH, 'utf8'));
+  }
+  return cachedExampleEvaluation;
+}
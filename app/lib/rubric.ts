@@ -0,0 +1,229 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Rubric, RubricLibrary, RubricSummary } from '../types/rubric';
+import {
+  findRubricSummary,
+  formatRubricErrors,
+  formatRubricMarkdown,
+  parseLibraryRubric,
+  parseRubric,
+  validateRubricLibrary
+} from '../utils/rubric';
+
+// The rubric library deployed with the app
+const BUNDLED_RUBRICS_DIR = path.join(process.cwd(), 'public', 'data', 'rubrics');
+
+let rubricsDir: string | null = null;
+let cachedLibrary: RubricLibrary | null = null;
+const cachedRubrics = new Map<string, Rubric>();
+
+/**
+ * Gets the directory of the rubric library: the RUBRICS_DIR setting of the deployment when it is set,
+ * e.g. a persistent disk, otherwise public/data/rubrics. A RUBRICS_DIR without a library yet is
+ * filled with a copy of the bundled library, so rubrics saved there outlive redeploys.
+ * @returns The directory of the rubric library
+ */
+export function getRubricsDir(): string {
+  if (rubricsDir) {
+    return rubricsDir;
+  }
+
+  const setting = process.env.RUBRICS_DIR?.trim();
+  if (!setting) {
+    rubricsDir = BUNDLED_RUBRICS_DIR;
+    return rubricsDir;
+  }
+
+  if (!fs.existsSync(path.join(setting, 'index.json'))) {
+    console.log('Rubric: Copying the bundled rubric library to', setting);
+    fs.mkdirSync(setting, { recursive: true });
+    fs.cpSync(BUNDLED_RUBRICS_DIR, setting, { recursive: true });
+  }
+  rubricsDir = setting;
+  return rubricsDir;
+}
+
+/**
+ * Checks whether rubrics can be saved on this deployment. The bundled library is read-only on
+ * serverless hosts such as Netlify, and RUBRICS_DIR has to point at a writable directory to save there.
+ * @returns Why rubrics cannot be saved, or null when they can
+ */
+export function getRubricLibraryWriteError(): string | null {
+  const dir = getRubricsDir();
+  try {
+    fs.accessSync(dir, fs.constants.W_OK);
+    fs.accessSync(path.join(dir, 'index.json'), fs.constants.W_OK);
+    return null;
+  } catch (error) {
+    console.error('Rubric: The rubric library is not writable', error);
+    return `Rubrics cannot be saved on this deployment because the rubric library at ${dir} is read-only. Set RUBRICS_DIR to a writable, persistent directory to save rubrics.`;
+  }
+}
+
+// Helper function to stop a save before any file of the rubric library is written
+function assertRubricLibraryWritable(): void {
+  const writeError = getRubricLibraryWriteError();
+  if (writeError) {
+    throw new Error(writeError);
+  }
+}
+
+/**
+ * Loads the rubric library from index.json in the rubric library directory on the server
+ * @returns The rubric library
+ * @throws Error when the library file cannot be read or is invalid
+ */
+export function loadRubricLibrary(): RubricLibrary {
+  if (cachedLibrary) {
+    return cachedLibrary;
+  }
+
+  const libraryPath = path.join(getRubricsDir(), 'index.json');
+  console.log('Rubric: Loading rubric library from', libraryPath);
+  const { isValid, errors, library } = validateRubricLibrary(JSON.parse(fs.readFileSync(libraryPath, 'utf8')));
+  if (!isValid) {
+    throw new Error(`The rubric library is invalid:\n${errors.join('\n')}`);
+  }
+
+  cachedLibrary = library;
+  return library;
+}
+
+// Helper function to find the markdown file of a version of a rubric.
+// Earlier versions are archived as versions/<id>/v<version>.md when a rubric is changed.
+function getRubricPath(summary: RubricSummary, version: number): string {
+  if (version === summary.version) {
+    return path.join(getRubricsDir(), summary.file);
+  }
+  return path.join(getRubricsDir(), 'versions', summary.id, `v${version}.md`);
+}
+
+/**
+ * Loads and parses an evaluation rubric from the rubric library on the server.
+ * The rubric is checked when it is loaded, so a rubric whose weights do not add up to 100% is never used.
+ * @param rubricId Id of the rubric in the library, the library's default rubric when not given
+ * @param version Version of the rubric, the current version when not given
+ * @returns The rubric
+ * @throws Error when the rubric or version is not in the library, cannot be read or is invalid
+ */
+export function loadRubric(rubricId?: string, version?: number): Rubric {
+  const library = loadRubricLibrary();
+  const id = rubricId || library.defaultRubricId;
+
+  const summary = findRubricSummary(library, id);
+  if (!summary) {
+    throw new Error(`Unknown rubric "${id}"`);
+  }
+
+  const rubricVersion = version ?? summary.version;
+  const cacheKey = `${id}@${rubricVersion}`;
+  const cached = cachedRubrics.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const rubricPath = getRubricPath(summary, rubricVersion);
+  if (!fs.existsSync(rubricPath)) {
+    throw new Error(`Version ${rubricVersion} of the rubric "${id}" is not available`);
+  }
+  console.log('Rubric: Loading rubric from', rubricPath);
+  const markdown = fs.readFileSync(rubricPath, 'utf8');
+  const rubric: Rubric = {
+    ...parseLibraryRubric(markdown, summary, rubricVersion),
+    contentHash: crypto.createHash('sha256').update(markdown).digest('hex')
+  };
+
+  console.log(`Rubric: Loaded "${rubric.name}" v${rubric.version} with ${rubric.criteria.length} weighted and ${rubric.observationalCriteria.length} observational criteria`);
+  cachedRubrics.set(cacheKey, rubric);
+  return rubric;
+}
+
+/**
+ * Saves a changed rubric as a new version. The current markdown is archived under versions/<id>/v<version>.md
+ * so evaluations scored against it can still be compared, and the library's version is bumped.
+ * @param rubricId Id of the rubric in the library
+ * @param rubric The changed rubric
+ * @returns The new version of the rubric
+ * @throws Error when the rubric is not in the library, is invalid or the rubric library is not writable
+ */
+export function saveRubricVersion(rubricId: string, rubric: Rubric): Rubric {
+  const library = loadRubricLibrary();
+  const summary = findRubricSummary(library, rubricId);
+  if (!summary) {
+    throw new Error(`Unknown rubric "${rubricId}"`);
+  }
+
+  // Check the markdown the way it will be read back, so an invalid rubric is never saved
+  const markdown = formatRubricMarkdown(rubric);
+  const { isValid, errors } = parseRubric(markdown);
+  if (!isValid) {
+    throw new Error(`The evaluation rubric "${summary.name}" is invalid:\n${formatRubricErrors(errors).join('\n')}`);
+  }
+
+  const currentPath = getRubricPath(summary, summary.version);
+  assertRubricLibraryWritable();
+  const archivePath = path.join(getRubricsDir(), 'versions', summary.id, `v${summary.version}.md`);
+  if (!fs.existsSync(archivePath)) {
+    console.log('Rubric: Archiving version', summary.version, 'to', archivePath);
+    fs.mkdirSync(path.dirname(archivePath), { recursive: true });
+    fs.copyFileSync(currentPath, archivePath);
+  }
+  fs.writeFileSync(currentPath, markdown);
+
+  // Bump the version in the library file, keeping the other entries as they are
+  const libraryPath = path.join(getRubricsDir(), 'index.json');
+  const libraryFile = JSON.parse(fs.readFileSync(libraryPath, 'utf8'));
+  const entry = libraryFile.rubrics.find((item: any) => item.id === summary.id);
+  entry.version = summary.version + 1;
+  fs.writeFileSync(libraryPath, JSON.stringify(libraryFile, null, 2) + '\n');
+  console.log(`Rubric: Saved "${summary.name}" as version ${entry.version}`);
+
+  cachedLibrary = null;
+  return loadRubric(summary.id);
+}
+
+/**
+ * Adds a new rubric to the rubric library as version 1, e.g. one imported from another location
+ * @param summary The library entry, without its version and file
+ * @param rubric The rubric
+ * @returns The added rubric
+ * @throws Error when the id is already in the library, the rubric is invalid or the rubric library is not writable
+ */
+export function addRubric(summary: Omit<RubricSummary, 'version' | 'file'>, rubric: Rubric): Rubric {
+  const library = loadRubricLibrary();
+  if (findRubricSummary(library, summary.id)) {
+    throw new Error(`The rubric library already has a rubric "${summary.id}"`);
+  }
+
+  const markdown = formatRubricMarkdown(rubric);
+  const { isValid, errors } = parseRubric(markdown);
+  if (!isValid) {
+    throw new Error(`The evaluation rubric "${summary.name}" is invalid:\n${formatRubricErrors(errors).join('\n')}`);
+  }
+
+  assertRubricLibraryWritable();
+  const file = `${summary.id}.md`;
+  const rubricPath = path.join(getRubricsDir(), file);
+  if (fs.existsSync(rubricPath)) {
+    throw new Error(`A rubric file named ${file} already exists`);
+  }
+  fs.writeFileSync(rubricPath, markdown);
+
+  // Add the entry to the library file, keeping the other entries as they are
+  const libraryPath = path.join(getRubricsDir(), 'index.json');
+  const libraryFile = JSON.parse(fs.readFileSync(libraryPath, 'utf8'));
+  libraryFile.rubrics.push({
+    id: summary.id,
+    name: summary.name,
+    version: 1,
+    description: summary.description,
+    file,
+    scenarioKeywords: summary.scenarioKeywords
+  });
+  fs.writeFileSync(libraryPath, JSON.stringify(libraryFile, null, 2) + '\n');
+  console.log(`Rubric: Added "${summary.name}" to the rubric library as ${file}`);
+
+  cachedLibrary = null;
+  return loadRubric(summary.id);
+}
@@ -0,0 +1,119 @@
+import { Anthropic } from '@anthropic-ai/sdk';
+import { ValidationError } from '../types/evaluation';
+import { Rubric } from '../types/rubric';
+import { buildEvaluationSchema, EVALUATION_TOOL_NAME, JsonSchema, validateEvaluationOutput } from '../utils/evaluationSchema';
+
+export interface StructuredOutputRequest {
+  model: string;                                   // Claude model to call
+  maxTokens: number;
+  system?: string;
+  prompt: string;
+  toolName: string;                                // Tool Claude must call with its answer
+  toolDescription: string;
+  schema: JsonSchema;                              // Input schema of the tool, must describe an object
+  validate: (input: any) => ValidationError[];     // Checks the tool input, usually against the same schema
+  beforeRequest?: () => Promise<void>;             // Called before every Claude request, e.g. for rate limiting
+  logPrefix: string;                               // Prefix for log lines
+}
+
+// Helper function to list the fields that failed validation, one per line
+export function formatFieldErrors(errors: ValidationError[]): string {
+  return errors.map(error => `- ${error.field}: ${error.message}`).join('\n');
+}
+
+// Helper function to get the input Claude passed to the tool
+function findToolUse(message: Anthropic.Message, toolName: string): Anthropic.ToolUseBlock {
+  const toolUse = message.content.find(
+    (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use' && block.name === toolName
+  );
+  if (!toolUse) {
+    throw new Error(`Claude did not call the ${toolName} tool (stop reason: ${message.stop_reason})`);
+  }
+  return toolUse;
+}
+
+/**
+ * Asks Claude for a structured answer by making it call a tool whose input schema is the answer's schema.
+ * The tool input is validated, and when fields are missing or invalid one repair request names them and asks
+ * Claude to call the tool again, so no field is ever filled in with a default.
+ * @param anthropic The Anthropic client
+ * @param request The prompt, the tool and how to validate its input
+ * @returns The validated tool input
+ * @throws Error if Claude does not call the tool, or its input is still invalid after the repair request
+ */
+export async function requestStructuredOutput(anthropic: Anthropic, request: StructuredOutputRequest): Promise<any> {
+  const tool: Anthropic.Tool = {
+    name: request.toolName,
+    description: request.toolDescription,
+    input_schema: request.schema as Anthropic.Tool.InputSchema
+  };
+  const messages: Anthropic.MessageParam[] = [{ role: 'user', content: request.prompt }];
+
+  const send = async () => {
+    if (request.beforeRequest) {
+      await request.beforeRequest();
+    }
+    return anthropic.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      ...(request.system ? { system: request.system } : {}),
+      messages,
+      tools: [tool],
+      tool_choice: { type: 'tool', name: request.toolName },
+      temperature: 0.1
+    });
+  };
+
+  const response = await send();
+  const toolUse = findToolUse(response, request.toolName);
+  const errors = request.validate(toolUse.input);
+  if (errors.length === 0) {
+    return toolUse.input;
+  }
+
+  // Repair: return the failing fields as the tool result and ask for the whole answer again
+  console.warn(`${request.logPrefix}: ${request.toolName} input has ${errors.length} invalid fields, requesting a repair`,
+    errors.map(error => error.field));
+  messages.push(
+    { role: 'assistant', content: response.content },
+    {
+      role: 'user',
+      content: [{
+        type: 'tool_result',
+        tool_use_id: toolUse.id,
+        is_error: true,
+        content: `These fields are missing or invalid:\n${formatFieldErrors(errors)}\n\nCall ${request.toolName} again with the complete input. Keep the fields that were valid and correct the ones listed.`
+      }]
+    }
+  );
+
+  const repaired = findToolUse(await send(), request.toolName);
+  const remainingErrors = request.validate(repaired.input);
+  if (remainingErrors.length > 0) {
+    console.error(`${request.logPrefix}: ${request.toolName} input is still invalid after the repair request`, remainingErrors);
+    throw new Error(`Claude returned invalid fields after a repair request:\n${formatFieldErrors(remainingErrors)}`);
+  }
+  console.log(`${request.logPrefix}: ${request.toolName} input repaired`);
+  return repaired.input;
+}
+
+/**
+ * Asks Claude for an evaluation through the evaluation tool, validated against the schema built from the rubric
+ * @param anthropic The Anthropic client
+ * @param rubric The rubric the evaluation is scored against
+ * @param request The prompt and request options
+ * @returns The validated evaluation
+ */
+export async function requestEvaluation(
+  anthropic: Anthropic,
+  rubric: Rubric,
+  request: Omit<StructuredOutputRequest, 'toolName' | 'toolDescription' | 'schema' | 'validate'>
+): Promise<any> {
+  return requestStructuredOutput(anthropic, {
+    ...request,
+    toolName: EVALUATION_TOOL_NAME,
+    toolDescription: `Record the evaluation of the conversation against the ${rubric.name} rubric`,
+    schema: buildEvaluationSchema(rubric),
+    validate: input => validateEvaluationOutput(input, rubric)
+  });
+}
@@ -0,0 +1,169 @@
+import { Anthropic } from '@anthropic-ai/sdk';
+import { Conversation } from '../types/conversation';
+import { PromptTemplate, PromptVariables } from '../types/prompt';
+import { formatGuestReactionSignals } from '../utils/conversation';
+import { detectGuests, formatGuestRoster } from '../utils/guests';
+import { Rubric } from '../types/rubric';
+import { buildWindowEvidenceSchema, validateAgainstSchema, WINDOW_EVIDENCE_TOOL_NAME } from '../utils/evaluationSchema';
+import { renderPrompt } from '../utils/promptTemplate';
+import { requestEvaluation, requestStructuredOutput } from './structuredOutput';
+import { CLAUDE_MODEL } from './constants';
+import {
+  chunkConversation,
+  formatTurn,
+  formatWindow,
+  mergeWindowEvidence,
+  ConversationWindow,
+  MergedCriterionEvidence,
+  WindowEvidence,
+  WindowOptions
+} from '../utils/chunking';
+
+// Number of turns from the start and end of the conversation quoted verbatim in the final step
+const BOOKEND_TURNS = 2;
+
+export interface WindowedEvaluationOptions {
+  rubric: Rubric;                          // Rubric used for every step
+  promptTemplate: PromptTemplate;          // Template of the prompts for every step
+  promptVariables: PromptVariables;        // Values of the variables every section can use
+  model?: string;                          // Claude model to call
+  windowOptions?: Partial<WindowOptions>;  // Window size and overlap
+  beforeRequest?: () => Promise<void>;     // Called before every Claude request, e.g. for rate limiting
+  logPrefix?: string;                      // Prefix for log lines
+}
+
+// Map step: gather evidence for every criterion from one window
+async function gatherWindowEvidence(
+  anthropic: Anthropic,
+  conversation: Conversation,
+  window: ConversationWindow,
+  windowCount: number,
+  options: WindowedEvaluationOptions
+): Promise<WindowEvidence> {
+  const position = [
+    window.isFirst ? 'It includes the opening of the visit.' : '',
+    window.isLast ? 'It includes the end of the visit.' : ''
+  ].filter(Boolean).join(' ');
+
+  const prompt = renderPrompt(options.promptTemplate.sections.windowEvidence, {
+    ...options.promptVariables,
+    conversation: formatWindow(window),
+    guestReactionSignals: formatGuestReactionSignals(window.turns),
+    windowNumber: window.index + 1,
+    windowCount,
+    startTurn: window.startTurn,
+    endTurn: window.endTurn,
+    windowPosition: position
+  });
+
+  const schema = buildWindowEvidenceSchema(options.rubric);
+  const result = await requestStructuredOutput(anthropic, {
+    model: options.model || CLAUDE_MODEL,
+    maxTokens: 3000,
+    system: renderPrompt(options.promptTemplate.sections.system, options.promptVariables),
+    prompt,
+    toolName: WINDOW_EVIDENCE_TOOL_NAME,
+    toolDescription: 'Record the evidence for every rubric criterion found in one section of the conversation',
+    schema,
+    validate: input => validateAgainstSchema(input, schema),
+    beforeRequest: options.beforeRequest,
+    logPrefix: `${options.logPrefix || 'Windowed evaluation'} (window ${window.index + 1})`
+  });
+
+  return {
+    windowIndex: window.index,
+    startTurn: window.startTurn,
+    endTurn: window.endTurn,
+    summary: typeof result.summary === 'string' ? result.summary : '',
+    criteria: Array.isArray(result.criteria) ? result.criteria : []
+  };
+}
+
+// Helper function to cite the excerpts gathered from the windows as the evidence of each criterion, so the
+// final step, which only sees the opening and end of the conversation, does not have to quote turns again.
+// Criteria without window citations keep the citations of the final step.
+function attachWindowCitations(evaluation: any, mergedEvidence: MergedCriterionEvidence[]): number {
+  let attached = 0;
+  const criteriaScores: any[] = Array.isArray(evaluation?.criteriaScores) ? evaluation.criteriaScores : [];
+  criteriaScores.forEach(item => {
+    const name = typeof item?.criterion === 'string' ? item.criterion.trim().toLowerCase() : '';
+    const merged = mergedEvidence.find(entry => entry.criterion.toLowerCase() === name);
+    if (item.notApplicable === true || !merged || merged.evidence.length === 0) {
+      return;
+    }
+    item.evidence = merged.evidence.map(citation => ({ ...citation }));
+    attached += merged.evidence.length;
+  });
+  return attached;
+}
+
+/**
+ * Evaluates a long conversation in overlapping windows and merges the evidence into one evaluation.
+ * Every turn is seen by at least one window, so nothing is truncated.
+ * @param anthropic The Anthropic client
+ * @param conversation The parsed conversation
+ * @param options Rubric, prompt template, model and window options
+ * @returns The evaluation returned by the final step, validated against the rubric's schema, with the windows' citations as evidence
+ */
+export async function evaluateConversationInWindows(
+  anthropic: Anthropic,
+  conversation: Conversation,
+  options: WindowedEvaluationOptions
+): Promise<any> {
+  const logPrefix = options.logPrefix || 'Windowed evaluation';
+  const rubric = options.rubric;
+  const windows = chunkConversation(conversation, options.windowOptions);
+  console.log(`${logPrefix}: Split ${conversation.turns.length} turns into ${windows.length} windows`,
+    windows.map(window => `${window.startTurn}-${window.endTurn}`));
+
+  // Map: windows are evaluated one at a time to stay within rate limits
+  const windowResults: WindowEvidence[] = [];
+  for (const window of windows) {
+    console.log(`${logPrefix}: Gathering evidence for window ${window.index + 1}/${windows.length}`);
+    windowResults.push(await gatherWindowEvidence(anthropic, conversation, window, windows.length, options));
+  }
+
+  // Reduce: score the whole conversation from the merged evidence
+  const mergedEvidence = mergeWindowEvidence(windowResults);
+  const openingTurns = conversation.turns.slice(0, BOOKEND_TURNS).map(formatTurn).join('\n\n');
+  const closingTurns = conversation.turns.slice(-BOOKEND_TURNS).map(formatTurn).join('\n\n');
+
+  const evidenceText = mergedEvidence.map(item => {
+    const scores = item.provisionalScores.length > 0
+      ? `Provisional section scores: ${item.provisionalScores.map(entry => `section ${entry.windowIndex + 1}: ${entry.score}`).join(', ')}`
+      : 'Provisional section scores: none';
+    const evidence = item.evidence.length > 0
+      ? item.evidence.map(citation => `- Turn ${citation.turnNumber}: "${citation.excerpt}"`).join('\n')
+      : '- No evidence found';
+    return `### ${item.criterion}\n${scores}\n${evidence}`;
+  }).join('\n\n');
+
+  const summariesText = windowResults
+    .map(result => `Section ${result.windowIndex + 1} (turns ${result.startTurn}-${result.endTurn}): ${result.summary}`)
+    .join('\n');
+
+  const prompt = renderPrompt(options.promptTemplate.sections.windowMerge, {
+    ...options.promptVariables,
+    guestReactionSignals: formatGuestReactionSignals(conversation.turns),
+    guestRoster: formatGuestRoster(detectGuests(conversation)),
+    windowCount: windows.length,
+    openingTurns,
+    closingTurns,
+    sectionSummaries: summariesText,
+    evidenceByCriterion: evidenceText
+  });
+
+  console.log(`${logPrefix}: Merging evidence for ${mergedEvidence.length} criteria`);
+  const evaluation = await requestEvaluation(anthropic, rubric, {
+    model: options.model || CLAUDE_MODEL,
+    maxTokens: 8000,
+    system: renderPrompt(options.promptTemplate.sections.system, options.promptVariables),
+    prompt,
+    beforeRequest: options.beforeRequest,
+    logPrefix
+  });
+
+  const attached = attachWindowCitations(evaluation, mergedEvidence);
+  console.log(`${logPrefix}: Attached ${attached} citations gathered from the windows`);
+  return evaluation;
+}
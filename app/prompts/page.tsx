@@ -0,0 +1,20 @@
+"use client";
+
+import React from 'react';
+import BackButton from '../../components/BackButton';
+import PromptTemplateLibrary from '../../components/PromptTemplateLibrary';
+
+export default function PromptsPage() {
+  return (
+    <main className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-4xl mx-auto">
+        <BackButton />
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Prompt Templates</h1>
+        <p className="text-gray-600 mb-8">
+          The prompts sent to Claude for each evaluation, kept as versioned templates in public/data/prompts. Every evaluation records the template and version it was made with.
+        </p>
+        <PromptTemplateLibrary />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,20 @@
+"use client";
+
+import React from 'react';
+import BackButton from '../../components/BackButton';
+import RubricEditor from '../../components/RubricEditor';
+
+export default function RubricsPage() {
+  return (
+    <main className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-4xl mx-auto">
+        <BackButton />
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Rubric Editor</h1>
+        <p className="text-gray-600 mb-8">
+          Change the criteria, weights and score descriptions of a rubric. Saving creates a new version; evaluations keep the version they were scored against.
+        </p>
+        <RubricEditor />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,31 @@
+// Types for the multi-file upload queue
+import { TranscriptImportResult } from './conversation';
+import { EvaluationData } from './evaluation';
+
+// Status of a file in the upload queue
+export type BatchItemStatus = 'queued' | 'analyzing' | 'done' | 'failed';
+
+// A single file in the upload queue
+export interface BatchItem {
+  id: string;                            // Unique id for the queue entry
+  fileName: string;
+  importResult: TranscriptImportResult;  // Imported conversation, including parse errors and speaker roles
+  rubricId: string | null;               // Rubric picked in the importer, null to select one from the scenario
+  status: BatchItemStatus;
+  error: string | null;                  // Why the analysis failed
+  warning: string | null;                // A problem with an analysis that succeeded, e.g. its result could not be stored
+  jobId: string | null;                  // Job id of the current or last analysis
+  result: EvaluationData | null;         // Evaluation once the analysis is done
+  resultId: string | null;               // Id of the stored evaluation, used to link to the detailed results
+  attempts: number;                      // Number of times the analysis was started
+}
+
+// Counts of queue entries by status
+export interface BatchSummary {
+  total: number;
+  queued: number;
+  analyzing: number;
+  done: number;
+  failed: number;
+  invalid: number;   // Files that cannot be analyzed until their parse errors are fixed
+}
@@ -0,0 +1,97 @@
+// Types for parsed conversation transcripts
+import { LexiconSubstitution } from './lexicon';
+
+// Role of the person speaking in a turn
+export type SpeakerRole = 'staff' | 'guest';
+
+// A single turn in the conversation
+export interface ConversationTurn {
+  turnNumber: number;          // Turn number as written in the transcript, e.g. "### Guest (2)"
+  role: SpeakerRole;           // Who is speaking
+  speaker: string;             // Speaker label as written, e.g. "Staff Member" or "Guest"
+  text: string;                // Full text of the turn, including stage directions
+  spokenText: string;          // What was said, with the stage directions taken out
+  stageDirections: string[];   // Non-verbal channel: inline stage directions such as "smiles" from "*smiles*"
+  line: number;                // Line number of the turn heading in the source (1-based)
+  startTime?: number;          // Start of the turn in the recording (seconds), for caption imports
+  endTime?: number;            // End of the turn in the recording (seconds), for caption imports
+}
+
+// Scenario the conversation was recorded or simulated under
+export interface ConversationScenario {
+  title: string;               // e.g. "Wine Tasting Room Visit"
+  description: string;         // Free text description of the scenario
+}
+
+// Parsed conversation model
+export interface Conversation {
+  title: string;                         // Document title, e.g. "Wine Tasting Room Conversation"
+  scenario: ConversationScenario | null; // Scenario header, if present
+  date: string | null;                   // Date of the conversation (YYYY-MM-DD format)
+  time: string | null;                   // Time of day as written, e.g. "3:17:57 PM"
+  staffName: string | null;              // Staff member's name, taken from their introduction
+  turns: ConversationTurn[];             // Ordered list of turns
+}
+
+// Line-level parse error
+export interface ConversationParseError {
+  line: number;     // Line number in the source (1-based), 0 for document-level errors
+  message: string;
+}
+
+// Result of parsing a conversation transcript
+export interface ConversationParseResult {
+  isValid: boolean;
+  errors: ConversationParseError[];
+  conversation: Conversation;
+}
+
+// Caption file formats that can be imported as conversations
+export type CaptionFormat = 'vtt' | 'srt';
+
+// A single utterance from an imported transcript, before its speaker is mapped to a role
+export interface SpeakerUtterance {
+  index: number;               // Position of the utterance in the source (0-based)
+  speaker: string;             // Speaker label, e.g. "Russell" or "Speaker 1"
+  text: string;                // Utterance text with the speaker label and markup removed
+  line: number;                // Line number in the source (1-based), 0 when the source has no lines
+  startTime?: number;          // Start of the utterance in the recording (seconds)
+  endTime?: number;            // End of the utterance in the recording (seconds)
+}
+
+// A single timed cue from a WebVTT or SRT caption file
+export interface CaptionCue extends SpeakerUtterance {
+  startTime: number;
+  endTime: number;
+}
+
+// Result of parsing a caption file
+export interface CaptionParseResult {
+  format: CaptionFormat;
+  cues: CaptionCue[];
+  errors: ConversationParseError[];
+}
+
+// Role assigned to each speaker label in a caption file
+export type SpeakerRoleMap = Record<string, SpeakerRole>;
+
+// Conversation details an importer found besides the turns
+export type ConversationMetadata = Partial<Pick<Conversation, 'title' | 'scenario' | 'date' | 'time' | 'staffName'>>;
+
+// Result of importing a transcript file
+export interface TranscriptImportResult {
+  importerId: string;                     // Importer that read the file, e.g. "markdown" or "vtt"
+  parseResult: ConversationParseResult;   // The normalized conversation
+  utterances: SpeakerUtterance[] | null;  // Speaker-labelled utterances, when speakers still have to be mapped to roles
+  speakerRoles: SpeakerRoleMap;           // Role assigned to each speaker label
+  metadata: ConversationMetadata;         // Details to keep when the conversation is rebuilt with new roles
+  substitutions?: LexiconSubstitution[];  // Winery lexicon corrections made to the transcript
+}
+
+// A pluggable transcript importer, chosen by sniffing the file content
+export interface TranscriptImporter {
+  id: string;                                          // Unique id, e.g. "json-chat"
+  label: string;                                       // Human readable name, e.g. "JSON chat export"
+  detect: (content: string) => boolean;                // Whether the content looks like this format
+  import: (content: string) => TranscriptImportResult;
+}
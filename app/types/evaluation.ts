@@ -1,25 +1,78 @@
+import { ConversationTurn } from './conversation';
+import { GuestRoster } from './guests';
+import { ConversationMetrics } from './metrics';
+import { PromptReference } from './prompt';
+import { Rubric, RubricReference } from './rubric';
+import { calculateOverallScore, getLowestPerformanceLevel, getMaxWeightedScore } from '../utils/rubric';
+
+// Types for the checklist of a criterion that has one
+export interface ChecklistItemResult {
+  item: string;       // The checklist item from the rubric
+  met: boolean;       // Whether the staff member did it
+  evidence: string;   // What in the conversation shows it, empty when not met
+}
+
+// A quote from the conversation that supports a criterion score
+export interface EvidenceCitation {
+  turnNumber: number; // Turn the excerpt is quoted from
+  excerpt: string;    // The words quoted from the turn
+  verified: boolean;  // Whether the excerpt was found in the cited turn, unverified citations are flagged
+}
+
+// A turn of the evaluated conversation, kept with the evaluation so citations can be opened in context
+export type TranscriptTurn = Pick<ConversationTurn, 'turnNumber' | 'role' | 'speaker' | 'text'>;
+
 // Types for evaluation criteria scores
 export interface CriterionScore {
   criterion: string;  // Name of the criterion being evaluated
-  weight: number;     // Weight of the criterion (1-10)
-  score: number;      // Score given (1-5)
-  weightedScore: number; // Calculated as score * weight
-  notes: string;      // Detailed notes about the score
+  weight: number;     // Percentage weight of the criterion in the rubric
+  score: number;      // Score on the rubric's scale, e.g. 1-5
+  weightedScore: number; // Calculated as score * weight, 0 when not applicable
+  notes: string;      // Detailed notes about the score, or why the criterion is not applicable
+  notApplicable?: boolean; // The conversation gave no opportunity for the criterion, score is 0 and it is left out of the overall score
+  checklist?: ChecklistItemResult[]; // For criteria with a checklist, the score is derived from the items met
+  evidence?: EvidenceCitation[]; // Turns and excerpts the score is based on, checked against the transcript
 }
 
-// Types for observational notes (unweighted criteria)
+// Types for observational notes (unweighted criteria defined by the rubric)
 export interface ObservationalNote {
-  score: number;      // Score given (1-5)
+  criterion: string;  // Name of the observational criterion
+  score: number;      // Score on the rubric's scale, e.g. 1-5
   notes: string;      // Detailed notes about the observation
 }
 
-export interface ObservationalNotes {
-  productKnowledge: ObservationalNote;    // Evaluation of product knowledge
-  handlingObjections: ObservationalNote;   // Evaluation of objection handling
+// One note per observational criterion in the rubric, in rubric order
+export type ObservationalNotes = ObservationalNote[];
+
+// A number the evaluator reported that the scoring engine computed differently, kept for staff reviews
+export interface ScoringAuditWarning {
+  field: string;              // Field of the evaluator's result, e.g. "criteriaScores[2].weightedScore" or "overallScore"
+  reported: number | string;  // What the evaluator returned
+  computed: number | string;  // What the scoring engine computed from the rubric, and stored
+  message: string;
 }
 
-// Performance level type - must be one of these exact values
-export type PerformanceLevel = 'Exceptional' | 'Strong' | 'Proficient' | 'Developing' | 'Needs Improvement';
+// How closely independent evaluations of the same conversation agreed on a score
+export type ScoreConfidence = 'high' | 'medium' | 'low';
+
+// Agreement between the samples of a multi-sample evaluation on one criterion
+export interface CriterionConsistency {
+  criterion: string;          // Name of the criterion
+  scores: (number | null)[];  // Score each sample gave, null when the sample marked the criterion not applicable
+  spread: number;             // Highest minus lowest score
+  confidence: ScoreConfidence;
+  needsReview: boolean;       // The samples disagreed enough to change the result, a person should check the score
+}
+
+// Result of evaluating a conversation several times and taking the median score of each criterion
+export interface EvaluationConsistency {
+  samples: number;                                  // Number of independent evaluations
+  overallScoreRange: { min: number; max: number };  // Lowest and highest overall score of the samples
+  criteria: CriterionConsistency[];                 // In rubric order
+}
+
+// Label of one of the rubric's performance bands, e.g. "Exceptional"
+export type PerformanceLevel = string;
 
 // Main evaluation data interface
 export interface EvaluationData {
@@ -28,14 +81,21 @@ export interface EvaluationData {
   date: string;                     // Date of the evaluation (YYYY-MM-DD format)
   overallScore: number;             // Overall score as a percentage (0-100)
   performanceLevel: PerformanceLevel; // Performance level based on overall score
-  criteriaScores: CriterionScore[]; // Array of exactly 10 criterion scores
+  criteriaScores: CriterionScore[]; // One score per weighted criterion of the rubric, in rubric order
   observationalNotes: ObservationalNotes; // Observational notes for unweighted criteria
-  strengths: string[];              // Array of exactly 3 strengths
-  areasForImprovement: string[];    // Array of exactly 3 areas for improvement
-  keyRecommendations: string[];     // Array of exactly 3 key recommendations
+  strengths: string[];              // Strengths shown in the conversation, 3 from the evaluator
+  areasForImprovement: string[];    // Areas for improvement, 3 from the evaluator
+  keyRecommendations: string[];     // Actionable recommendations, 3 from the evaluator
   
   // Optional fields
   totalScore?: number;              // Alternative field for overallScore (will be converted)
+  guestRoster?: GuestRoster;        // Guests detected in the party and whether each was engaged by name
+  metrics?: ConversationMetrics;    // Objective metrics computed from the transcript without the LLM
+  rubric?: RubricReference;         // Rubric the evaluation was scored against
+  scoringAudit?: ScoringAuditWarning[]; // Numbers the evaluator got wrong, recomputed by the scoring engine
+  transcript?: TranscriptTurn[];    // The evaluated conversation, for opening the evidence citations
+  consistency?: EvaluationConsistency; // Agreement between the samples, when the conversation was evaluated more than once
+  prompt?: PromptReference;         // Prompt template the evaluation was made with, not set for the offline mock engine
 }
 
 // Validation error interface
@@ -44,53 +104,18 @@ export interface ValidationError {
   message: string;
 }
 
-// Criteria weights - must total 100
-export const CRITERIA_WEIGHTS = {
-  'Initial Greeting and Welcome': 8,
-  'Building Rapport': 10,
-  'Winery History and Ethos': 10,
-  'Storytelling and Analogies': 10,
-  'Recognition of Buying Signals': 12,
-  'Customer Data Capture': 8,
-  'Asking for the Sale': 12,
-  'Personalized Wine Recommendations': 10,
-  'Wine Club Presentation': 12,
-  'Closing Interaction': 8
-} as const;
-
-// Helper function to validate criteria weights total 100%
-export function validateWeights(weights: typeof CRITERIA_WEIGHTS): boolean {
-  const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
-  return total === 100;
-}
-
-// Helper function to calculate performance level from score
-export function getPerformanceLevel(score: number): PerformanceLevel {
-  if (score >= 90) return 'Exceptional';
-  if (score >= 80) return 'Strong';
-  if (score >= 70) return 'Proficient';
-  if (score >= 60) return 'Developing';
-  return 'Needs Improvement';
-}
-
 // Helper function to calculate weighted score for a criterion
 export function calculateWeightedScore(score: number, weight: number): number {
   return score * weight;
 }
 
 // Helper function to calculate total score from criteria scores
-export function calculateTotalScore(criteriaScores: CriterionScore[]): number {
-  const totalWeightedScore = criteriaScores.reduce(
-    (total, criterion) => total + criterion.weightedScore,
-    0
-  );
-  
-  // Maximum possible score is 500 (sum of all weights * 5)
-  return Math.round((totalWeightedScore / 500) * 100);
+export function calculateTotalScore(criteriaScores: CriterionScore[], rubric: Rubric): number {
+  return calculateOverallScore(criteriaScores, rubric);
 }
 
 // Helper function to validate evaluation data
-export function validateEvaluationData(data: EvaluationData): boolean {
+export function validateEvaluationData(data: EvaluationData, rubric: Rubric): boolean {
   try {
     // Allow for either overallScore or totalScore
     if (data.totalScore !== undefined && data.overallScore === undefined) {
@@ -105,7 +130,7 @@ export function validateEvaluationData(data: EvaluationData): boolean {
     
     // Ensure score is in percentage form (0-100)
     if (data.overallScore > 100) {
-      data.overallScore = Math.round((data.overallScore / 500) * 100);
+      data.overallScore = Math.round((data.overallScore / getMaxWeightedScore(rubric)) * 100);
     }
     
     // Validate required fields
@@ -115,7 +140,7 @@ export function validateEvaluationData(data: EvaluationData): boolean {
     if (!data.performanceLevel) return false;
     
     // Validate criteria scores
-    if (!Array.isArray(data.criteriaScores) || data.criteriaScores.length !== 10) return false;
+    if (!Array.isArray(data.criteriaScores) || data.criteriaScores.length !== rubric.criteria.length) return false;
     
     // Validate each criteria score
     for (const score of data.criteriaScores) {
@@ -127,9 +152,12 @@ export function validateEvaluationData(data: EvaluationData): boolean {
     }
     
     // Validate observational notes
-    if (!data.observationalNotes) return false;
-    if (!data.observationalNotes.productKnowledge) return false;
-    if (!data.observationalNotes.handlingObjections) return false;
+    if (!Array.isArray(data.observationalNotes) || data.observationalNotes.length !== rubric.observationalCriteria.length) return false;
+    for (const note of data.observationalNotes) {
+      if (!note.criterion) return false;
+      if (typeof note.score !== 'number' || isNaN(note.score)) return false;
+      if (!note.notes) return false;
+    }
     
     // Validate arrays
     if (!Array.isArray(data.strengths) || data.strengths.length !== 3) return false;
@@ -154,23 +182,24 @@ export function formatDate(date: string): string {
 }
 
 // Helper function to create empty evaluation data template
-export function createEmptyEvaluation(staffName: string): EvaluationData {
+export function createEmptyEvaluation(staffName: string, rubric: Rubric): EvaluationData {
   return {
     staffName,
     date: formatDate(new Date().toISOString()),
     overallScore: 0,
-    performanceLevel: 'Needs Improvement',
-    criteriaScores: Object.entries(CRITERIA_WEIGHTS).map(([criterion, weight]) => ({
-      criterion,
-      weight,
-      score: 1,
-      weightedScore: weight,
+    performanceLevel: getLowestPerformanceLevel(rubric),
+    criteriaScores: rubric.criteria.map(criterion => ({
+      criterion: criterion.name,
+      weight: criterion.weight,
+      score: rubric.minScore,
+      weightedScore: criterion.weight * rubric.minScore,
+      notes: ''
+    })),
+    observationalNotes: rubric.observationalCriteria.map(criterion => ({
+      criterion: criterion.name,
+      score: rubric.minScore,
       notes: ''
     })),
-    observationalNotes: {
-      productKnowledge: { score: 1, notes: '' },
-      handlingObjections: { score: 1, notes: '' }
-    },
     strengths: [],
     areasForImprovement: [],
     keyRecommendations: []
@@ -0,0 +1,30 @@
+// Types for the guests in a tasting party
+
+// What a guest said or did that the staff member could act on
+export type GuestSignalKind = 'preference' | 'buying-signal' | 'reaction';
+
+// A single preference, buying signal or non-verbal reaction from the guests
+export interface GuestSignal {
+  turnNumber: number;       // Turn the signal comes from
+  kind: GuestSignalKind;
+  text: string;             // The sentence or stage direction, e.g. "We love bold reds"
+  guest: string | null;     // Name of the guest it belongs to, null when it cannot be attributed
+}
+
+// A guest detected in the conversation
+export interface Guest {
+  name: string;                      // e.g. "Sarah"
+  relationship: string | null;       // How they were introduced, e.g. "husband"
+  introducedInTurn: number | null;   // Turn where the guest was introduced or named
+  turns: number[];                   // Turns spoken by this guest, when the transcript says who is speaking
+  staffMentions: number[];           // Staff turns that use the guest's name
+  engagedByName: boolean;            // Whether the staff member addressed the guest by name
+}
+
+// Everyone in the tasting party and what each of them signalled
+export interface GuestRoster {
+  guests: Guest[];
+  signals: GuestSignal[];              // Preferences, buying signals and reactions in conversation order
+  allGuestsEngagedByName: boolean;     // True only when at least one guest was found and every guest was named by the staff member
+  unengagedGuests: string[];           // Names of guests the staff member never used
+}
@@ -0,0 +1,36 @@
+// Types for the winery lexicon used to correct speech-to-text errors
+
+// Kind of proper noun in the lexicon
+export type LexiconCategory = 'estate' | 'wine' | 'varietal' | 'staff';
+
+// A correctly spelled term and the known ways it gets mis-transcribed
+export interface LexiconEntry {
+  term: string;          // Correct spelling, e.g. "Vidal Blanc"
+  category: LexiconCategory;
+  aliases?: string[];    // Known mis-transcriptions, e.g. "Vidal oblong"
+}
+
+// The winery lexicon, loaded from public/data/winery_lexicon.json
+export interface WineryLexicon {
+  name: string;          // Name of the winery
+  entries: LexiconEntry[];
+}
+
+// Result of checking a lexicon file
+export interface LexiconValidationResult {
+  isValid: boolean;
+  errors: string[];
+  lexicon: WineryLexicon;
+}
+
+// How a substitution was found
+export type SubstitutionMethod = 'alias' | 'fuzzy';
+
+// A single correction made to the transcript
+export interface LexiconSubstitution {
+  turnNumber: number;
+  original: string;      // Text as transcribed, e.g. "Malaya"
+  replacement: string;   // Lexicon term, e.g. "Milea"
+  category: LexiconCategory;
+  method: SubstitutionMethod;
+}
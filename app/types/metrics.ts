@@ -0,0 +1,25 @@
+// Types for the objective conversation metrics computed without the LLM
+
+// Questions asked by the staff member
+export interface QuestionMetrics {
+  total: number;
+  open: number;        // e.g. "What kind of wines do you usually enjoy?"
+  closed: number;      // e.g. "Is this your first time here?"
+  turns: number[];     // Staff turns that contain at least one question
+}
+
+// Metrics computed from the parsed conversation before it is sent to Claude
+export interface ConversationMetrics {
+  staffTurns: number;
+  guestTurns: number;
+  staffWords: number;
+  guestWords: number;
+  staffTalkRatio: number;                    // Share of spoken words from the staff member (0-100)
+  averageStaffTurnWords: number;
+  maxStaffTurnWords: number;
+  longestStaffTurn: number | null;           // Turn number of the longest staff turn
+  monologueTurns: number[];                  // Staff turns longer than MONOLOGUE_WORD_LIMIT words
+  questions: QuestionMetrics;
+  firstWineClubMentionTurn: number | null;   // First staff turn that mentions the wine club
+  turnsUntilWineClubMention: number | null;  // Turns before that mention, null when the club never came up
+}
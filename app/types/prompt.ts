@@ -0,0 +1,71 @@
+// Types for the evaluation prompt templates in public/data/prompts
+
+// The prompts a template supplies, one markdown section each
+export type PromptSection = 'system' | 'evaluation' | 'windowEvidence' | 'windowMerge';
+
+// A parsed prompt template, its sections still contain the {{variable}} placeholders
+export interface PromptTemplate {
+  id: string;                       // Id in the prompt library, e.g. "wine-sales-trainer"
+  name: string;                     // Short name from the prompt library, e.g. "Wine Sales Trainer"
+  version: number;                  // Template version, bumped whenever the template changes
+  description: string;
+  contentHash: string;              // SHA-256 of the template markdown, to detect edits made without a new version
+  sections: Record<PromptSection, string>;
+}
+
+// Values of the {{variable}} placeholders of a section, by variable name
+export type PromptVariables = Record<string, string | number>;
+
+// A problem found while parsing a template, line 0 for problems with the template as a whole
+export interface PromptTemplateParseError {
+  line: number;
+  message: string;
+}
+
+// Result of parsing a prompt template
+export interface PromptTemplateParseResult {
+  isValid: boolean;
+  errors: PromptTemplateParseError[];
+  sections: Record<PromptSection, string>;
+}
+
+// A template listed in the prompt library, public/data/prompts/index.json
+export interface PromptTemplateSummary {
+  id: string;                       // e.g. "general-manager"
+  name: string;                     // e.g. "Winery General Manager"
+  version: number;                  // Current version of the template
+  description: string;              // The voice and focus of the prompts
+  file: string;                     // Markdown file in public/data/prompts
+}
+
+// The prompt library
+export interface PromptLibrary {
+  defaultTemplateId: string;        // Template used when the PROMPT_TEMPLATE setting does not pick one
+  templates: PromptTemplateSummary[];
+}
+
+// Result of checking the prompt library file
+export interface PromptLibraryValidationResult {
+  isValid: boolean;
+  errors: string[];
+  library: PromptLibrary;
+}
+
+// The prompt template an evaluation was made with, recorded on the evaluation
+export interface PromptReference {
+  id: string;
+  version: number;
+}
+
+// A template in the prompt library with the versions that can be loaded, as the admin view lists it
+export interface PromptTemplateListing extends PromptTemplateSummary {
+  versions: number[];               // Oldest first, the last is the current version
+}
+
+// The prompt library as the admin view lists it
+export interface PromptLibraryListing {
+  defaultTemplateId: string;        // Default template in public/data/prompts/index.json
+  activeTemplate: { id: string; version?: number }; // Template new evaluations use, no version for the current one
+  setByDeployment: boolean;         // Whether the PROMPT_TEMPLATE setting picks the active template
+  templates: PromptTemplateListing[];
+}
@@ -0,0 +1,166 @@
+// Types for the evaluation rubrics parsed from public/data/rubrics
+import { PerformanceLevel } from './evaluation';
+
+// What a score means for a criterion, e.g. 5 = "Exceptional welcome that makes guests feel valued"
+export interface ScoreDescriptor {
+  score: number;
+  description: string;
+}
+
+// Score a criterion gets when at least `met` of its checklist items are met, e.g. 3 met = 4
+export interface ChecklistScore {
+  met: number;
+  score: number;
+}
+
+// Items the evaluator marks met or not met, the criterion score is derived from how many are met
+export interface CriterionChecklist {
+  items: string[];                  // e.g. "Asked for the guest's email"
+  scoring: ChecklistScore[];        // Fewest met first, the first rule starts at 0 met
+}
+
+// A weighted criterion that counts towards the overall score
+export interface RubricCriterion {
+  id: string;                       // camelCase id, e.g. "initialGreetingAndWelcome"
+  name: string;                     // e.g. "Initial Greeting and Welcome"
+  weight: number;                   // Percentage of the overall score (all weights sum to 100)
+  description: string;              // The question the criterion answers
+  descriptors: ScoreDescriptor[];   // One descriptor per score, lowest first
+  checklist?: CriterionChecklist;   // Optional, the score is derived from the checklist instead of judged directly
+}
+
+// A criterion that is scored for feedback only and does not count towards the overall score
+export interface ObservationalCriterion {
+  id: string;                       // camelCase id, e.g. "productKnowledge"
+  name: string;
+  description: string;
+  descriptors: ScoreDescriptor[];
+}
+
+// Overall score range for a performance level
+export interface PerformanceBand {
+  level: PerformanceLevel;          // Label, e.g. "Exceptional" or "Meets Expectations"
+  minScore: number;                 // Lowest percentage in the band (inclusive)
+  maxScore: number;                 // Highest percentage in the band (inclusive)
+  color: string;                    // Hex color the level is shown in, e.g. "#10B981"
+  description: string;              // What the level means, may be empty
+}
+
+// The evaluation rubric
+export interface Rubric {
+  id: string;                       // Id in the rubric library, e.g. "first-time-tasting"
+  name: string;                     // Short name from the rubric library, e.g. "First-Time Tasting"
+  version: number;                  // Rubric version, bumped whenever the rubric changes
+  contentHash: string;              // SHA-256 of the rubric markdown, to detect edits made without a new version
+  title: string;
+  overview: string;
+  minScore: number;                 // Lowest score a criterion can get, e.g. 1
+  maxScore: number;                 // Highest score a criterion can get, e.g. 5
+  criteria: RubricCriterion[];
+  observationalCriteria: ObservationalCriterion[];
+  performanceBands: PerformanceBand[];   // Highest band first
+}
+
+// A problem found while parsing the rubric, line 0 for problems with the rubric as a whole
+export interface RubricParseError {
+  line: number;
+  message: string;
+}
+
+// Result of parsing a rubric
+export interface RubricParseResult {
+  isValid: boolean;
+  errors: RubricParseError[];
+  rubric: Rubric;
+}
+
+// A rubric listed in the rubric library, public/data/rubrics/index.json
+export interface RubricSummary {
+  id: string;                       // e.g. "phone-order"
+  name: string;                     // e.g. "Phone Order"
+  version: number;                  // Current version of the rubric
+  description: string;              // The scenario the rubric is for
+  file: string;                     // Markdown file in public/data/rubrics
+  scenarioKeywords: string[];       // Words in a transcript's Scenario header that select this rubric
+}
+
+// The rubric library
+export interface RubricLibrary {
+  defaultRubricId: string;          // Rubric used when none is chosen and the scenario matches none
+  rubrics: RubricSummary[];
+}
+
+// Result of checking the rubric library file
+export interface RubricLibraryValidationResult {
+  isValid: boolean;
+  errors: string[];
+  library: RubricLibrary;
+}
+
+// The rubric an evaluation was scored against, recorded on the evaluation
+export interface RubricReference {
+  id: string;
+  name: string;
+  version?: number;                 // Missing on evaluations scored before rubrics were versioned
+  contentHash?: string;
+}
+
+// What changed between the rubric an evaluation was scored against and another version
+export interface RubricChanges {
+  weightsChanged: string[];         // Criteria whose weight changed
+  descriptorsChanged: string[];     // Criteria whose question, score descriptions or checklist items changed
+  checklistScoringChanged: string[]; // Criteria whose checklist scoring changed, the score can be derived again
+  criteriaAdded: string[];          // Criteria with no stored score
+  criteriaRemoved: string[];        // Stored scores for criteria no longer in the rubric
+  bandsChanged: boolean;            // Performance level ranges changed
+  scaleChanged: boolean;            // Lowest or highest score changed
+  unknown: boolean;                 // The previous version is not available, so the changes cannot be listed
+}
+
+// A rubric in the JSON/YAML exchange format described in docs/rubric-format.md.
+// Criterion ids are not part of the format, they are derived from the names.
+export interface RubricDocument {
+  format: string;                   // Always "winery-sales-rubric"
+  formatVersion: number;            // Version of the exchange format, currently 1
+  id?: string;                      // Id in the rubric library, e.g. "first-time-tasting"
+  name?: string;                    // Short name in the rubric library
+  description?: string;             // The scenario the rubric is for
+  scenarioKeywords?: string[];
+  title: string;
+  overview?: string;
+  minScore: number;
+  maxScore: number;
+  criteria: {
+    name: string;
+    weight: number;
+    description?: string;
+    descriptors: ScoreDescriptor[];
+    checklist?: CriterionChecklist;
+  }[];
+  observationalCriteria?: {
+    name: string;
+    description?: string;
+    descriptors: ScoreDescriptor[];
+  }[];
+  performanceBands: {
+    level: string;
+    minScore: number;
+    maxScore: number;
+    color?: string;
+    description?: string;
+  }[];
+}
+
+// A problem with one field of an imported rubric, e.g. field "criteria[2].weight"
+export interface RubricFieldError {
+  field: string;
+  message: string;
+}
+
+// Result of importing a rubric from JSON, YAML or markdown
+export interface RubricImportResult {
+  isValid: boolean;
+  errors: RubricFieldError[];
+  rubric: Rubric;
+  summary: Partial<Pick<RubricSummary, 'id' | 'name' | 'description' | 'scenarioKeywords'>>;  // Library details from the file, when it has them
+}
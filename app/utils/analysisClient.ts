@@ -0,0 +1,148 @@
+import { Conversation } from '../types/conversation';
+import { EvaluationData } from '../types/evaluation';
+import { RubricChanges } from '../types/rubric';
+import { validateEvaluationData, ValidationError } from './validation';
+import { fetchRubric } from './rubric';
+import { RESCORE_EVALUATION_URL } from './rescore';
+
+// Polling settings for analysis jobs
+const POLL_INTERVAL = 3000;        // 3 seconds between polls
+const MAX_POLLING_TIME = 300000;   // 300 seconds max polling time
+const MAX_POLL_ERRORS = 20;
+
+// Result of analyzing one conversation
+export interface AnalysisOutcome {
+  jobId: string;
+  data: EvaluationData;
+  validationErrors: ValidationError[];
+}
+
+/**
+ * Starts an analysis job for a conversation and polls until it finishes
+ * @param conversation The imported conversation, with speaker roles applied
+ * @param fileName Name of the conversation file
+ * @param onJobStarted Called with the job id once the job has been created
+ * @param rubricId Rubric to score against, picked from the conversation's scenario when not given
+ * @param samples Independent evaluations to take the median score of, for a confidence per criterion
+ * @returns The validated evaluation data
+ * @throws Error if the job cannot be started, fails or times out
+ */
+export async function analyzeConversation(
+  conversation: Conversation,
+  fileName: string,
+  onJobStarted?: (jobId: string) => void,
+  rubricId?: string,
+  samples?: number
+): Promise<AnalysisOutcome> {
+  console.log('Analysis client: Calling API endpoint', { endpoint: '/api/analyze-conversation', fileName, rubricId, samples });
+  const response = await fetch('/api/analyze-conversation', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      // Every import format is sent as the normalized conversation, with speaker roles applied
+      conversation,
+      fileName,
+      rubricId,
+      samples,
+      directEvaluation: true
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.message || `Error: ${response.status}`);
+  }
+
+  const { jobId } = await response.json();
+  if (!jobId) {
+    throw new Error('No job ID received');
+  }
+  onJobStarted?.(jobId);
+
+  // Poll for job status
+  let result = null;
+  let errorCount = 0;
+  const startTime = Date.now();
+
+  while (errorCount < MAX_POLL_ERRORS && (Date.now() - startTime) < MAX_POLLING_TIME) {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+
+    let job;
+    try {
+      const statusResponse = await fetch(`/api/check-job-status?jobId=${jobId}`, {
+        method: 'GET'
+      });
+
+      if (!statusResponse.ok) {
+        throw new Error(`Error checking status: ${statusResponse.status}`);
+      }
+
+      job = await statusResponse.json();
+    } catch (error) {
+      console.error(`Analysis client: Error checking job status (Job ID: ${jobId}):`, error);
+      errorCount++;
+      continue;
+    }
+
+    if (job.status === 'completed') {
+      result = job.result;
+      break;
+    } else if (job.status === 'failed') {
+      throw new Error(job.error || 'Analysis failed');
+    }
+    // If still processing, continue polling
+  }
+
+  if (!result) {
+    throw new Error('Analysis timed out, please try again');
+  }
+
+  // Validate the evaluation data structure against the rubric
+  const rubric = await fetchRubric(result.rubric?.id || rubricId, result.rubric?.version);
+  const validationResult = validateEvaluationData(result, rubric, conversation);
+  if (!validationResult.isValid) {
+    console.warn(`Analysis client: Validation issues found (Job ID: ${jobId}):`, validationResult.errors);
+  }
+
+  return {
+    jobId,
+    data: validationResult.data,
+    validationErrors: validationResult.errors
+  };
+}
+
+// Result of re-scoring a stored evaluation on the server
+export interface RescoreOutcome {
+  status: 'rescored' | 'needs_reevaluation' | 'reevaluated';
+  evaluation: EvaluationData;
+  changes: RubricChanges;
+  needsReevaluation: boolean;
+  jobId?: string;
+}
+
+/**
+ * Re-scores a stored evaluation against the current version of its rubric
+ * @param evaluation The stored evaluation
+ * @param jobId Job the evaluation came from, used to find the conversation when it has to be evaluated again
+ * @param requeue Evaluate the conversation again when the stored scores cannot be carried over
+ * @returns The re-scored evaluation and what changed in the rubric
+ * @throws Error if the evaluation cannot be re-scored
+ */
+export async function rescoreStoredEvaluation(evaluation: EvaluationData, jobId?: string, requeue: boolean = false): Promise<RescoreOutcome> {
+  console.log('Analysis client: Re-scoring evaluation', { rubric: evaluation.rubric, jobId, requeue });
+  const response = await fetch(RESCORE_EVALUATION_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ evaluation, jobId, requeue }),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.message || body.error || `Error: ${response.status}`);
+  }
+  return body as RescoreOutcome;
+}
@@ -0,0 +1,46 @@
+import { BatchItem, BatchSummary } from '../types/batch';
+import { TranscriptImportResult } from '../types/conversation';
+
+// Number of conversations analyzed at the same time
+export const BATCH_CONCURRENCY = 2;
+
+// Helper function to create a queue entry for an imported file
+export function createBatchItem(fileName: string, importResult: TranscriptImportResult): BatchItem {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    fileName,
+    importResult,
+    rubricId: null,
+    status: 'queued',
+    error: null,
+    warning: null,
+    jobId: null,
+    result: null,
+    resultId: null,
+    attempts: 0
+  };
+}
+
+// Helper function to check whether a queue entry can be analyzed
+export function isBatchItemReady(item: BatchItem): boolean {
+  return item.status === 'queued' && item.importResult.parseResult.isValid;
+}
+
+// Helper function to pick the queue entries to start next without exceeding the concurrency limit
+export function getNextBatchItems(items: BatchItem[], concurrency: number = BATCH_CONCURRENCY): BatchItem[] {
+  const analyzing = items.filter(item => item.status === 'analyzing').length;
+  const freeSlots = Math.max(0, concurrency - analyzing);
+  return items.filter(isBatchItemReady).slice(0, freeSlots);
+}
+
+// Helper function to count queue entries by status
+export function summarizeBatch(items: BatchItem[]): BatchSummary {
+  return {
+    total: items.length,
+    queued: items.filter(isBatchItemReady).length,
+    analyzing: items.filter(item => item.status === 'analyzing').length,
+    done: items.filter(item => item.status === 'done').length,
+    failed: items.filter(item => item.status === 'failed').length,
+    invalid: items.filter(item => item.status === 'queued' && !item.importResult.parseResult.isValid).length
+  };
+}
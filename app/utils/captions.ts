@@ -0,0 +1,121 @@
+import { CaptionCue, CaptionFormat, CaptionParseResult, ConversationParseError } from '../types/conversation';
+import { parseTimestamp } from './conversation';
+import { splitSpeakerLabel, UNKNOWN_SPEAKER } from './speakers';
+
+// Matches a cue timing line, e.g. "00:00:01.000 --> 00:00:04.500 align:start"
+const TIMING_PATTERN = /^((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)(?:\s+.*)?$/;
+
+// Helper function to work out the caption format from the content
+export function detectCaptionFormat(content: string): CaptionFormat | null {
+  const trimmed = content.replace(/^\uFEFF/, '').trimStart();
+  if (/^WEBVTT\b/.test(trimmed)) return 'vtt';
+  if (/^\d+\s*\r?\n\s*\d{1,2}:\d{2}:\d{2},\d{1,3}\s+-->/.test(trimmed)) return 'srt';
+
+  return null;
+}
+
+// Helper function to split a speaker label off the front of the cue text.
+// Supports WebVTT voice spans ("<v Russell>text</v>") as well as plain text labels.
+function extractSpeaker(rawText: string): { speaker: string | null; text: string } {
+  const voiceMatch = rawText.match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/);
+  if (voiceMatch) {
+    return { speaker: voiceMatch[1].trim(), text: rawText.replace(/<\/?v[^>]*>/g, '') };
+  }
+
+  return splitSpeakerLabel(rawText);
+}
+
+// Helper function to strip caption markup such as <i>, <c.yellow> and inline timestamps
+function cleanCueText(text: string): string {
+  return text
+    .replace(/<\d{1,2}:\d{2}(?::\d{2})?[.,]\d{1,3}>/g, '')
+    .replace(/<\/?[a-z][^>]*>/gi, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Main parsing function for WebVTT and SRT caption files
+export function parseCaptions(content: string, format: CaptionFormat): CaptionParseResult {
+  const errors: ConversationParseError[] = [];
+  const cues: CaptionCue[] = [];
+
+  if (!content || !content.trim()) {
+    errors.push({ line: 0, message: 'Caption file is empty' });
+    return { format, cues, errors };
+  }
+
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  if (format === 'vtt' && !/^WEBVTT\b/.test(lines[0].trim())) {
+    errors.push({ line: 1, message: 'WebVTT file must start with "WEBVTT"' });
+  }
+
+  // Cues without a speaker label continue the previous speaker
+  let previousSpeaker: string | null = null;
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index].trim();
+
+    // Skip VTT NOTE, STYLE and REGION blocks
+    if (format === 'vtt' && /^(NOTE|STYLE|REGION)\b/.test(line)) {
+      while (index < lines.length && lines[index].trim()) index++;
+      continue;
+    }
+
+    const timingMatch = line.match(TIMING_PATTERN);
+    if (!timingMatch) {
+      // Cue identifiers (SRT sequence numbers, VTT cue ids), the VTT header and blank lines are skipped
+      if (line.includes('-->')) {
+        errors.push({ line: index + 1, message: `Unrecognized cue timing "${line}"` });
+      }
+      index++;
+      continue;
+    }
+
+    const timingLine = index + 1;
+    const startTime = parseTimestamp(timingMatch[1]);
+    const endTime = parseTimestamp(timingMatch[2]);
+    index++;
+
+    const textLines: string[] = [];
+    while (index < lines.length && lines[index].trim()) {
+      textLines.push(lines[index].trim());
+      index++;
+    }
+
+    if (startTime === null || endTime === null) {
+      errors.push({ line: timingLine, message: `Unrecognized cue timing "${line}"` });
+      continue;
+    }
+
+    if (endTime < startTime) {
+      errors.push({ line: timingLine, message: 'Cue ends before it starts' });
+    }
+
+    const { speaker, text } = extractSpeaker(textLines.join('\n'));
+    const cleanText = cleanCueText(text);
+    if (!cleanText) continue;
+
+    if (speaker) previousSpeaker = speaker;
+
+    cues.push({
+      index: cues.length,
+      startTime,
+      endTime,
+      speaker: speaker || previousSpeaker || UNKNOWN_SPEAKER,
+      text: cleanText,
+      line: timingLine
+    });
+  }
+
+  if (cues.length === 0 && errors.length === 0) {
+    errors.push({ line: 0, message: 'No caption cues found, expected timing lines like "00:00:01.000 --> 00:00:04.000"' });
+  }
+
+  return { format, cues, errors };
+}
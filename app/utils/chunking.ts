@@ -0,0 +1,145 @@
+import { Conversation, ConversationTurn } from '../types/conversation';
+import { EvidenceCitation } from '../types/evaluation';
+import { formatTurnForEvaluation } from './conversation';
+
+// Conversations longer than this (in formatted characters) are evaluated in windows
+export const MAX_SINGLE_PASS_CHARS = 30000;
+
+// Default window options
+export const DEFAULT_WINDOW_OPTIONS: WindowOptions = {
+  maxChars: 12000,
+  overlapTurns: 2
+};
+
+export interface WindowOptions {
+  maxChars: number;      // Target size of each window in formatted characters
+  overlapTurns: number;  // Number of turns repeated at the start of the next window
+}
+
+// A contiguous run of turns evaluated together
+export interface ConversationWindow {
+  index: number;               // Position of the window (0-based)
+  startTurn: number;           // Turn number of the first turn in the window
+  endTurn: number;             // Turn number of the last turn in the window
+  isFirst: boolean;            // Window contains the opening of the conversation
+  isLast: boolean;             // Window contains the end of the conversation
+  turns: ConversationTurn[];
+}
+
+// A citation gathered from a window, verified once it is attached to the evaluation
+export type WindowCitation = Pick<EvidenceCitation, 'turnNumber' | 'excerpt'>;
+
+// Evidence gathered for one criterion in one window
+export interface WindowCriterionEvidence {
+  criterion: string;
+  evidence: WindowCitation[];
+  provisionalScore: number | null;
+}
+
+// Result of the map step for one window
+export interface WindowEvidence {
+  windowIndex: number;
+  startTurn: number;
+  endTurn: number;
+  summary: string;
+  criteria: WindowCriterionEvidence[];
+}
+
+// Evidence for one criterion merged across all windows
+export interface MergedCriterionEvidence {
+  criterion: string;
+  evidence: WindowCitation[];      // In turn order
+  provisionalScores: { windowIndex: number; score: number }[];
+}
+
+// Helper function to format a single turn the way the evaluator sees it
+export function formatTurn(turn: ConversationTurn): string {
+  return formatTurnForEvaluation(turn);
+}
+
+// Helper function to decide whether a conversation is too long for a single pass
+export function needsWindowedEvaluation(conversationText: string, maxChars: number = MAX_SINGLE_PASS_CHARS): boolean {
+  return conversationText.length > maxChars;
+}
+
+// Split a conversation on turn boundaries into overlapping windows.
+// Turns are never cut, so a single turn longer than maxChars gets a window of its own.
+export function chunkConversation(conversation: Conversation, options: Partial<WindowOptions> = {}): ConversationWindow[] {
+  const { maxChars, overlapTurns } = { ...DEFAULT_WINDOW_OPTIONS, ...options };
+  const turns = conversation.turns;
+  const windows: ConversationWindow[] = [];
+
+  let start = 0;
+  while (start < turns.length) {
+    let end = start;
+    let size = formatTurn(turns[start]).length;
+
+    // Grow the window one turn at a time until the next turn would not fit
+    while (end + 1 < turns.length && size + formatTurn(turns[end + 1]).length + 2 <= maxChars) {
+      end++;
+      size += formatTurn(turns[end]).length + 2;
+    }
+
+    const windowTurns = turns.slice(start, end + 1);
+    windows.push({
+      index: windows.length,
+      startTurn: windowTurns[0].turnNumber,
+      endTurn: windowTurns[windowTurns.length - 1].turnNumber,
+      isFirst: start === 0,
+      isLast: end === turns.length - 1,
+      turns: windowTurns
+    });
+
+    if (end === turns.length - 1) break;
+
+    // Step back by the overlap, but always move forward by at least one turn
+    start = Math.max(end + 1 - overlapTurns, start + 1);
+  }
+
+  return windows;
+}
+
+// Helper function to render a window for a prompt
+export function formatWindow(window: ConversationWindow): string {
+  return window.turns.map(formatTurn).join('\n\n');
+}
+
+// Merge per-window evidence into one list per criterion, in conversation order.
+// Overlapping turns are seen by two windows, so a citation of the same words of the same turn is kept once.
+export function mergeWindowEvidence(windowResults: WindowEvidence[]): MergedCriterionEvidence[] {
+  const merged = new Map<string, MergedCriterionEvidence>();
+  const ordered = [...windowResults].sort((a, b) => a.windowIndex - b.windowIndex);
+
+  for (const windowResult of ordered) {
+    for (const item of windowResult.criteria) {
+      if (!item.criterion) continue;
+
+      const key = item.criterion.trim().toLowerCase();
+      let entry = merged.get(key);
+      if (!entry) {
+        entry = { criterion: item.criterion.trim(), evidence: [], provisionalScores: [] };
+        merged.set(key, entry);
+      }
+
+      for (const citation of item.evidence || []) {
+        const turnNumber = Number(citation?.turnNumber);
+        const excerpt = typeof citation?.excerpt === 'string' ? citation.excerpt.trim() : '';
+        const isRepeated = entry.evidence.some(existing =>
+          existing.turnNumber === turnNumber && existing.excerpt.toLowerCase() === excerpt.toLowerCase()
+        );
+        if (Number.isInteger(turnNumber) && excerpt && !isRepeated) {
+          entry.evidence.push({ turnNumber, excerpt });
+        }
+      }
+
+      const score = Number(item.provisionalScore);
+      if (item.provisionalScore !== null && item.provisionalScore !== undefined && !isNaN(score)) {
+        entry.provisionalScores.push({ windowIndex: windowResult.windowIndex, score });
+      }
+    }
+  }
+
+  const entries = Array.from(merged.values());
+  entries.forEach(entry => entry.evidence.sort((a, b) => a.turnNumber - b.turnNumber));
+  return entries;
+}
@@ -0,0 +1,151 @@
+import { CriterionConsistency, CriterionScore, EvaluationConsistency, ScoreConfidence } from '../types/evaluation';
+import { Rubric, RubricCriterion } from '../types/rubric';
+import { calculateOverallScore, getPerformanceLevel } from './rubric';
+import { scoreEvaluation } from './scoring';
+
+// Most independent evaluations of one conversation, each is a separate Claude request
+export const MAX_EVALUATION_SAMPLES = 5;
+
+// Helper function to limit a requested number of samples to 1-MAX_EVALUATION_SAMPLES
+export function normalizeSampleCount(samples: any): number {
+  const count = Math.floor(Number(samples));
+  return isFinite(count) && count > 1 ? Math.min(count, MAX_EVALUATION_SAMPLES) : 1;
+}
+
+// Helper function to get the confidence in a score from how far apart the samples' scores were
+export function getScoreConfidence(spread: number): ScoreConfidence {
+  if (spread === 0) return 'high';
+  if (spread === 1) return 'medium';
+  return 'low';
+}
+
+// Helper function to get the median of the scores, the lower of the middle two for an even number,
+// so the median is always a score one of the samples gave
+function getMedian(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor((sorted.length - 1) / 2)];
+}
+
+// Helper function to build the criterion scores one sample gave, from the consistency of each criterion
+function getSampleCriteriaScores(criteria: CriterionConsistency[], sampleIndex: number, rubric: Rubric): CriterionScore[] {
+  return rubric.criteria.flatMap(criterion => {
+    const consistency = criteria.find(item => item.criterion === criterion.name);
+    const score = consistency?.scores[sampleIndex];
+    if (!consistency || score === undefined) {
+      return [];
+    }
+    return [{
+      criterion: criterion.name,
+      weight: criterion.weight,
+      score: score ?? 0,
+      weightedScore: (score ?? 0) * criterion.weight,
+      notes: '',
+      notApplicable: score === null
+    }];
+  });
+}
+
+/**
+ * Computes the lowest and highest overall score of the samples from their criterion scores, so the range
+ * follows the rubric's current weights
+ * @param consistency The agreement between the samples
+ * @param rubric The rubric to score against
+ * @returns The overall score range
+ */
+export function getOverallScoreRange(consistency: Pick<EvaluationConsistency, 'samples' | 'criteria'>, rubric: Rubric): { min: number; max: number } {
+  const overallScores = Array.from({ length: consistency.samples }, (_, index) =>
+    calculateOverallScore(getSampleCriteriaScores(consistency.criteria, index, rubric), rubric));
+  return { min: Math.min(...overallScores), max: Math.max(...overallScores) };
+}
+
+// Helper function to check whether a criterion's lowest and highest sample scores give different performance
+// levels, with every other criterion at its median
+function changesPerformanceLevel(criterion: RubricCriterion, scores: number[], combined: CriterionScore[], rubric: Rubric): boolean {
+  const levels = [Math.min(...scores), Math.max(...scores)].map(score => {
+    const criteriaScores = combined.map(item =>
+      item.criterion === criterion.name ? { ...item, score, weightedScore: score * criterion.weight } : item);
+    return getPerformanceLevel(calculateOverallScore(criteriaScores, rubric), rubric);
+  });
+  return levels[0] !== levels[1];
+}
+
+/**
+ * Combines independent evaluations of the same conversation into one. Each criterion gets the median of the
+ * samples' scores, with the notes, evidence and checklist of a sample that gave that score. The text fields
+ * come from the sample whose overall score is closest to the combined one. The spread of each criterion's scores
+ * is its confidence, and a criterion is marked for review when the samples disagree by more than one point,
+ * disagree on whether it applies, or disagree enough to change the performance level.
+ * @param samples The evaluations as the engine returned them, with their evidence verified
+ * @param rubric The rubric to score against
+ * @returns The combined evaluation, to be scored like a single one, and the agreement between the samples
+ */
+export function combineEvaluationSamples(samples: any[], rubric: Rubric): { evaluation: any; consistency: EvaluationConsistency } {
+  const scored = samples.map(sample => scoreEvaluation(sample, rubric));
+
+  const criteria: CriterionConsistency[] = [];
+  const combined: CriterionScore[] = [];
+  rubric.criteria.forEach(criterion => {
+    const results = scored
+      .map(result => result.criteriaScores.find(item => item.criterion === criterion.name))
+      .filter((item): item is CriterionScore => item !== undefined);
+    if (results.length === 0) {
+      return;
+    }
+
+    // Not applicable only when most samples say so, the median is taken over the samples that scored it
+    const notApplicableCount = results.filter(item => item.notApplicable).length;
+    const notApplicable = notApplicableCount > results.length / 2;
+    const numericScores = results.filter(item => !item.notApplicable).map(item => item.score);
+    const median = notApplicable || numericScores.length === 0 ? null : getMedian(numericScores);
+    const representative = results.find(item => median === null ? item.notApplicable : !item.notApplicable && item.score === median)!;
+    combined.push(representative);
+
+    const spread = numericScores.length > 0 ? Math.max(...numericScores) - Math.min(...numericScores) : 0;
+    const disagreesOnApplicability = notApplicableCount > 0 && notApplicableCount < results.length;
+    criteria.push({
+      criterion: criterion.name,
+      scores: scored.map(result => {
+        const item = result.criteriaScores.find(entry => entry.criterion === criterion.name);
+        return !item || item.notApplicable ? null : item.score;
+      }),
+      spread,
+      confidence: disagreesOnApplicability ? 'low' : getScoreConfidence(spread),
+      needsReview: false
+    });
+  });
+
+  // A swing that changes the performance level needs review even when it is a single point
+  criteria.forEach(item => {
+    const criterion = rubric.criteria.find(entry => entry.name === item.criterion)!;
+    const numericScores = item.scores.filter((score): score is number => score !== null);
+    const disagreesOnApplicability = numericScores.length > 0 && numericScores.length < item.scores.length;
+    item.needsReview = item.spread >= 2 || disagreesOnApplicability ||
+      (item.spread > 0 && changesPerformanceLevel(criterion, numericScores, combined, rubric));
+  });
+
+  // The other fields come from the sample closest to the combined overall score
+  const overallScore = calculateOverallScore(combined, rubric);
+  const closestIndex = scored.reduce((closest, result, index) =>
+    Math.abs(result.overallScore - overallScore) < Math.abs(scored[closest].overallScore - overallScore) ? index : closest, 0);
+  const evaluation = { ...samples[closestIndex], criteriaScores: combined };
+  delete evaluation.overallScore;
+  delete evaluation.totalScore;
+  delete evaluation.performanceLevel;
+
+  const consistency: EvaluationConsistency = { samples: samples.length, overallScoreRange: { min: 0, max: 0 }, criteria };
+  consistency.overallScoreRange = getOverallScoreRange(consistency, rubric);
+
+  return { evaluation, consistency };
+}
+
+// Helper function to find the consistency of a criterion by name
+export function findCriterionConsistency(consistency: EvaluationConsistency | undefined, criterion: string): CriterionConsistency | undefined {
+  return consistency?.criteria.find(item => item.criterion === criterion);
+}
+
+// Helper function to describe a criterion's confidence, e.g. "Low confidence, scores 2, 4, 3"
+export function describeConfidence(consistency: CriterionConsistency): string {
+  const label = `${consistency.confidence[0].toUpperCase()}${consistency.confidence.slice(1)} confidence`;
+  const scores = consistency.scores.map(score => (score === null ? 'N/A' : score)).join(', ');
+  return `${label}, scores ${scores}`;
+}
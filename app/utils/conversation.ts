@@ -0,0 +1,520 @@
+import {
+  Conversation,
+  ConversationParseError,
+  ConversationParseResult,
+  ConversationTurn,
+  SpeakerRole
+} from '../types/conversation';
+
+// Headings written by the simulator for each speaker role
+export const ROLE_LABELS: Record<SpeakerRole, string> = {
+  staff: 'Staff Member',
+  guest: 'Guest'
+};
+
+const DEFAULT_TITLE = 'Wine Tasting Room Conversation';
+
+// Matches "### Staff Member (1)", "### Staff (1)" and "### Guest (2)",
+// optionally followed by recording times, e.g. "### Guest (2) [00:00:04.250 - 00:00:09.000]"
+const TURN_HEADING_PATTERN = /^(Staff(?:\s+Member)?|Guest)\s*(?:\((\d+)\))?\s*(?:\[\s*([\d:.,]+)\s*(?:-->|-)\s*([\d:.,]+)\s*\])?\s*$/i;
+
+// Helper function to create an empty conversation
+export function createEmptyConversation(): Conversation {
+  return {
+    title: DEFAULT_TITLE,
+    scenario: null,
+    date: null,
+    time: null,
+    staffName: null,
+    turns: []
+  };
+}
+
+// Helper function to extract inline stage directions such as "*smiles*" from a turn
+export function extractStageDirections(text: string): string[] {
+  const directions: string[] = [];
+  const pattern = /\*\*[^*]+\*\*|\*([^*\n]+)\*/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    // Skip **bold** text, only single-asterisk spans are stage directions
+    if (match[1] && match[1].trim()) {
+      directions.push(match[1].trim());
+    }
+  }
+
+  return directions;
+}
+
+// Helper function to split a turn's text into what was said and its non-verbal cues
+export function separateNonVerbal(text: string): { spokenText: string; stageDirections: string[] } {
+  const spokenText = text
+    .replace(/\*\*([^*]+)\*\*|\*([^*\n]+)\*/g, (match, bold) => (bold !== undefined ? bold : ' '))
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/ +([,.!?])/g, '$1')
+    .trim();
+
+  return { spokenText, stageDirections: extractStageDirections(text) };
+}
+
+// Helper function to parse a "**Date:**" value into a YYYY-MM-DD date and an optional time
+export function parseDateValue(value: string): { date: string; time: string | null } | null {
+  const trimmed = value.trim();
+
+  const usMatch = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:,?\s+(.+))?$/);
+  if (usMatch) {
+    const [, month, day, year, time] = usMatch;
+    return {
+      date: `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`,
+      time: time ? time.trim() : null
+    };
+  }
+
+  const isoMatch = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T,\s]+(.+))?$/);
+  if (isoMatch) {
+    const [, year, month, day, time] = isoMatch;
+    return {
+      date: `${year}-${month}-${day}`,
+      time: time ? time.trim() : null
+    };
+  }
+
+  return null;
+}
+
+// Helper function to parse a caption timestamp such as "00:01:02.345", "01:02.345" or "00:01:02,345" into seconds
+export function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    parseInt(hours || '0', 10) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10) +
+    (fraction ? parseInt(fraction.padEnd(3, '0'), 10) / 1000 : 0)
+  );
+}
+
+// Helper function to format seconds as a "00:01:02.345" timestamp
+export function formatTimestamp(totalSeconds: number): string {
+  const milliseconds = Math.round(totalSeconds * 1000);
+  const hours = Math.floor(milliseconds / 3600000);
+  const minutes = Math.floor((milliseconds % 3600000) / 60000);
+  const seconds = Math.floor((milliseconds % 60000) / 1000);
+  const fraction = milliseconds % 1000;
+
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(fraction).padStart(3, '0')}`;
+}
+
+// Helper function to find the staff member's name in their own introduction
+export function extractStaffNameFromTurns(turns: ConversationTurn[]): string | null {
+  for (const turn of turns) {
+    if (turn.role !== 'staff') continue;
+
+    // "my name is russell" is unambiguous even when transcribed in lower case
+    const explicitMatch = turn.text.match(/\bmy name(?: is|'s)\s+([a-z][a-z'-]*)/i);
+    if (explicitMatch) {
+      const name = explicitMatch[1];
+      return name.charAt(0).toUpperCase() + name.slice(1);
+    }
+
+    // "I'm Russell" only counts when the name is capitalized, so "I'm going" is ignored
+    const shortMatch = turn.text.match(/\b(?:I'm|I am)\s+([A-Z][a-zA-Z'-]+)/);
+    if (shortMatch) {
+      return shortMatch[1];
+    }
+  }
+
+  return null;
+}
+
+// Helper function to build a turn from its heading and body lines
+function buildTurn(
+  role: SpeakerRole,
+  speaker: string,
+  turnNumber: number,
+  line: number,
+  bodyLines: string[],
+  startTime: number | null,
+  endTime: number | null
+): ConversationTurn {
+  const text = bodyLines
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  const turn: ConversationTurn = {
+    turnNumber,
+    role,
+    speaker,
+    text,
+    ...separateNonVerbal(text),
+    line
+  };
+
+  if (startTime !== null && endTime !== null) {
+    turn.startTime = startTime;
+    turn.endTime = endTime;
+  }
+
+  return turn;
+}
+
+// Main parsing function for the "### Staff Member (n) / ### Guest (n)" transcript format
+export function parseConversation(markdown: string): ConversationParseResult {
+  const errors: ConversationParseError[] = [];
+  const conversation = createEmptyConversation();
+
+  if (!markdown || !markdown.trim()) {
+    errors.push({ line: 0, message: 'Conversation is empty' });
+    return { isValid: false, errors, conversation };
+  }
+
+  const lines = markdown.split(/\r?\n/);
+  let inConversation = false;
+  let hasTitle = false;
+  let skipBody = false; // Set after an unrecognized turn heading so its body is not reported line by line
+  let explicitStaffName: string | null = null;
+  let current: {
+    role: SpeakerRole;
+    speaker: string;
+    turnNumber: number;
+    line: number;
+    body: string[];
+    startTime: number | null;
+    endTime: number | null;
+  } | null = null;
+
+  const finishTurn = () => {
+    if (current) {
+      conversation.turns.push(
+        buildTurn(current.role, current.speaker, current.turnNumber, current.line, current.body, current.startTime, current.endTime)
+      );
+      current = null;
+    }
+  };
+
+  lines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.trim();
+
+    // Turn headings, e.g. "### Guest (2)"
+    const turnHeading = line.match(/^###\s+(.*)$/);
+    if (turnHeading) {
+      finishTurn();
+      inConversation = true;
+      skipBody = false;
+
+      const headingText = turnHeading[1].trim();
+      const headingMatch = headingText.match(TURN_HEADING_PATTERN);
+      if (!headingMatch) {
+        skipBody = true;
+        errors.push({
+          line: lineNumber,
+          message: `Unrecognized turn heading "${headingText}", expected "Staff Member (n)" or "Guest (n)"`
+        });
+        return;
+      }
+
+      const role: SpeakerRole = headingMatch[1].toLowerCase().startsWith('staff') ? 'staff' : 'guest';
+      const previousTurn = conversation.turns[conversation.turns.length - 1];
+      const previousNumber = previousTurn ? previousTurn.turnNumber : 0;
+      let turnNumber = previousNumber + 1;
+
+      // Simulator transcripts sometimes skip numbers, so only the order is checked
+      if (!headingMatch[2]) {
+        errors.push({ line: lineNumber, message: `Turn heading "${headingText}" is missing its turn number` });
+      } else {
+        turnNumber = parseInt(headingMatch[2], 10);
+        if (turnNumber <= previousNumber) {
+          errors.push({ line: lineNumber, message: `Turn ${turnNumber} is out of order, it follows turn ${previousNumber}` });
+        }
+      }
+
+      let startTime: number | null = null;
+      let endTime: number | null = null;
+      if (headingMatch[3]) {
+        startTime = parseTimestamp(headingMatch[3]);
+        endTime = parseTimestamp(headingMatch[4]);
+        if (startTime === null || endTime === null) {
+          errors.push({ line: lineNumber, message: `Turn ${turnNumber} has an unrecognized time range, expected [00:00:01.000 - 00:00:05.000]` });
+        }
+      }
+
+      current = {
+        role,
+        speaker: headingMatch[1].replace(/\s+/g, ' '),
+        turnNumber,
+        line: lineNumber,
+        body: [],
+        startTime,
+        endTime
+      };
+      return;
+    }
+
+    // Section headings
+    const sectionHeading = line.match(/^##\s+(.*)$/);
+    if (sectionHeading) {
+      finishTurn();
+      const headingText = sectionHeading[1].trim();
+
+      if (/^conversation$/i.test(headingText)) {
+        inConversation = true;
+        return;
+      }
+
+      // Any other section ends the conversation
+      inConversation = false;
+
+      const scenarioMatch = headingText.match(/^Scenario:?\s*(.*)$/i);
+      if (scenarioMatch) {
+        if (!scenarioMatch[1].trim()) {
+          errors.push({ line: lineNumber, message: 'Scenario heading has no title' });
+        }
+        conversation.scenario = {
+          title: scenarioMatch[1].trim(),
+          description: conversation.scenario?.description || ''
+        };
+      }
+      return;
+    }
+
+    // Document title
+    const titleHeading = line.match(/^#\s+(.*)$/);
+    if (titleHeading && !inConversation) {
+      if (!hasTitle) {
+        conversation.title = titleHeading[1].trim();
+        hasTitle = true;
+      }
+      return;
+    }
+
+    if (inConversation) {
+      if (current) {
+        current.body.push(rawLine.trimEnd());
+      } else if (line && !skipBody) {
+        errors.push({ line: lineNumber, message: 'Text found before the first turn heading' });
+      }
+      return;
+    }
+
+    // Metadata fields in the header, e.g. "**Date:** 4/7/2025"
+    const fieldMatch = line.match(/^\*\*([^*:]+):?\*\*:?\s*(.*)$/);
+    if (fieldMatch) {
+      const field = fieldMatch[1].trim().toLowerCase();
+      const value = fieldMatch[2].trim();
+
+      if (field === 'description') {
+        conversation.scenario = {
+          title: conversation.scenario?.title || '',
+          description: value
+        };
+      } else if (field === 'date') {
+        const parsedDate = parseDateValue(value);
+        if (parsedDate) {
+          conversation.date = parsedDate.date;
+          conversation.time = parsedDate.time;
+        } else {
+          errors.push({ line: lineNumber, message: `Unrecognized date "${value}", expected M/D/YYYY or YYYY-MM-DD` });
+        }
+      } else if ((field === 'staff' || field === 'staff member') && value) {
+        explicitStaffName = value;
+      }
+    }
+  });
+
+  finishTurn();
+
+  if (conversation.turns.length === 0) {
+    errors.push({ line: 0, message: 'No conversation turns found, expected headings like "### Staff Member (1)"' });
+  } else if (!conversation.turns.some(turn => turn.role === 'staff')) {
+    errors.push({ line: 0, message: 'Conversation has no staff member turns' });
+  }
+
+  for (const turn of conversation.turns) {
+    if (!turn.text) {
+      errors.push({ line: turn.line, message: `Turn ${turn.turnNumber} has no text` });
+    }
+  }
+
+  // A "**Staff Member:**" header field wins over the name found in the introduction
+  conversation.staffName = explicitStaffName || extractStaffNameFromTurns(conversation.turns);
+
+  // Report errors in source order
+  errors.sort((a, b) => a.line - b.line);
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    conversation
+  };
+}
+
+// Helper function to format parse errors for display or logging
+export function formatParseErrors(errors: ConversationParseError[]): string[] {
+  return errors.map(error => (error.line > 0 ? `Line ${error.line}: ${error.message}` : error.message));
+}
+
+// Helper function to render a conversation back into the simulator markdown format
+export function formatConversation(conversation: Conversation): string {
+  const sections: string[] = [`# ${conversation.title || DEFAULT_TITLE}`];
+
+  if (conversation.scenario) {
+    sections.push(`## Scenario: ${conversation.scenario.title}`);
+    if (conversation.scenario.description) {
+      sections.push(`**Description:** ${conversation.scenario.description}`);
+    }
+  }
+
+  if (conversation.date) {
+    sections.push(`**Date:** ${conversation.date}${conversation.time ? `, ${conversation.time}` : ''}`);
+  }
+
+  // Only written when the name is not already in the staff member's introduction
+  if (conversation.staffName && conversation.staffName !== extractStaffNameFromTurns(conversation.turns)) {
+    sections.push(`**Staff Member:** ${conversation.staffName}`);
+  }
+
+  sections.push('## Conversation');
+
+  for (const turn of conversation.turns) {
+    const timeRange = turn.startTime !== undefined && turn.endTime !== undefined
+      ? ` [${formatTimestamp(turn.startTime)} - ${formatTimestamp(turn.endTime)}]`
+      : '';
+    sections.push(`### ${ROLE_LABELS[turn.role]} (${turn.turnNumber})${timeRange}`);
+    sections.push(turn.text);
+  }
+
+  return sections.join('\n\n');
+}
+
+// Helper function to check a conversation sent as JSON, e.g. in an API request body
+export function validateConversation(input: any): ConversationParseResult {
+  const errors: ConversationParseError[] = [];
+  const conversation = createEmptyConversation();
+
+  if (!input || typeof input !== 'object' || !Array.isArray(input.turns)) {
+    errors.push({ line: 0, message: 'Conversation must be an object with a "turns" array' });
+    return { isValid: false, errors, conversation };
+  }
+
+  if (typeof input.title === 'string' && input.title.trim()) {
+    conversation.title = input.title.trim();
+  }
+  if (input.scenario && typeof input.scenario === 'object') {
+    conversation.scenario = {
+      title: String(input.scenario.title || ''),
+      description: String(input.scenario.description || '')
+    };
+  }
+  if (input.date) {
+    if (typeof input.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(input.date)) {
+      conversation.date = input.date;
+    } else {
+      errors.push({ line: 0, message: `Unrecognized date "${input.date}", expected YYYY-MM-DD` });
+    }
+  }
+  if (typeof input.time === 'string' && input.time.trim()) {
+    conversation.time = input.time.trim();
+  }
+
+  let previousNumber = 0;
+  input.turns.forEach((rawTurn: any, index: number) => {
+    const position = index + 1;
+    if (!rawTurn || typeof rawTurn !== 'object') {
+      errors.push({ line: 0, message: `Turn ${position} is not an object` });
+      return;
+    }
+
+    const role = rawTurn.role;
+    if (role !== 'staff' && role !== 'guest') {
+      errors.push({ line: 0, message: `Turn ${position} has an unknown role "${role}", expected "staff" or "guest"` });
+      return;
+    }
+
+    const turnNumber = Number.isInteger(rawTurn.turnNumber) ? rawTurn.turnNumber : previousNumber + 1;
+    if (turnNumber <= previousNumber) {
+      errors.push({ line: 0, message: `Turn ${turnNumber} is out of order, it follows turn ${previousNumber}` });
+    }
+    previousNumber = Math.max(previousNumber, turnNumber);
+
+    const text = typeof rawTurn.text === 'string' ? rawTurn.text.trim() : '';
+    if (!text) {
+      errors.push({ line: 0, message: `Turn ${turnNumber} has no text` });
+    }
+
+    const turn: ConversationTurn = {
+      turnNumber,
+      role,
+      speaker: typeof rawTurn.speaker === 'string' && rawTurn.speaker.trim() ? rawTurn.speaker.trim() : ROLE_LABELS[role as SpeakerRole],
+      text,
+      ...separateNonVerbal(text),
+      line: Number.isInteger(rawTurn.line) ? rawTurn.line : 0
+    };
+    if (typeof rawTurn.startTime === 'number' && typeof rawTurn.endTime === 'number') {
+      turn.startTime = rawTurn.startTime;
+      turn.endTime = rawTurn.endTime;
+    }
+    conversation.turns.push(turn);
+  });
+
+  if (conversation.turns.length === 0 && errors.length === 0) {
+    errors.push({ line: 0, message: 'Conversation has no turns' });
+  } else if (conversation.turns.length > 0 && !conversation.turns.some(turn => turn.role === 'staff')) {
+    errors.push({ line: 0, message: 'Conversation has no staff member turns' });
+  }
+
+  conversation.staffName = typeof input.staffName === 'string' && input.staffName.trim()
+    ? input.staffName.trim()
+    : extractStaffNameFromTurns(conversation.turns);
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    conversation
+  };
+}
+
+// Helper function to read the conversation from a request body.
+// Importers send the normalized "conversation" object; older clients send simulator "markdown".
+export function parseConversationInput(body: { conversation?: any; markdown?: string }): ConversationParseResult {
+  if (body.conversation && typeof body.conversation === 'object') {
+    return validateConversation(body.conversation);
+  }
+  return parseConversation(body.markdown || '');
+}
+
+// Tells the evaluator how to read the non-verbal channel
+export const NON_VERBAL_INSTRUCTIONS = `Each turn shows what was said ("Says:") separately from non-verbal cues. Guest reactions such as smiling, taking a sip or looking over the menu with interest are explicit buying signals: use them as evidence for "Recognition of Buying Signals" and judge whether the staff member noticed and responded to them. Do not treat non-verbal cues as things that were said.`;
+
+// Helper function to render a turn for the evaluator, with speech and non-verbal cues on separate lines
+export function formatTurnForEvaluation(turn: ConversationTurn): string {
+  const lines = [`### ${ROLE_LABELS[turn.role]} (${turn.turnNumber})`, `Says: ${turn.spokenText || '(nothing)'}`];
+  if (turn.stageDirections.length > 0) {
+    lines.push(`${turn.role === 'guest' ? 'Guest reaction' : 'Non-verbal'}: ${turn.stageDirections.join('; ')}`);
+  }
+  return lines.join('\n');
+}
+
+// Helper function to render a conversation for the evaluator
+export function formatConversationForEvaluation(conversation: Conversation): string {
+  const sections: string[] = [`# ${conversation.title || DEFAULT_TITLE}`];
+
+  if (conversation.scenario) {
+    sections.push(`Scenario: ${conversation.scenario.title}${conversation.scenario.description ? ` - ${conversation.scenario.description}` : ''}`);
+  }
+
+  sections.push(...conversation.turns.map(formatTurnForEvaluation));
+  return sections.join('\n\n');
+}
+
+// Helper function to list the guests' non-verbal reactions as buying signals for the evaluator
+export function formatGuestReactionSignals(turns: ConversationTurn[]): string {
+  const lines = turns
+    .filter(turn => turn.role === 'guest' && turn.stageDirections.length > 0)
+    .map(turn => `- Turn ${turn.turnNumber}: ${turn.stageDirections.join('; ')}`);
+  return lines.length > 0 ? lines.join('\n') : '- None recorded';
+}
@@ -0,0 +1,109 @@
+import { EvaluationData } from '../types/evaluation';
+
+// localStorage key of the evaluation shown on the detailed results page
+export const CURRENT_EVALUATION_KEY = 'wineEvaluationData';
+
+// localStorage key of the evaluations from batch uploads, by id
+export const EVALUATION_RESULTS_KEY = 'wineEvaluationResults';
+
+// Oldest results are dropped beyond this many, to stay within the localStorage quota.
+// Each result keeps its transcript so the detailed results can open the cited turns.
+const MAX_STORED_RESULTS = 20;
+
+// A stored evaluation
+export interface StoredEvaluationResult {
+  id: string;
+  fileName: string;
+  savedAt: string;
+  data: EvaluationData;
+  jobId?: string;                   // Analysis job, used to re-evaluate the conversation after a rubric change
+}
+
+// Helper function to read all stored evaluations
+function readStoredResults(): Record<string, StoredEvaluationResult> {
+  try {
+    const stored = localStorage.getItem(EVALUATION_RESULTS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error reading stored evaluations:', error);
+    return {};
+  }
+}
+
+/**
+ * Stores an evaluation so it can be opened later at /detailed-results?id=<id>
+ * @param data The evaluation data
+ * @param fileName Name of the conversation file that was evaluated
+ * @param jobId The analysis job that produced the evaluation
+ * @returns The id of the stored evaluation
+ */
+export function saveEvaluationResult(data: EvaluationData, fileName: string, jobId?: string): string {
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  const results = readStoredResults();
+  results[id] = { id, fileName, savedAt: new Date().toISOString(), data, jobId };
+
+  // Keep the most recent results
+  const ids = Object.values(results)
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+    .map(result => result.id);
+  for (const oldId of ids.slice(MAX_STORED_RESULTS)) {
+    delete results[oldId];
+  }
+
+  // When the results do not fit in the localStorage quota, drop the oldest until they do
+  const kept = ids.slice(0, MAX_STORED_RESULTS);
+  while (true) {
+    try {
+      localStorage.setItem(EVALUATION_RESULTS_KEY, JSON.stringify(results));
+      return id;
+    } catch (error) {
+      if (!isQuotaExceededError(error) || kept.length <= 1) {
+        throw error;
+      }
+      delete results[kept.pop()!];
+    }
+  }
+}
+
+// Helper function to recognize the error browsers throw when localStorage is full
+export function isQuotaExceededError(error: unknown): boolean {
+  return error instanceof DOMException && (
+    error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED'
+  );
+}
+
+// Helper function to list the stored evaluations, most recent first
+export function listEvaluationResults(): StoredEvaluationResult[] {
+  return Object.values(readStoredResults()).sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+/**
+ * Reads a stored evaluation
+ * @param id The id returned by saveEvaluationResult
+ * @returns The stored evaluation, or null if it is not found
+ */
+export function getEvaluationResult(id: string): StoredEvaluationResult | null {
+  return readStoredResults()[id] || null;
+}
+
+/**
+ * Replaces the data of a stored evaluation, e.g. after it was re-scored against a newer rubric
+ * @param id The id returned by saveEvaluationResult
+ * @param data The new evaluation data
+ * @param jobId The analysis job that produced the new data, when the conversation was evaluated again
+ * @returns False if the evaluation is not found
+ */
+export function updateEvaluationResult(id: string, data: EvaluationData, jobId?: string): boolean {
+  const results = readStoredResults();
+  if (!results[id]) {
+    return false;
+  }
+  results[id] = { ...results[id], data, jobId: jobId || results[id].jobId };
+  localStorage.setItem(EVALUATION_RESULTS_KEY, JSON.stringify(results));
+  return true;
+}
+
+// Helper function to build the link to a stored evaluation
+export function getEvaluationResultUrl(id: string): string {
+  return `/detailed-results?id=${encodeURIComponent(id)}`;
+}
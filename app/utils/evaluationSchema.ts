@@ -0,0 +1,313 @@
+import { ValidationError } from '../types/evaluation';
+import { Rubric } from '../types/rubric';
+
+// The subset of JSON schema used for structured output, enough for the tool input schemas sent to Claude
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+// Tools Claude calls with its structured answers
+export const EVALUATION_TOOL_NAME = 'record_evaluation';
+export const WINDOW_EVIDENCE_TOOL_NAME = 'record_window_evidence';
+
+// Helper function to build the schema of a score on the rubric's scale, scores are whole points
+function scoreSchema(rubric: Rubric, description: string, nullable = false): JsonSchema {
+  return {
+    type: nullable ? ['integer', 'null'] : 'integer',
+    minimum: rubric.minScore,
+    maximum: rubric.maxScore,
+    description
+  };
+}
+
+// Helper function to build the schema of a list of citations, each an exact excerpt of one turn
+function citationListSchema(description: string): JsonSchema {
+  return {
+    type: 'array',
+    description,
+    items: {
+      type: 'object',
+      properties: {
+        turnNumber: { type: 'integer', minimum: 1, description: 'Number of the turn the excerpt is from' },
+        excerpt: { type: 'string', minLength: 1, description: 'The exact words from that turn' }
+      },
+      required: ['turnNumber', 'excerpt']
+    }
+  };
+}
+
+// Helper function to build the schema of a list of exactly three feedback items
+function feedbackListSchema(description: string): JsonSchema {
+  return {
+    type: 'array',
+    items: { type: 'string', minLength: 1 },
+    minItems: 3,
+    maxItems: 3,
+    description
+  };
+}
+
+/**
+ * Builds the JSON schema of an evaluation against a rubric, used as the input schema of the evaluation tool
+ * and to validate what Claude returns. Criterion names and performance levels are limited to the rubric's.
+ * @param rubric The rubric the evaluation is scored against
+ * @returns The JSON schema of an evaluation
+ */
+export function buildEvaluationSchema(rubric: Rubric): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      staffName: { type: 'string', minLength: 1, description: 'Name of the staff member, from the conversation' },
+      date: { type: 'string', description: 'Date of the conversation as YYYY-MM-DD' },
+      overallScore: { type: 'number', minimum: 0, maximum: 100, description: 'Overall percentage score' },
+      performanceLevel: {
+        type: 'string',
+        enum: rubric.performanceBands.map(band => band.level),
+        description: 'Performance level for the overall score'
+      },
+      criteriaScores: {
+        type: 'array',
+        minItems: rubric.criteria.length,
+        maxItems: rubric.criteria.length,
+        description: 'One score for each weighted criterion, in rubric order',
+        items: {
+          type: 'object',
+          properties: {
+            criterion: { type: 'string', enum: rubric.criteria.map(criterion => criterion.name) },
+            weight: { type: 'number', minimum: 0, maximum: 100 },
+            score: scoreSchema(rubric, 'Score on the rubric scale, null when the criterion is not applicable', true),
+            weightedScore: { type: 'number', minimum: 0, description: 'Score × weight, 0 when not applicable' },
+            notApplicable: { type: 'boolean' },
+            notes: { type: 'string', minLength: 1, description: 'Rationale with examples from the conversation' },
+            evidence: citationListSchema('Citations the score is based on, empty only when the criterion is not applicable'),
+            checklist: {
+              type: 'array',
+              description: 'Only for criteria with a checklist, one result per checklist item in rubric order',
+              items: {
+                type: 'object',
+                properties: {
+                  item: { type: 'string' },
+                  met: { type: 'boolean' },
+                  evidence: { type: 'string' }
+                },
+                required: ['item', 'met', 'evidence']
+              }
+            }
+          },
+          required: ['criterion', 'weight', 'score', 'weightedScore', 'notApplicable', 'notes', 'evidence']
+        }
+      },
+      observationalNotes: {
+        type: 'array',
+        minItems: rubric.observationalCriteria.length,
+        maxItems: rubric.observationalCriteria.length,
+        description: 'One note for each observational criterion, for feedback only',
+        items: {
+          type: 'object',
+          properties: {
+            criterion: { type: 'string', enum: rubric.observationalCriteria.map(criterion => criterion.name) },
+            score: scoreSchema(rubric, 'Score on the rubric scale'),
+            notes: { type: 'string', minLength: 1 }
+          },
+          required: ['criterion', 'score', 'notes']
+        }
+      },
+      strengths: feedbackListSchema('3 specific strengths demonstrated in the conversation'),
+      areasForImprovement: feedbackListSchema('3 specific areas for improvement'),
+      keyRecommendations: feedbackListSchema('3 actionable recommendations')
+    },
+    required: [
+      'staffName', 'date', 'overallScore', 'performanceLevel', 'criteriaScores', 'observationalNotes',
+      'strengths', 'areasForImprovement', 'keyRecommendations'
+    ]
+  };
+}
+
+/**
+ * Builds the JSON schema of the evidence gathered from one window of a long conversation
+ * @param rubric The rubric the evidence is gathered for
+ * @returns The JSON schema of a window's evidence
+ */
+export function buildWindowEvidenceSchema(rubric: Rubric): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      summary: { type: 'string', description: 'Short summary of this section of the conversation' },
+      criteria: {
+        type: 'array',
+        description: 'Evidence for every weighted and observational criterion',
+        items: {
+          type: 'object',
+          properties: {
+            criterion: {
+              type: 'string',
+              enum: [...rubric.criteria, ...rubric.observationalCriteria].map(criterion => criterion.name)
+            },
+            evidence: citationListSchema('Citations of the moments in this section the criterion is judged on, empty when there are none'),
+            provisionalScore: scoreSchema(rubric, 'Score from this section alone, null when it has too little evidence', true)
+          },
+          required: ['criterion', 'evidence', 'provisionalScore']
+        }
+      }
+    },
+    required: ['summary', 'criteria']
+  };
+}
+
+// Helper function to get the JSON schema type of a value
+function getJsonType(value: any): JsonSchemaType {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as JsonSchemaType;
+}
+
+/**
+ * Validates a value against a JSON schema
+ * @param value The value to validate
+ * @param schema The schema to validate against
+ * @param field Path of the value, used in the error fields, e.g. "criteriaScores[2].score"
+ * @returns One error for every field that is missing or does not match the schema
+ */
+export function validateAgainstSchema(value: any, schema: JsonSchema, field = ''): ValidationError[] {
+  const name = field || 'value';
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = getJsonType(value);
+    const matches = types.includes(actual) || (actual === 'integer' && types.includes('number'));
+    if (!matches) {
+      return [{ field: name, message: `Must be ${types.join(' or ')}, got ${actual}` }];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [{ field: name, message: `Must be one of ${schema.enum.join(', ')}, got "${value}"` }];
+  }
+
+  const errors: ValidationError[] = [];
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ field: name, message: `Must be at least ${schema.minimum}, got ${value}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ field: name, message: `Must be at most ${schema.maximum}, got ${value}` });
+    }
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+    errors.push({ field: name, message: 'Must not be empty' });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ field: name, message: `Must have at least ${schema.minItems} items, got ${value.length}` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ field: name, message: `Must have at most ${schema.maxItems} items, got ${value.length}` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateAgainstSchema(item, schema.items!, `${field}[${index}]`));
+      });
+    }
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    (schema.required || []).forEach(key => {
+      if (value[key] === undefined) {
+        errors.push({ field: field ? `${field}.${key}` : key, message: 'Is missing' });
+      }
+    });
+    Object.entries(schema.properties || {}).forEach(([key, propertySchema]) => {
+      if (value[key] !== undefined) {
+        errors.push(...validateAgainstSchema(value[key], propertySchema, field ? `${field}.${key}` : key));
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Validates an evaluation against the rubric's evaluation schema, and checks what the schema cannot express:
+ * the date is YYYY-MM-DD, every criterion is scored once, a score is null and the evidence is empty only when
+ * the criterion is not applicable, and criteria with a checklist have one result per item
+ * @param data The evaluation as Claude returned it
+ * @param rubric The rubric the evaluation is scored against
+ * @returns One error for every field that is missing or invalid
+ */
+export function validateEvaluationOutput(data: any, rubric: Rubric): ValidationError[] {
+  const errors = validateAgainstSchema(data, buildEvaluationSchema(rubric));
+  if (!data || typeof data !== 'object') {
+    return errors;
+  }
+
+  if (typeof data.date === 'string' && !/^\d{4}-\d{2}-\d{2}$/.test(data.date)) {
+    errors.push({ field: 'date', message: `Must be a date as YYYY-MM-DD, got "${data.date}"` });
+  }
+
+  if (Array.isArray(data.criteriaScores)) {
+    const scoredNames = data.criteriaScores.map((item: any) => item?.criterion);
+    rubric.criteria.forEach(criterion => {
+      if (!scoredNames.includes(criterion.name)) {
+        errors.push({ field: 'criteriaScores', message: `Missing score for ${criterion.name}` });
+      }
+    });
+
+    data.criteriaScores.forEach((item: any, index: number) => {
+      if (!item || typeof item !== 'object') {
+        return;
+      }
+      const field = `criteriaScores[${index}]`;
+      if (scoredNames.indexOf(item.criterion) !== index) {
+        errors.push({ field: `${field}.criterion`, message: `${item.criterion} is scored more than once` });
+      }
+      if (item.score === null && item.notApplicable !== true) {
+        errors.push({ field: `${field}.score`, message: 'Must be an integer unless the criterion is not applicable' });
+      }
+      if (Array.isArray(item.evidence) && item.evidence.length === 0 && item.notApplicable !== true) {
+        errors.push({ field: `${field}.evidence`, message: 'Must cite the conversation unless the criterion is not applicable' });
+      }
+      const criterion = rubric.criteria.find(entry => entry.name === item.criterion);
+      if (criterion?.checklist && item.notApplicable !== true) {
+        const results = Array.isArray(item.checklist) ? item.checklist.length : 0;
+        if (results !== criterion.checklist.items.length) {
+          errors.push({
+            field: `${field}.checklist`,
+            message: `Must have one result for each of the ${criterion.checklist.items.length} checklist items, got ${results}`
+          });
+        }
+      }
+    });
+  }
+
+  if (Array.isArray(data.observationalNotes)) {
+    const notedNames = data.observationalNotes.map((item: any) => item?.criterion);
+    rubric.observationalCriteria.forEach(criterion => {
+      if (!notedNames.includes(criterion.name)) {
+        errors.push({ field: 'observationalNotes', message: `Missing note for ${criterion.name}` });
+      }
+    });
+  }
+
+  return errors;
+}
@@ -0,0 +1,128 @@
+import { Conversation, ConversationTurn } from '../types/conversation';
+import { EvidenceCitation, TranscriptTurn } from '../types/evaluation';
+
+export const EVIDENCE_INSTRUCTIONS = `Support each criterion score with "evidence": an array of citations from the conversation, each with "turnNumber" (the number of the turn the words are from) and "excerpt" (the exact words as they appear in that turn, copied character for character, not paraphrased). Use "..." only to leave words out of a longer passage. Cite the moments the score is based on, both strong and weak ones; use an empty array only for a criterion that is not applicable. Every excerpt is checked against the transcript, and citations that cannot be found in their turn are flagged as unverified.`;
+
+// Result of checking the citations of an evaluation against its transcript
+export interface EvidenceVerificationSummary {
+  verified: number;     // Citations found in the turn they cite
+  unverified: number;   // Citations kept but flagged, the excerpt is not in the cited turn
+  removed: number;      // Citations dropped because they cite no turn or quote nothing
+}
+
+// Helper function to normalize text for comparison, ignoring case, whitespace, typographic quotes and emphasis
+function normalizeForMatch(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/\*/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Helper function to split an excerpt on elisions into the parts that must appear in order,
+// without the quotes and trailing punctuation the evaluator may have wrapped it in
+function getExcerptParts(excerpt: string): string[] {
+  return normalizeForMatch(excerpt)
+    .replace(/^["']+|["']+$/g, '')
+    .split(/\s*(?:\.\.\.|…)\s*/)
+    .map(part => part.replace(/^[\s,.;:!?"'-]+|[\s,.;:!?"'-]+$/g, ''))
+    .filter(Boolean);
+}
+
+// Helper function to check whether every part of an excerpt appears in a text, in order
+function containsExcerpt(text: string, parts: string[]): boolean {
+  const normalized = normalizeForMatch(text);
+  let position = 0;
+  for (const part of parts) {
+    const index = normalized.indexOf(part, position);
+    if (index === -1) {
+      return false;
+    }
+    position = index + part.length;
+  }
+  return true;
+}
+
+/**
+ * Checks whether an excerpt appears in a turn, allowing for differences in case, whitespace, typographic
+ * quotes and stage direction markup, and for "..." leaving words out
+ * @param excerpt The quoted words
+ * @param turn The turn the excerpt cites
+ * @returns Whether the excerpt is in the turn
+ */
+export function isExcerptInTurn(excerpt: string, turn: ConversationTurn): boolean {
+  const parts = getExcerptParts(excerpt);
+  return parts.length > 0 && (containsExcerpt(turn.text, parts) || containsExcerpt(turn.spokenText, parts));
+}
+
+/**
+ * Verifies the citations an evaluator gave for a criterion against the conversation. Citations that quote
+ * nothing or cite a turn that is not in the conversation are removed, citations whose excerpt is not in the
+ * cited turn are kept with verified set to false so they can be flagged.
+ * @param citations The citations as the evaluator returned them
+ * @param conversation The conversation that was evaluated
+ * @returns The citations that cite a turn, each marked verified or not, and the number removed
+ */
+export function verifyCitations(citations: any, conversation: Conversation): { evidence: EvidenceCitation[]; removed: number } {
+  if (!Array.isArray(citations)) {
+    return { evidence: [], removed: 0 };
+  }
+
+  const turns = new Map(conversation.turns.map(turn => [turn.turnNumber, turn]));
+  const evidence: EvidenceCitation[] = [];
+  citations.forEach(citation => {
+    const turnNumber = Number(citation?.turnNumber);
+    const excerpt = typeof citation?.excerpt === 'string' ? citation.excerpt.trim() : '';
+    const turn = turns.get(turnNumber);
+    if (!turn || !excerpt) {
+      return;
+    }
+    evidence.push({ turnNumber, excerpt, verified: isExcerptInTurn(excerpt, turn) });
+  });
+
+  return { evidence, removed: citations.length - evidence.length };
+}
+
+/**
+ * Verifies the citations of every criterion score in an evaluator's result, replacing them with the checked ones
+ * @param data The evaluation as the evaluator returned it
+ * @param conversation The conversation that was evaluated
+ * @returns How many citations were verified, flagged and removed
+ */
+export function verifyEvaluationEvidence(data: any, conversation: Conversation): EvidenceVerificationSummary {
+  const summary: EvidenceVerificationSummary = { verified: 0, unverified: 0, removed: 0 };
+  if (!Array.isArray(data?.criteriaScores)) {
+    return summary;
+  }
+
+  data.criteriaScores.forEach((item: any) => {
+    if (!item || typeof item !== 'object') {
+      return;
+    }
+    const { evidence, removed } = verifyCitations(item.evidence, conversation);
+    item.evidence = evidence;
+    summary.verified += evidence.filter(citation => citation.verified).length;
+    summary.unverified += evidence.filter(citation => !citation.verified).length;
+    summary.removed += removed;
+  });
+
+  return summary;
+}
+
+// Helper function to keep the parts of the turns the results page shows when a citation is opened
+export function toTranscript(conversation: Conversation): TranscriptTurn[] {
+  return conversation.turns.map(turn => ({
+    turnNumber: turn.turnNumber,
+    role: turn.role,
+    speaker: turn.speaker,
+    text: turn.text
+  }));
+}
+
+// Helper function to get the element id of a turn in the transcript on the results page
+export function getTurnAnchorId(turnNumber: number): string {
+  return `turn-${turnNumber}`;
+}
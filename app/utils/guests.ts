@@ -0,0 +1,230 @@
+import { Conversation, ConversationTurn } from '../types/conversation';
+import { Guest, GuestRoster, GuestSignal, GuestSignalKind } from '../types/guests';
+import { isGenericSpeakerLabel } from './speakers';
+import { splitIntoSentences } from './transcriptEditing';
+
+// Tells the evaluator how to use the guest roster
+export const GUEST_ROSTER_INSTRUCTIONS = `When scoring "Building Rapport", use the guest roster: check whether the staff member engaged every guest in the party by name, and refer to the guests by name in the notes. When scoring "Recognition of Buying Signals" and "Personalized Wine Recommendations", consider which guest each preference or buying signal came from.`;
+
+// Relationships guests use to introduce each other, e.g. "this is my husband Michael"
+const RELATIONSHIPS = 'husband|wife|partner|friend|boyfriend|girlfriend|fianc[eé]e?|sister|brother|mother|mom|father|dad|daughter|son|colleague|coworker|co-worker|cousin|aunt|uncle|neighbor|neighbour';
+
+// Capitalized words that follow "I'm" or "this is" without being names
+const NOT_NAMES = new Set([
+  'A', 'An', 'The', 'Not', 'Just', 'So', 'Really', 'Very', 'Here', 'From', 'Sure', 'Glad', 'Happy',
+  'Excited', 'Interested', 'Looking', 'Going', 'Actually', 'Also', 'Our', 'My', 'Your', 'It', 'That',
+  'This', 'What', 'Yes', 'No', 'Oh', 'Wow', 'Great', 'Thanks', 'Thank', 'Hi', 'Hello', 'Okay', 'Ok'
+]);
+
+const PREFERENCE_PATTERN = /\b(love|loves|like|likes|prefer|prefers|enjoy|enjoys|favorite|favourite|fan of|not a fan|into|usually drink|drinks|partial to|can't stand|don't like|doesn't like)\b/i;
+const BUYING_SIGNAL_PATTERN = /\b(buy|purchase|bottles?|case of|we'll take|i'll take|we'd like to take|how much|price|cost|join(?:ing)? the(?: wine)? club|wine club|membership|sign up|ship(?:ping)?)\b/i;
+
+// Helper function to escape a name for use in a regular expression
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Helper function to check that a word can be a first name
+function isName(word: string | undefined, staffName: string | null): word is string {
+  return !!word &&
+    /^[A-Z][a-z'-]+$/.test(word) &&
+    !NOT_NAMES.has(word) &&
+    word.toLowerCase() !== (staffName || '').toLowerCase();
+}
+
+// Helper function to find the guests introduced in a turn, and the name of the guest speaking if they introduce themselves
+function findIntroductions(
+  turn: ConversationTurn,
+  staffName: string | null
+): { speaker: string | null; others: { name: string; relationship: string | null }[] } {
+  const text = turn.spokenText;
+  let speaker: string | null = null;
+  const others: { name: string; relationship: string | null }[] = [];
+
+  const selfMatch = text.match(/\b[Mm]y name(?: is|'s)\s+([A-Z][a-z'-]+)/) || text.match(/\b(?:I'm|I am)\s+([A-Z][a-z'-]+)/);
+  if (selfMatch && isName(selfMatch[1], staffName)) {
+    speaker = selfMatch[1];
+  }
+
+  // "this is my husband Michael", "my wife, Anna"
+  const relationshipPattern = new RegExp(`\\b[Mm]y (${RELATIONSHIPS}),?\\s+([A-Z][a-z'-]+)`, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = relationshipPattern.exec(text)) !== null) {
+    if (isName(match[2], staffName)) {
+      others.push({ name: match[2], relationship: match[1].toLowerCase() });
+    }
+  }
+
+  // "this is Michael", "meet Anna and Tom", "Michael and I"
+  const namePatterns = [
+    /\b(?:this is|these are|meet)\s+([A-Z][a-z'-]+)(?:\s+and\s+([A-Z][a-z'-]+))?/g,
+    /\b([A-Z][a-z'-]+)\s+and\s+I\b/g
+  ];
+  for (const pattern of namePatterns) {
+    while ((match = pattern.exec(text)) !== null) {
+      for (const name of [match[1], match[2]]) {
+        if (isName(name, staffName) && name !== speaker && !others.some(other => other.name === name)) {
+          others.push({ name, relationship: null });
+        }
+      }
+    }
+  }
+
+  return { speaker, others };
+}
+
+// Helper function to work out which guest a sentence or stage direction is about
+function attributeSignal(text: string, turnGuest: string | null, guests: Guest[]): string | null {
+  // A named guest doing something, e.g. "Michael loves bold reds", but not "Michael, we need to buy this"
+  for (const guest of guests) {
+    const name = escapeRegExp(guest.name);
+    if (new RegExp(`\\b${name}\\b`).test(text.replace(new RegExp(`^${name},\\s*`), '')) && !new RegExp(`\\b(?:to|with|for)\\s+${name}\\b`).test(text)) {
+      return guest.name;
+    }
+  }
+
+  // A guest described by their relationship, e.g. "my husband prefers whites"
+  const relationshipMatch = text.match(new RegExp(`\\bmy (${RELATIONSHIPS})\\b`, 'i'));
+  if (relationshipMatch) {
+    const guest = guests.find(item => item.relationship === relationshipMatch[1].toLowerCase());
+    if (guest) return guest.name;
+  }
+
+  // First person singular belongs to whoever is speaking
+  if (turnGuest && /\b(I|I'm|I'd|I've|I'll|me|my)\b/.test(text)) {
+    return turnGuest;
+  }
+
+  return null;
+}
+
+// Helper function to classify a guest sentence as a preference or buying signal
+function classifySentence(sentence: string): GuestSignalKind | null {
+  if (BUYING_SIGNAL_PATTERN.test(sentence)) return 'buying-signal';
+  if (PREFERENCE_PATTERN.test(sentence)) return 'preference';
+  return null;
+}
+
+/**
+ * Detects the individual guests in a tasting party from introductions and speaker labels,
+ * tracks which guest expressed which preference or buying signal, and whether the staff
+ * member addressed every guest by name.
+ * @param conversation The parsed conversation
+ * @returns The guest roster
+ */
+export function detectGuests(conversation: Conversation): GuestRoster {
+  const guests: Guest[] = [];
+  const staffName = conversation.staffName;
+
+  const addGuest = (name: string, relationship: string | null, turnNumber: number): Guest => {
+    let guest = guests.find(item => item.name.toLowerCase() === name.toLowerCase());
+    if (!guest) {
+      guest = {
+        name,
+        relationship,
+        introducedInTurn: turnNumber,
+        turns: [],
+        staffMentions: [],
+        engagedByName: false
+      };
+      guests.push(guest);
+    } else if (!guest.relationship && relationship) {
+      guest.relationship = relationship;
+    }
+    return guest;
+  };
+
+  // Guest speaking in each turn, when it is known
+  const turnGuests = new Map<number, string>();
+
+  for (const turn of conversation.turns) {
+    if (turn.role !== 'guest') continue;
+
+    // Imported transcripts may label guests by name, e.g. "Sarah: we love reds"
+    if (!isGenericSpeakerLabel(turn.speaker) && isName(turn.speaker.split(/\s+/)[0], staffName)) {
+      const guest = addGuest(turn.speaker, null, turn.turnNumber);
+      turnGuests.set(turn.turnNumber, guest.name);
+    }
+
+    const { speaker, others } = findIntroductions(turn, staffName);
+    if (speaker && !turnGuests.has(turn.turnNumber)) {
+      const guest = addGuest(speaker, null, turn.turnNumber);
+      turnGuests.set(turn.turnNumber, guest.name);
+    }
+    for (const other of others) {
+      addGuest(other.name, other.relationship, turn.turnNumber);
+    }
+  }
+
+  for (const [turnNumber, name] of Array.from(turnGuests.entries())) {
+    guests.find(guest => guest.name === name)?.turns.push(turnNumber);
+  }
+
+  // Preferences, buying signals and reactions from every guest turn
+  const signals: GuestSignal[] = [];
+  for (const turn of conversation.turns) {
+    if (turn.role !== 'guest') continue;
+    const turnGuest = turnGuests.get(turn.turnNumber) || null;
+
+    for (const direction of turn.stageDirections) {
+      signals.push({ turnNumber: turn.turnNumber, kind: 'reaction', text: direction, guest: attributeSignal(direction, turnGuest, guests) });
+    }
+
+    for (const sentence of splitIntoSentences(turn.spokenText)) {
+      const kind = classifySentence(sentence.text);
+      if (kind) {
+        signals.push({ turnNumber: turn.turnNumber, kind, text: sentence.text, guest: attributeSignal(sentence.text, turnGuest, guests) });
+      }
+    }
+  }
+
+  // Whether the staff member used each guest's name
+  for (const guest of guests) {
+    const namePattern = new RegExp(`\\b${escapeRegExp(guest.name)}\\b`, 'i');
+    guest.staffMentions = conversation.turns
+      .filter(turn => turn.role === 'staff' && namePattern.test(turn.spokenText))
+      .map(turn => turn.turnNumber);
+    guest.engagedByName = guest.staffMentions.length > 0;
+  }
+
+  const unengagedGuests = guests.filter(guest => !guest.engagedByName).map(guest => guest.name);
+
+  return {
+    guests,
+    signals,
+    allGuestsEngagedByName: guests.length > 0 && unengagedGuests.length === 0,
+    unengagedGuests
+  };
+}
+
+// Helper function to render the guest roster for the evaluator
+export function formatGuestRoster(roster: GuestRoster): string {
+  if (roster.guests.length === 0) {
+    return 'No individual guests could be identified from introductions or speaker labels.';
+  }
+
+  const guestLines = roster.guests.map(guest => {
+    const details = [
+      guest.relationship,
+      guest.introducedInTurn !== null ? `introduced in turn ${guest.introducedInTurn}` : null,
+      guest.engagedByName
+        ? `addressed by name in turn${guest.staffMentions.length > 1 ? 's' : ''} ${guest.staffMentions.join(', ')}`
+        : 'never addressed by name'
+    ].filter(Boolean);
+    return `- ${guest.name} (${details.join(', ')})`;
+  });
+
+  const signalLines = roster.signals
+    .filter(signal => signal.kind !== 'reaction')
+    .map(signal => `- Turn ${signal.turnNumber} [${signal.kind}] ${signal.guest || 'party'}: "${signal.text}"`);
+
+  return [
+    `Guests in the party (${roster.guests.length}):`,
+    ...guestLines,
+    roster.allGuestsEngagedByName
+      ? 'The staff member addressed every guest by name.'
+      : `Not addressed by name: ${roster.unengagedGuests.join(', ')}`,
+    'Preferences and buying signals by guest:',
+    ...(signalLines.length > 0 ? signalLines : ['- None found'])
+  ].join('\n');
+}
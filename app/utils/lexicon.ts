@@ -0,0 +1,371 @@
+import { Conversation, ConversationTurn, TranscriptImportResult } from '../types/conversation';
+import {
+  LexiconCategory,
+  LexiconEntry,
+  LexiconSubstitution,
+  LexiconValidationResult,
+  SubstitutionMethod,
+  WineryLexicon
+} from '../types/lexicon';
+import { separateNonVerbal } from './conversation';
+
+// Where the client loads the lexicon from
+export const LEXICON_URL = '/data/winery_lexicon.json';
+
+const LEXICON_CATEGORIES: LexiconCategory[] = ['estate', 'wine', 'varietal', 'staff'];
+
+// Minimum similarity (0-1) for a fuzzy match when every word sounds alike, and when only the spelling is close
+const PHONETIC_SIMILARITY = 0.5;
+const SPELLING_SIMILARITY = 0.85;
+
+// Words shorter than this are never fuzzy-matched
+const MIN_FUZZY_LENGTH = 4;
+
+// Terms this short or shorter need the closer spelling match even when they sound alike,
+// so a name like "Mila" is not taken for "Milea"
+const SHORT_TERM_LENGTH = 6;
+
+// Words before a name when a speaker addresses someone or introduces them, e.g. "Thanks Vincent" or "my husband, Kevin"
+const NAME_CUE_PATTERN = /\b(?:hi|hello|hey|thanks|thank you|welcome|bye|goodbye|cheers|meet|meet you|i'm|i am|name is|name's|this is|call me|my (?:husband|wife|partner|friend|son|daughter|mother|father|mom|dad|sister|brother|colleague))[,\s]*$/i;
+
+// Words in a transcript, with a trailing possessive left out so "Malaya's" matches "Malaya"
+const WORD_PATTERN = /[A-Za-z\u00C0-\u024F0-9]+(?:'[A-Za-z]+)?/g;
+
+const SOUNDEX_CODES: Record<string, string> = {
+  B: '1', F: '1', P: '1', V: '1',
+  C: '2', G: '2', J: '2', K: '2', Q: '2', S: '2', X: '2', Z: '2',
+  D: '3', T: '3',
+  L: '4',
+  M: '5', N: '5',
+  R: '6'
+};
+
+// A word in the transcript and where it is
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+  sentenceStart: boolean;
+}
+
+// Helper function to compute the Soundex code of a word, e.g. "Malaya" and "Milea" are both M400
+export function soundex(word: string): string {
+  const letters = comparable(word).toUpperCase().replace(/[^A-Z]/g, '');
+  if (!letters) return '';
+
+  let code = letters[0];
+  let previous = SOUNDEX_CODES[letters[0]] || '';
+  for (let i = 1; i < letters.length && code.length < 4; i++) {
+    const digit = SOUNDEX_CODES[letters[i]] || '';
+    if (digit && digit !== previous) {
+      code += digit;
+    }
+    // H and W do not separate letters with the same code; vowels do
+    if (letters[i] !== 'H' && letters[i] !== 'W') {
+      previous = digit;
+    }
+  }
+
+  return code.padEnd(4, '0');
+}
+
+// Helper function to compute the edit distance between two strings
+export function levenshtein(a: string, b: string): number {
+  let previousRow = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row.push(Math.min(row[j - 1] + 1, previousRow[j] + 1, previousRow[j - 1] + cost));
+    }
+    previousRow = row;
+  }
+
+  return previousRow[b.length];
+}
+
+// Helper function to reduce text to lowercase letters and single spaces for comparison
+function comparable(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/'s\b/g, '')
+    .replace(/[^a-z0-9\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Helper function to score how alike two strings are (1 = identical)
+function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - levenshtein(a, b) / length;
+}
+
+// Helper function to split text into words, noting which words start a sentence
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let match: RegExpExecArray | null;
+  WORD_PATTERN.lastIndex = 0;
+
+  while ((match = WORD_PATTERN.exec(text)) !== null) {
+    const word = match[0].replace(/'s$/i, '');
+    const before = text.slice(0, match.index).trimEnd();
+    tokens.push({
+      text: word,
+      start: match.index,
+      end: match.index + word.length,
+      sentenceStart: before === '' || /[.!?*\n]$/.test(before)
+    });
+  }
+
+  return tokens;
+}
+
+// Helper function to check whether words look like the name of someone a speaker is addressing or introducing,
+// e.g. "Nice to meet you, Mila." or "This is my husband, Kevin Frank."
+function isPersonName(text: string, tokens: Token[]): boolean {
+  const before = text.slice(0, tokens[0].start);
+  const after = text.slice(tokens[tokens.length - 1].end);
+  const addressed = /,\s*$/.test(before) && /^\s*(?:[,.!?]|$)/.test(after);
+  return addressed || NAME_CUE_PATTERN.test(before);
+}
+
+// Helper function to check whether a run of words is close enough to a lexicon term to be a mis-transcription of it.
+// Only capitalized words are fuzzy-matched, and never a single word at the start of a sentence,
+// so ordinary words such as "Mile" are left alone. Names of people in the conversation are never fuzzy-matched.
+function isFuzzyMatch(text: string, tokens: Token[], entry: LexiconEntry): boolean {
+  const termWords = comparable(entry.term).split(' ');
+  if (termWords.length !== tokens.length) return false;
+  if (!/^[A-Z]/.test(tokens[0].text)) return false;
+  if (tokens.length === 1 && tokens[0].sentenceStart) return false;
+  if (isPersonName(text, tokens)) return false;
+
+  const words = tokens.map(token => comparable(token.text));
+  if (words.join('').length < MIN_FUZZY_LENGTH) return false;
+
+  // Plurals and other endings on a correct term, e.g. "Cabernet Sauvignons", are not mistakes
+  if (words.join(' ').startsWith(termWords.join(' '))) return false;
+
+  const score = similarity(words.join(' '), termWords.join(' '));
+  const soundsAlike = words.every((word, index) => soundex(word) === soundex(termWords[index]));
+  const sameInitials = words.every((word, index) => word[0] === termWords[index][0]);
+
+  const isShortTerm = termWords.join('').length <= SHORT_TERM_LENGTH;
+
+  return (soundsAlike && !isShortTerm && score >= PHONETIC_SIMILARITY) || (sameInitials && score >= SPELLING_SIMILARITY);
+}
+
+/**
+ * Checks a lexicon loaded from JSON. Entries with problems are left out and reported.
+ * @param input The parsed JSON
+ * @returns The usable lexicon and a message for each problem found
+ */
+export function validateLexicon(input: any): LexiconValidationResult {
+  const errors: string[] = [];
+  const lexicon: WineryLexicon = { name: '', entries: [] };
+
+  if (!input || typeof input !== 'object' || !Array.isArray(input.entries)) {
+    errors.push('Lexicon must be an object with an "entries" array');
+    return { isValid: false, errors, lexicon };
+  }
+
+  lexicon.name = typeof input.name === 'string' ? input.name : '';
+
+  input.entries.forEach((entry: any, index: number) => {
+    if (!entry || typeof entry.term !== 'string' || !entry.term.trim()) {
+      errors.push(`Entry ${index + 1}: "term" is required`);
+      return;
+    }
+    if (!LEXICON_CATEGORIES.includes(entry.category)) {
+      errors.push(`Entry ${index + 1} (${entry.term}): "category" must be one of ${LEXICON_CATEGORIES.join(', ')}`);
+      return;
+    }
+    if (entry.aliases !== undefined && (!Array.isArray(entry.aliases) || entry.aliases.some((alias: any) => typeof alias !== 'string'))) {
+      errors.push(`Entry ${index + 1} (${entry.term}): "aliases" must be a list of strings`);
+      return;
+    }
+    lexicon.entries.push({
+      term: entry.term.trim(),
+      category: entry.category,
+      aliases: entry.aliases?.map((alias: string) => alias.trim()).filter(Boolean)
+    });
+  });
+
+  return { isValid: errors.length === 0, errors, lexicon };
+}
+
+/**
+ * Corrects likely mis-transcriptions of lexicon terms in a piece of text.
+ * Known aliases are replaced unless a one-word alias is used as the name of someone a speaker
+ * addresses or introduces; other words are replaced when they are spelled or sound close enough to a term.
+ * @param text The text to correct
+ * @param lexicon The winery lexicon
+ * @param turnNumber Turn the text belongs to, recorded with each substitution
+ * @returns The corrected text and the substitutions made
+ */
+export function normalizeText(
+  text: string,
+  lexicon: WineryLexicon,
+  turnNumber: number
+): { text: string; substitutions: LexiconSubstitution[] } {
+  const substitutions: LexiconSubstitution[] = [];
+  const tokens = tokenize(text);
+
+  const termKeys = new Set(lexicon.entries.map(entry => comparable(entry.term)));
+  const aliases = new Map<string, LexiconEntry>();
+  for (const entry of lexicon.entries) {
+    for (const alias of entry.aliases || []) {
+      aliases.set(comparable(alias), entry);
+    }
+  }
+  const maxWords = Math.max(1, ...Array.from(termKeys).concat(Array.from(aliases.keys())).map(key => key.split(' ').length));
+
+  const replacements: { start: number; end: number; term: string }[] = [];
+  let index = 0;
+
+  while (index < tokens.length) {
+    let matchedWords = 0;
+
+    for (let count = Math.min(maxWords, tokens.length - index); count >= 1 && matchedWords === 0; count--) {
+      const window = tokens.slice(index, index + count);
+      const start = window[0].start;
+      const end = window[window.length - 1].end;
+      const original = text.slice(start, end);
+
+      // Terms never span punctuation
+      if (!/^[\w\u00C0-\u024F']+(?:\s+[\w\u00C0-\u024F']+)*$/.test(original)) continue;
+
+      const key = comparable(original);
+      let entry: LexiconEntry | undefined;
+      let method: SubstitutionMethod = 'alias';
+
+      if (termKeys.has(key)) {
+        // Already spelled correctly
+        matchedWords = count;
+        continue;
+      }
+
+      // A one-word alias can also be a guest's name, e.g. "Malia", so it is left alone where someone is named
+      if (count === 1 && aliases.has(key) && isPersonName(text, window)) continue;
+
+      entry = aliases.get(key);
+      if (!entry) {
+        entry = lexicon.entries.find(candidate => isFuzzyMatch(text, window, candidate));
+        method = 'fuzzy';
+      }
+
+      if (entry) {
+        replacements.push({ start, end, term: entry.term });
+        substitutions.push({ turnNumber, original, replacement: entry.term, category: entry.category, method });
+        matchedWords = count;
+      }
+    }
+
+    index += Math.max(matchedWords, 1);
+  }
+
+  let corrected = text;
+  for (const replacement of replacements.reverse()) {
+    corrected = corrected.slice(0, replacement.start) + replacement.term + corrected.slice(replacement.end);
+  }
+
+  return { text: corrected, substitutions };
+}
+
+/**
+ * Corrects lexicon terms in every turn of a conversation
+ * @param conversation The parsed conversation
+ * @param lexicon The winery lexicon
+ * @returns The corrected conversation and every substitution made
+ */
+export function normalizeConversation(
+  conversation: Conversation,
+  lexicon: WineryLexicon
+): { conversation: Conversation; substitutions: LexiconSubstitution[] } {
+  const substitutions: LexiconSubstitution[] = [];
+
+  const turns = conversation.turns.map((turn): ConversationTurn => {
+    const result = normalizeText(turn.text, lexicon, turn.turnNumber);
+    if (result.substitutions.length === 0) return turn;
+    substitutions.push(...result.substitutions);
+    return { ...turn, text: result.text, ...separateNonVerbal(result.text) };
+  });
+
+  return { conversation: { ...conversation, turns }, substitutions };
+}
+
+// Helper function to correct an imported transcript before it is previewed and analyzed.
+// Speaker-labelled utterances are corrected too, so the corrections survive when speaker roles are changed.
+export function normalizeImport(result: TranscriptImportResult, lexicon: WineryLexicon): TranscriptImportResult {
+  const { conversation, substitutions } = normalizeConversation(result.parseResult.conversation, lexicon);
+
+  const utterances = result.utterances?.map(utterance => ({
+    ...utterance,
+    text: normalizeText(utterance.text, lexicon, 0).text
+  })) ?? null;
+
+  return {
+    ...result,
+    utterances,
+    parseResult: { ...result.parseResult, conversation },
+    substitutions
+  };
+}
+
+// Helper function to group substitutions by what was replaced, for display
+export function summarizeSubstitutions(
+  substitutions: LexiconSubstitution[]
+): { original: string; replacement: string; category: LexiconCategory; method: SubstitutionMethod; turns: number[] }[] {
+  const groups = new Map<string, { original: string; replacement: string; category: LexiconCategory; method: SubstitutionMethod; turns: number[] }>();
+
+  for (const substitution of substitutions) {
+    const key = `${substitution.original.toLowerCase()}|${substitution.replacement}`;
+    const group = groups.get(key);
+    if (group) {
+      if (!group.turns.includes(substitution.turnNumber)) {
+        group.turns.push(substitution.turnNumber);
+      }
+    } else {
+      groups.set(key, {
+        original: substitution.original,
+        replacement: substitution.replacement,
+        category: substitution.category,
+        method: substitution.method,
+        turns: [substitution.turnNumber]
+      });
+    }
+  }
+
+  return Array.from(groups.values());
+}
+
+let lexiconRequest: Promise<WineryLexicon | null> | null = null;
+
+// Helper function to load the winery lexicon in the browser, once per page.
+// Transcripts are left as they are when the lexicon cannot be loaded.
+export function fetchLexicon(): Promise<WineryLexicon | null> {
+  if (!lexiconRequest) {
+    lexiconRequest = fetch(LEXICON_URL)
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Lexicon request failed with status ${response.status}`);
+        }
+        return response.json();
+      })
+      .then(data => {
+        const { errors, lexicon } = validateLexicon(data);
+        if (errors.length > 0) {
+          console.warn('Lexicon: Problems found in the winery lexicon', errors);
+        }
+        return lexicon;
+      })
+      .catch(error => {
+        console.warn('Lexicon: Could not load the winery lexicon, transcripts will not be corrected', error);
+        lexiconRequest = null;
+        return null;
+      });
+  }
+  return lexiconRequest;
+}
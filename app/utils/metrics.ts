@@ -0,0 +1,146 @@
+import { Conversation, ConversationTurn } from '../types/conversation';
+import { ConversationMetrics, QuestionMetrics } from '../types/metrics';
+import { countWords, splitIntoSentences } from './transcriptEditing';
+
+// Staff turns longer than this many words are flagged as monologues
+export const MONOLOGUE_WORD_LIMIT = 150;
+
+// Words that often start a question after a filler, e.g. "so what brings you in?"
+const LEAD_IN_PATTERN = /^(?:(?:so|and|but|also|now|well|okay|ok|oh|um|uh|then|great|cool|alright|all right)\b[\s,]*)*/i;
+const OPEN_QUESTION_PATTERN = /^(what|how|why|which|where|when|who|tell me|describe|walk me through)\b/i;
+
+// Unpunctuated speech-to-text has no question marks, so questions are found from the word order instead,
+// e.g. "today is this your first time at Milea"; a question word shortly before makes the question open
+const INVERTED_QUESTION_PATTERN = /\b(?:(what|how|why|which|where|who)(?:\s+[\w']+){0,2}\s+)?(?:is this|is that|are you|were you|do you|did you|have you|would you|could you|will you|can i|can you)\b/gi;
+
+const WINE_CLUB_PATTERN = /\b(wine club|the club|our club|club membership|join(?:ing)? (?:the|our) club)\b/i;
+
+// Helper function to round a number to one decimal place
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// Helper function to count the open and closed questions in a turn
+function countQuestions(turn: ConversationTurn): { open: number; closed: number } {
+  const counts = { open: 0, closed: 0 };
+
+  for (const sentence of splitIntoSentences(turn.spokenText)) {
+    const text = sentence.text.replace(/["')\]*]+$/, '');
+
+    if (text.endsWith('?')) {
+      const question = text.replace(LEAD_IN_PATTERN, '');
+      if (OPEN_QUESTION_PATTERN.test(question)) {
+        counts.open++;
+      } else {
+        counts.closed++;
+      }
+    } else if (!/[.!]$/.test(text)) {
+      let match: RegExpExecArray | null;
+      INVERTED_QUESTION_PATTERN.lastIndex = 0;
+      while ((match = INVERTED_QUESTION_PATTERN.exec(text)) !== null) {
+        if (match[1]) {
+          counts.open++;
+        } else {
+          counts.closed++;
+        }
+      }
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Computes objective metrics for a conversation without calling the LLM:
+ * talk ratio, staff turn lengths, questions asked by the staff member and
+ * how long it took to mention the wine club.
+ * @param conversation The parsed conversation
+ * @returns The conversation metrics
+ */
+export function computeConversationMetrics(conversation: Conversation): ConversationMetrics {
+  const staffTurns = conversation.turns.filter(turn => turn.role === 'staff');
+  const guestTurns = conversation.turns.filter(turn => turn.role === 'guest');
+
+  const staffTurnWords = staffTurns.map(turn => countWords(turn));
+  const staffWords = staffTurnWords.reduce((sum, words) => sum + words, 0);
+  const guestWords = guestTurns.reduce((sum, turn) => sum + countWords(turn), 0);
+
+  const maxStaffTurnWords = staffTurnWords.length > 0 ? Math.max(...staffTurnWords) : 0;
+  const longestIndex = staffTurnWords.indexOf(maxStaffTurnWords);
+
+  const questions: QuestionMetrics = { total: 0, open: 0, closed: 0, turns: [] };
+  for (const turn of staffTurns) {
+    const { open, closed } = countQuestions(turn);
+    if (open + closed > 0) {
+      questions.open += open;
+      questions.closed += closed;
+      questions.total += open + closed;
+      questions.turns.push(turn.turnNumber);
+    }
+  }
+
+  const wineClubIndex = conversation.turns.findIndex(turn =>
+    turn.role === 'staff' && WINE_CLUB_PATTERN.test(turn.spokenText)
+  );
+
+  return {
+    staffTurns: staffTurns.length,
+    guestTurns: guestTurns.length,
+    staffWords,
+    guestWords,
+    staffTalkRatio: staffWords + guestWords > 0 ? round((staffWords / (staffWords + guestWords)) * 100) : 0,
+    averageStaffTurnWords: staffTurns.length > 0 ? round(staffWords / staffTurns.length) : 0,
+    maxStaffTurnWords,
+    longestStaffTurn: longestIndex >= 0 && maxStaffTurnWords > 0 ? staffTurns[longestIndex].turnNumber : null,
+    monologueTurns: staffTurns
+      .filter((turn, index) => staffTurnWords[index] > MONOLOGUE_WORD_LIMIT)
+      .map(turn => turn.turnNumber),
+    questions,
+    firstWineClubMentionTurn: wineClubIndex >= 0 ? conversation.turns[wineClubIndex].turnNumber : null,
+    turnsUntilWineClubMention: wineClubIndex >= 0 ? wineClubIndex : null
+  };
+}
+
+// Helper function to list the metrics as label/value rows for the results page and the PDF
+export function getMetricRows(metrics: ConversationMetrics): { label: string; value: string }[] {
+  return [
+    {
+      label: 'Talk ratio (staff / guests)',
+      value: `${metrics.staffTalkRatio}% / ${round(100 - metrics.staffTalkRatio)}%`
+    },
+    {
+      label: 'Words spoken (staff / guests)',
+      value: `${metrics.staffWords} / ${metrics.guestWords}`
+    },
+    {
+      label: 'Turns (staff / guests)',
+      value: `${metrics.staffTurns} / ${metrics.guestTurns}`
+    },
+    {
+      label: 'Average staff turn',
+      value: `${metrics.averageStaffTurnWords} words`
+    },
+    {
+      label: 'Longest staff turn',
+      value: metrics.longestStaffTurn !== null
+        ? `${metrics.maxStaffTurnWords} words (turn ${metrics.longestStaffTurn})`
+        : 'None'
+    },
+    {
+      label: `Monologues (over ${MONOLOGUE_WORD_LIMIT} words)`,
+      value: metrics.monologueTurns.length > 0
+        ? `${metrics.monologueTurns.length} (turn${metrics.monologueTurns.length > 1 ? 's' : ''} ${metrics.monologueTurns.join(', ')})`
+        : 'None'
+    },
+    {
+      label: 'Questions asked (open / closed)',
+      value: `${metrics.questions.total} (${metrics.questions.open} / ${metrics.questions.closed})`
+    },
+    {
+      label: 'Turns until wine club mention',
+      value: metrics.firstWineClubMentionTurn !== null
+        ? `${metrics.turnsUntilWineClubMention} (first mentioned in turn ${metrics.firstWineClubMentionTurn})`
+        : 'Never mentioned'
+    }
+  ];
+}
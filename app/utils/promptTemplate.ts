@@ -0,0 +1,361 @@
+import {
+  PromptLibrary,
+  PromptLibraryListing,
+  PromptLibraryValidationResult,
+  PromptReference,
+  PromptSection,
+  PromptTemplate,
+  PromptTemplateParseError,
+  PromptTemplateParseResult,
+  PromptTemplateSummary,
+  PromptVariables
+} from '../types/prompt';
+import { Conversation } from '../types/conversation';
+import { Rubric } from '../types/rubric';
+import { NON_VERBAL_INSTRUCTIONS } from './conversation';
+import { EVALUATION_TOOL_NAME, WINDOW_EVIDENCE_TOOL_NAME } from './evaluationSchema';
+import { EVIDENCE_INSTRUCTIONS } from './evidence';
+import { GUEST_ROSTER_INSTRUCTIONS } from './guests';
+import {
+  CHECKLIST_INSTRUCTIONS,
+  describeObservationalNotesField,
+  describePerformanceBands,
+  formatRubricForPrompt,
+  getMaxWeightedScore,
+  getPerformanceLevel,
+  NOT_APPLICABLE_INSTRUCTIONS
+} from './rubric';
+
+export const PROMPT_LIBRARY_URL = '/api/prompts';
+
+// Headings of the template sections, in the order they appear in a template file
+export const PROMPT_SECTION_HEADINGS: Record<PromptSection, string> = {
+  system: 'System',
+  evaluation: 'Evaluation',
+  windowEvidence: 'Window Evidence',
+  windowMerge: 'Window Merge'
+};
+
+// Variables every section can use
+const COMMON_VARIABLES = [
+  'rubric', 'rubricName', 'staffName', 'date', 'exampleEvaluation', 'turnCount',
+  'criteriaCount', 'minScore', 'maxScore', 'maxWeightedScore', 'performanceLevels', 'observationalNotesField',
+  'evaluationTool', 'windowEvidenceTool',
+  'nonVerbalInstructions', 'notApplicableInstructions', 'checklistInstructions', 'evidenceInstructions', 'guestRosterInstructions'
+];
+
+// Variables each section can use. In the Window Evidence section {{conversation}} and {{guestReactionSignals}}
+// are those of the window being reviewed, not of the whole conversation.
+export const PROMPT_VARIABLES: Record<PromptSection, string[]> = {
+  system: COMMON_VARIABLES,
+  evaluation: [...COMMON_VARIABLES, 'conversation', 'guestReactionSignals', 'guestRoster'],
+  windowEvidence: [
+    ...COMMON_VARIABLES, 'conversation', 'guestReactionSignals',
+    'windowNumber', 'windowCount', 'startTurn', 'endTurn', 'windowPosition'
+  ],
+  windowMerge: [
+    ...COMMON_VARIABLES, 'guestReactionSignals', 'guestRoster', 'windowCount',
+    'openingTurns', 'closingTurns', 'sectionSummaries', 'evidenceByCriterion'
+  ]
+};
+
+// Variables a section must use, without them the prompt would not contain what is evaluated
+const REQUIRED_VARIABLES: Record<PromptSection, string[]> = {
+  system: [],
+  evaluation: ['rubric', 'conversation'],
+  windowEvidence: ['rubric', 'conversation'],
+  windowMerge: ['rubric', 'evidenceByCriterion']
+};
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z]+)\s*\}\}/g;
+
+// Helper function to create empty template sections
+function createEmptySections(): Record<PromptSection, string> {
+  return { system: '', evaluation: '', windowEvidence: '', windowMerge: '' };
+}
+
+// Helper function to find the section a "## <Heading>" line starts
+function findSectionByHeading(heading: string): PromptSection | undefined {
+  return (Object.keys(PROMPT_SECTION_HEADINGS) as PromptSection[])
+    .find(section => PROMPT_SECTION_HEADINGS[section].toLowerCase() === heading.toLowerCase());
+}
+
+// Helper function to list the variables a piece of template text uses, in order of first use
+export function findTemplateVariables(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1])));
+}
+
+/**
+ * Parses a prompt template. Each prompt is a "## <Heading>" section of the markdown, with {{variable}}
+ * placeholders that are filled in when the prompt is sent. A "# Title" line before the first section is ignored.
+ * Every section must be present, use only the variables listed for it and use the ones it requires.
+ * @param markdown The template markdown, e.g. public/data/prompts/wine-sales-trainer.md
+ * @returns The section texts and any problems found
+ */
+export function parsePromptTemplate(markdown: string): PromptTemplateParseResult {
+  const errors: PromptTemplateParseError[] = [];
+  const sections = createEmptySections();
+  const sectionLines: Partial<Record<PromptSection, { line: number; text: string }[]>> = {};
+  const lines = markdown.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  let current: PromptSection | null = null;
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    const headingMatch = line.match(/^##\s+(.+?)\s*$/);
+    if (headingMatch) {
+      const section = findSectionByHeading(headingMatch[1]);
+      if (!section) {
+        errors.push({ line: lineNumber, message: `Unknown section "${headingMatch[1]}", use ${Object.values(PROMPT_SECTION_HEADINGS).join(', ')}` });
+        current = null;
+      } else if (sectionLines[section]) {
+        errors.push({ line: lineNumber, message: `The ${PROMPT_SECTION_HEADINGS[section]} section appears more than once` });
+        current = null;
+      } else {
+        sectionLines[section] = [];
+        current = section;
+      }
+      return;
+    }
+
+    if (current) {
+      sectionLines[current]!.push({ line: lineNumber, text: line });
+    } else if (line.trim() && !/^#\s+/.test(line)) {
+      errors.push({ line: lineNumber, message: 'Text outside a section is not part of any prompt' });
+    }
+  });
+
+  (Object.keys(PROMPT_SECTION_HEADINGS) as PromptSection[]).forEach(section => {
+    const heading = PROMPT_SECTION_HEADINGS[section];
+    const entries = sectionLines[section];
+    if (!entries) {
+      errors.push({ line: 0, message: `The ${heading} section is missing` });
+      return;
+    }
+
+    entries.forEach(entry => {
+      findTemplateVariables(entry.text)
+        .filter(variable => !PROMPT_VARIABLES[section].includes(variable))
+        .forEach(variable => {
+          errors.push({ line: entry.line, message: `{{${variable}}} cannot be used in the ${heading} section` });
+        });
+    });
+
+    sections[section] = entries.map(entry => entry.text).join('\n').trim();
+    if (!sections[section]) {
+      errors.push({ line: 0, message: `The ${heading} section is empty` });
+      return;
+    }
+    const used = findTemplateVariables(sections[section]);
+    REQUIRED_VARIABLES[section]
+      .filter(variable => !used.includes(variable))
+      .forEach(variable => {
+        errors.push({ line: 0, message: `The ${heading} section must use {{${variable}}}` });
+      });
+  });
+
+  return { isValid: errors.length === 0, errors, sections };
+}
+
+// Helper function to format template parse errors for display, one per line
+export function formatPromptTemplateErrors(errors: PromptTemplateParseError[]): string[] {
+  return errors.map(error => (error.line > 0 ? `Line ${error.line}: ${error.message}` : error.message));
+}
+
+/**
+ * Fills in the {{variable}} placeholders of a template section
+ * @param text The section text
+ * @param variables The value of every variable the section uses
+ * @returns The prompt
+ * @throws Error when the section uses a variable that has no value
+ */
+export function renderPrompt(text: string, variables: Partial<PromptVariables>): string {
+  return text.replace(VARIABLE_PATTERN, (_, name: string) => {
+    const value = variables[name];
+    if (value === undefined) {
+      throw new Error(`The prompt variable {{${name}}} has no value`);
+    }
+    return String(value);
+  });
+}
+
+/**
+ * Validates the prompt library file, public/data/prompts/index.json
+ * @param input The parsed JSON
+ * @returns The library and any problems found
+ */
+export function validatePromptLibrary(input: any): PromptLibraryValidationResult {
+  const errors: string[] = [];
+  const library: PromptLibrary = { defaultTemplateId: '', templates: [] };
+
+  if (!input || typeof input !== 'object' || !Array.isArray(input.templates)) {
+    errors.push('Prompt library must be an object with a "templates" array');
+    return { isValid: false, errors, library };
+  }
+
+  input.templates.forEach((entry: any, index: number) => {
+    if (!entry || typeof entry.id !== 'string' || !entry.id.trim()) {
+      errors.push(`Template ${index + 1}: "id" is required`);
+      return;
+    }
+    if (entry.id.includes('@')) {
+      errors.push(`Template ${index + 1} (${entry.id}): "id" cannot contain "@"`);
+      return;
+    }
+    if (typeof entry.file !== 'string' || !entry.file.endsWith('.md')) {
+      errors.push(`Template ${index + 1} (${entry.id}): "file" must be a markdown file`);
+      return;
+    }
+    if (library.templates.some(template => template.id === entry.id)) {
+      errors.push(`Template ${index + 1} (${entry.id}): "id" is used more than once`);
+      return;
+    }
+    if (entry.version !== undefined && !(Number.isInteger(entry.version) && entry.version > 0)) {
+      errors.push(`Template ${index + 1} (${entry.id}): "version" must be a whole number from 1`);
+      return;
+    }
+    library.templates.push({
+      id: entry.id.trim(),
+      name: typeof entry.name === 'string' && entry.name.trim() ? entry.name.trim() : entry.id,
+      version: entry.version ?? 1,
+      description: typeof entry.description === 'string' ? entry.description : '',
+      file: entry.file
+    });
+  });
+
+  if (library.templates.some(template => template.id === input.defaultTemplateId)) {
+    library.defaultTemplateId = input.defaultTemplateId;
+  } else {
+    errors.push(`"defaultTemplateId" must be the id of a template in the library`);
+    library.defaultTemplateId = library.templates[0]?.id || '';
+  }
+
+  return { isValid: errors.length === 0, errors, library };
+}
+
+// Helper function to find a template in the library by id
+export function findPromptTemplateSummary(library: PromptLibrary, templateId: string): PromptTemplateSummary | undefined {
+  return library.templates.find(template => template.id === templateId);
+}
+
+/**
+ * Reads the PROMPT_TEMPLATE setting: a template id, optionally pinned to a version with "@<version>",
+ * e.g. "general-manager" or "wine-sales-trainer@1"
+ * @param setting The value of the setting
+ * @returns The template id and version, no version for the current one
+ * @throws Error when the version is not a whole number from 1
+ */
+export function parsePromptTemplateSetting(setting: string): { id: string; version?: number } {
+  const [id, versionText] = setting.trim().split('@');
+  if (versionText === undefined) {
+    return { id };
+  }
+  const version = Number(versionText.replace(/^v/i, ''));
+  if (!(Number.isInteger(version) && version > 0)) {
+    throw new Error(`Invalid prompt template version in "${setting}", use <id>@<version>, e.g. ${id}@1`);
+  }
+  return { id, version };
+}
+
+// Helper function to get the reference to a template that is recorded on an evaluation
+export function getPromptReference(template: PromptTemplate): PromptReference {
+  return { id: template.id, version: template.version };
+}
+
+/**
+ * Fits an example evaluation to a rubric for the {{exampleEvaluation}} variable. Criteria are matched by name,
+ * the rubric's other criteria take the example's remaining scores in order, and the scores are kept within the
+ * rubric's scale. The example shows the tone and detail of the notes and feedback, so citations are left out.
+ * @param example The example evaluation, e.g. public/data/evaluation_new.json
+ * @param rubric The rubric the prompt is for
+ * @returns The example as formatted JSON
+ */
+export function formatExampleEvaluation(example: any, rubric: Rubric): string {
+  const exampleScores: any[] = Array.isArray(example?.criteriaScores) ? example.criteriaScores : [];
+  const unmatched = exampleScores.filter(item => !rubric.criteria.some(criterion => criterion.name === item?.criterion));
+  const clampScore = (score: any) => Math.min(rubric.maxScore, Math.max(rubric.minScore, Number(score) || rubric.minScore));
+
+  let nextUnmatched = 0;
+  const criteriaScores = rubric.criteria.map(criterion => {
+    const item = exampleScores.find(entry => entry?.criterion === criterion.name) ||
+      unmatched[nextUnmatched++ % Math.max(unmatched.length, 1)] || { notes: '' };
+    const score = clampScore(item.score);
+    return {
+      criterion: criterion.name,
+      weight: criterion.weight,
+      score,
+      weightedScore: score * criterion.weight,
+      notApplicable: false,
+      notes: item.notes || ''
+    };
+  });
+
+  // The example has no observational notes, they borrow the notes of the criteria in order
+  const observationalNotes = rubric.observationalCriteria.map((criterion, index) => {
+    const item = criteriaScores[index % Math.max(criteriaScores.length, 1)];
+    return { criterion: criterion.name, score: item?.score ?? rubric.minScore, notes: item?.notes || '' };
+  });
+
+  const overallScore = Number(example?.overallScore) || 0;
+  return JSON.stringify({
+    staffName: example?.staffName || '',
+    date: example?.date || '',
+    overallScore,
+    performanceLevel: getPerformanceLevel(overallScore, rubric),
+    criteriaScores,
+    observationalNotes,
+    strengths: Array.isArray(example?.strengths) ? example.strengths : [],
+    areasForImprovement: Array.isArray(example?.areasForImprovement) ? example.areasForImprovement : [],
+    keyRecommendations: Array.isArray(example?.keyRecommendations) ? example.keyRecommendations : []
+  }, null, 2);
+}
+
+/**
+ * Gets the values of the variables every template section can use
+ * @param conversation The conversation being evaluated
+ * @param rubric The rubric it is scored against
+ * @param exampleEvaluation The example evaluation, fitted to the rubric for {{exampleEvaluation}}
+ * @returns The variable values
+ */
+export function getCommonPromptVariables(conversation: Conversation, rubric: Rubric, exampleEvaluation: any): PromptVariables {
+  return {
+    rubric: formatRubricForPrompt(rubric),
+    rubricName: rubric.name,
+    staffName: conversation.staffName || 'not stated, extract from the conversation',
+    date: conversation.date || 'not stated, extract from the conversation',
+    exampleEvaluation: formatExampleEvaluation(exampleEvaluation, rubric),
+    turnCount: conversation.turns.length,
+    criteriaCount: rubric.criteria.length,
+    minScore: rubric.minScore,
+    maxScore: rubric.maxScore,
+    maxWeightedScore: getMaxWeightedScore(rubric),
+    performanceLevels: describePerformanceBands(rubric),
+    observationalNotesField: describeObservationalNotesField(rubric),
+    evaluationTool: EVALUATION_TOOL_NAME,
+    windowEvidenceTool: WINDOW_EVIDENCE_TOOL_NAME,
+    nonVerbalInstructions: NON_VERBAL_INSTRUCTIONS,
+    notApplicableInstructions: NOT_APPLICABLE_INSTRUCTIONS,
+    checklistInstructions: CHECKLIST_INSTRUCTIONS,
+    evidenceInstructions: EVIDENCE_INSTRUCTIONS,
+    guestRosterInstructions: GUEST_ROSTER_INSTRUCTIONS
+  };
+}
+
+// Helper function to load the prompt library listing in the browser, for the prompt template admin view
+export async function fetchPromptLibrary(): Promise<PromptLibraryListing> {
+  const response = await fetch(PROMPT_LIBRARY_URL);
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.message || `Prompt library request failed with status ${response.status}`);
+  }
+  return body as PromptLibraryListing;
+}
+
+// Helper function to load a version of a prompt template in the browser
+export async function fetchPromptTemplate(templateId: string, version?: number): Promise<PromptTemplate> {
+  const response = await fetch(`${PROMPT_LIBRARY_URL}/${encodeURIComponent(templateId)}${version ? `?version=${version}` : ''}`);
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.message || `Prompt template request failed with status ${response.status}`);
+  }
+  return body as PromptTemplate;
+}
@@ -0,0 +1,94 @@
+import { CriterionScore, EvaluationData } from '../types/evaluation';
+import { Rubric, RubricChanges } from '../types/rubric';
+import {
+  applyChecklist,
+  calculateOverallScore,
+  compareRubrics,
+  createUnknownRubricChanges,
+  findCriterion,
+  getPerformanceLevel,
+  getRubricReference,
+  isScoredAgainst,
+  needsReevaluation
+} from './rubric';
+import { getOverallScoreRange } from './consistency';
+
+// Where the client sends evaluations to be re-scored
+export const RESCORE_EVALUATION_URL = '/api/rescore-evaluation';
+
+// Result of re-scoring an evaluation against a newer rubric
+export interface RescoreResult {
+  evaluation: EvaluationData;
+  changes: RubricChanges;
+  needsReevaluation: boolean;       // The stored scores cannot be trusted under the new rubric, Claude has to score again
+}
+
+/**
+ * Lists the changes between the rubric an evaluation was scored against and another rubric
+ * @param evaluation The stored evaluation
+ * @param previous The rubric version recorded on the evaluation, null when it is not available
+ * @param current The rubric to score against
+ * @returns The changes, unknown when the previous version cannot be compared
+ */
+export function getEvaluationRubricChanges(evaluation: EvaluationData, previous: Rubric | null, current: Rubric): RubricChanges {
+  if (isScoredAgainst(evaluation.rubric, current)) {
+    return compareRubrics(current, current);
+  }
+  // A previous version whose markdown was edited in place cannot be trusted for a comparison
+  if (!previous || previous.id !== current.id || !isScoredAgainst(evaluation.rubric, previous)) {
+    return createUnknownRubricChanges();
+  }
+  return compareRubrics(previous, current);
+}
+
+/**
+ * Recomputes the weighted scores, overall score and performance level of an evaluation from its stored
+ * criterion scores, without calling Claude. Criterion scores and notes are kept, and scores from a checklist are
+ * derived again with the rubric's checklist scoring; criteria that are no longer in the rubric are dropped, and
+ * criteria added to the rubric are left out until re-evaluated.
+ * @param evaluation The stored evaluation
+ * @param rubric The rubric to score against
+ * @returns The re-scored evaluation
+ */
+export function rescoreEvaluation(evaluation: EvaluationData, rubric: Rubric): EvaluationData {
+  const criteriaScores: CriterionScore[] = [];
+  for (const criterion of rubric.criteria) {
+    const stored = evaluation.criteriaScores.find(item => findCriterion(rubric, item.criterion) === criterion);
+    if (!stored) {
+      continue;
+    }
+    // A checklist score follows the rubric's current checklist scoring
+    const checklist = !stored.notApplicable && criterion.checklist ? applyChecklist(stored.checklist, criterion.checklist) : null;
+    const score = checklist ? checklist.score : stored.score;
+    criteriaScores.push({
+      ...stored,
+      criterion: criterion.name,
+      weight: criterion.weight,
+      score,
+      weightedScore: stored.notApplicable ? 0 : score * criterion.weight
+    });
+  }
+
+  const overallScore = calculateOverallScore(criteriaScores, rubric);
+  return {
+    ...evaluation,
+    criteriaScores,
+    overallScore,
+    performanceLevel: getPerformanceLevel(overallScore, rubric),
+    rubric: getRubricReference(rubric),
+    // The overall score range of a multi-sample evaluation follows the new weights too
+    ...(evaluation.consistency ? {
+      consistency: { ...evaluation.consistency, overallScoreRange: getOverallScoreRange(evaluation.consistency, rubric) }
+    } : {})
+  };
+}
+
+// Helper function to re-score an evaluation and report whether the result can be trusted
+export function rescoreWithChanges(evaluation: EvaluationData, previous: Rubric | null, current: Rubric): RescoreResult {
+  const changes = getEvaluationRubricChanges(evaluation, previous, current);
+  return {
+    evaluation: rescoreEvaluation(evaluation, current),
+    changes,
+    needsReevaluation: needsReevaluation(changes)
+  };
+}
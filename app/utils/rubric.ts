@@ -0,0 +1,934 @@
+import { ChecklistItemResult, CriterionScore, ObservationalNote, PerformanceLevel } from '../types/evaluation';
+import { ConversationScenario } from '../types/conversation';
+import {
+  CriterionChecklist,
+  ObservationalCriterion,
+  PerformanceBand,
+  Rubric,
+  RubricChanges,
+  RubricCriterion,
+  RubricLibrary,
+  RubricLibraryValidationResult,
+  RubricParseError,
+  RubricParseResult,
+  RubricReference,
+  RubricSummary,
+  ScoreDescriptor
+} from '../types/rubric';
+
+// Where the client loads the rubric library and rubrics from
+export const RUBRIC_LIBRARY_URL = '/api/rubrics';
+
+// Colors of the standard performance levels, used when a rubric does not give a band a color
+export const DEFAULT_BAND_COLORS: Record<string, string> = {
+  'exceptional': '#059669',
+  'strong': '#10B981',
+  'proficient': '#EAB308',
+  'developing': '#F97316',
+  'needs improvement': '#EF4444'
+};
+
+// Colors for other levels, from the highest band down
+const BAND_COLOR_SCALE = ['#059669', '#10B981', '#EAB308', '#F97316', '#EF4444', '#B91C1C'];
+
+// Color for a level that is not in the rubric
+export const UNKNOWN_BAND_COLOR = '#6B7280';
+
+// "### 1. Initial Greeting and Welcome (Weight: 8%)" or "### 11. Product Knowledge (No Weight - Observational Only)"
+const CRITERION_HEADING_PATTERN = /^###\s+(?:\d+\.\s*)?(.+?)\s*\((?:Weight:\s*(\d+(?:\.\d+)?)\s*%|((?:No Weight|Observational)[^)]*))\)\s*$/i;
+const DESCRIPTOR_ROW_PATTERN = /^\|\s*(\d+)\s*\|\s*(.+?)\s*\|\s*$/;
+// "* **Exceptional**: 90-100%" or "* **Needs Improvement**: Below 60%", optionally followed by a color and a description,
+// e.g. "* **Exceeds Expectations**: 85-100% (#059669) - Goes beyond what the role requires"
+const BAND_PATTERN = /^[*-]\s+\*\*(.+?)\*\*:?\s*(?:(\d+)\s*-\s*(\d+)\s*%|below\s+(\d+)\s*%)(?:\s*\((#[0-9a-f]{3}(?:[0-9a-f]{3})?)\))?(?:\s*[-:\u2013\u2014]\s*(.+?))?\s*$/i;
+const COLOR_PATTERN = /^#[0-9a-f]{3}(?:[0-9a-f]{3})?$/i;
+// "**Checklist** (each item met or not met):" followed by "- Asked for the guest's email" items
+const CHECKLIST_HEADING_PATTERN = /^\*\*Checklist\*\*/i;
+const CHECKLIST_ITEM_PATTERN = /^[-*]\s+(?:\[[ x]?\]\s*)?(.+)$/i;
+// "**Checklist scoring**: 0 met = 1, 1 met = 2, 2 met = 3"
+const CHECKLIST_SCORING_PATTERN = /^\*\*Checklist scoring\*\*:?\s*(.*)$/i;
+const CHECKLIST_RULE_PATTERN = /(\d+)\s*met\s*=\s*(\d+)/gi;
+
+// Helper function to turn a criterion name into a camelCase id, e.g. "Product Knowledge" -> "productKnowledge"
+export function toCriterionId(name: string): string {
+  const words = name.replace(/[^A-Za-z0-9\s]/g, ' ').trim().split(/\s+/).filter(Boolean);
+  return words
+    .map((word, index) => index === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase())
+    .join('');
+}
+
+// Helper function to create an empty rubric
+function createEmptyRubric(): Rubric {
+  return {
+    id: '',
+    name: '',
+    version: 1,
+    contentHash: '',
+    title: '',
+    overview: '',
+    minScore: 1,
+    maxScore: 5,
+    criteria: [],
+    observationalCriteria: [],
+    performanceBands: []
+  };
+}
+
+/**
+ * Parses the rubric markdown into a typed rubric.
+ * Weighted criteria, observational criteria and performance levels are read from their headings,
+ * score tables and bullet lists, and the weights are checked to add up to 100%.
+ * @param markdown The rubric markdown, e.g. public/data/rubrics/first-time-tasting.md
+ * @returns The rubric and any problems found
+ */
+export function parseRubric(markdown: string): RubricParseResult {
+  const errors: RubricParseError[] = [];
+  const rubric = createEmptyRubric();
+  const lines = markdown.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  let section = '';
+  let current: RubricCriterion | ObservationalCriterion | null = null;
+  const overviewLines: string[] = [];
+
+  lines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.trim();
+
+    if (/^#\s+/.test(line) && !rubric.title) {
+      rubric.title = line.replace(/^#\s+/, '');
+      return;
+    }
+
+    if (/^##\s+/.test(line)) {
+      section = line.replace(/^##\s+/, '').toLowerCase();
+      current = null;
+      return;
+    }
+
+    if (/^###\s+/.test(line)) {
+      current = null;
+      const match = line.match(CRITERION_HEADING_PATTERN);
+      if (match) {
+        const name = match[1].trim();
+        const base = { id: toCriterionId(name), name, description: '', descriptors: [] as ScoreDescriptor[] };
+        if (match[2] !== undefined) {
+          const criterion: RubricCriterion = { ...base, weight: parseFloat(match[2]) };
+          rubric.criteria.push(criterion);
+          current = criterion;
+        } else {
+          rubric.observationalCriteria.push(base);
+          current = base;
+        }
+      } else if (section.includes('criteria') || section.includes('factors')) {
+        errors.push({ line: lineNumber, message: `Criterion heading needs a weight, e.g. "(Weight: 10%)" or "(No Weight - Observational Only)": ${line}` });
+      }
+      return;
+    }
+
+    if (current) {
+      const descriptorMatch = line.match(DESCRIPTOR_ROW_PATTERN);
+      const scoringMatch = line.match(CHECKLIST_SCORING_PATTERN);
+      const itemMatch = line.match(CHECKLIST_ITEM_PATTERN);
+      if (descriptorMatch) {
+        current.descriptors.push({ score: parseInt(descriptorMatch[1], 10), description: descriptorMatch[2] });
+      } else if (scoringMatch || CHECKLIST_HEADING_PATTERN.test(line)) {
+        if (!('weight' in current)) {
+          errors.push({ line: lineNumber, message: `Only weighted criteria can have a checklist: ${current.name}` });
+          return;
+        }
+        current.checklist = current.checklist || { items: [], scoring: [] };
+        if (scoringMatch) {
+          const rules = Array.from(scoringMatch[1].matchAll(CHECKLIST_RULE_PATTERN));
+          if (rules.length === 0) {
+            errors.push({ line: lineNumber, message: `Checklist scoring needs rules such as "0 met = 1, 2 met = 3, 4 met = 5": ${line}` });
+          }
+          current.checklist.scoring = rules
+            .map(rule => ({ met: parseInt(rule[1], 10), score: parseInt(rule[2], 10) }))
+            .sort((a, b) => a.met - b.met);
+        }
+      } else if ('checklist' in current && current.checklist && itemMatch) {
+        current.checklist.items.push(itemMatch[1].trim());
+      } else if (/^\*[^*].*\*$/.test(line) && !current.description) {
+        current.description = line.replace(/^\*|\*$/g, '').trim();
+      }
+      return;
+    }
+
+    if (section === 'overview' && line) {
+      overviewLines.push(line);
+      return;
+    }
+
+    const bandMatch = line.match(BAND_PATTERN);
+    if (bandMatch) {
+      const level = bandMatch[1].trim();
+      const range = bandMatch[4] !== undefined
+        ? { minScore: 0, maxScore: parseInt(bandMatch[4], 10) - 1 }
+        : { minScore: parseInt(bandMatch[2], 10), maxScore: parseInt(bandMatch[3], 10) };
+      rubric.performanceBands.push({ level, ...range, color: bandMatch[5] || '', description: bandMatch[6] || '' });
+    }
+  });
+
+  rubric.overview = overviewLines.join(' ');
+  rubric.name = rubric.title;
+  rubric.performanceBands.sort((a, b) => b.minScore - a.minScore);
+  rubric.performanceBands.forEach((band, index) => {
+    band.color = band.color || getDefaultBandColor(band.level, index);
+  });
+
+  // The score scale is taken from the descriptor tables
+  const scores = [...rubric.criteria, ...rubric.observationalCriteria].flatMap(criterion => criterion.descriptors.map(item => item.score));
+  if (scores.length > 0) {
+    rubric.minScore = Math.min(...scores);
+    rubric.maxScore = Math.max(...scores);
+  }
+
+  errors.push(...checkRubric(rubric));
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    rubric
+  };
+}
+
+// Helper function to check a rubric for problems that are not tied to a line
+export function checkRubric(rubric: Rubric): RubricParseError[] {
+  const errors: RubricParseError[] = [];
+
+  if (rubric.criteria.length === 0) {
+    errors.push({ line: 0, message: 'No weighted criteria found' });
+  }
+
+  const totalWeight = getTotalWeight(rubric);
+  if (rubric.criteria.length > 0 && Math.abs(totalWeight - 100) > 0.01) {
+    errors.push({ line: 0, message: `Criterion weights add up to ${totalWeight}%, they must add up to 100%` });
+  }
+
+  const ids = new Set<string>();
+  for (const criterion of [...rubric.criteria, ...rubric.observationalCriteria]) {
+    if (!criterion.name.trim()) {
+      errors.push({ line: 0, message: 'A criterion has no name' });
+      continue;
+    }
+    if (ids.has(criterion.id)) {
+      errors.push({ line: 0, message: `Criterion "${criterion.name}" is defined more than once` });
+    }
+    ids.add(criterion.id);
+
+    const missing: number[] = [];
+    for (let score = rubric.minScore; score <= rubric.maxScore; score++) {
+      if (!criterion.descriptors.some(item => item.score === score && item.description.trim())) {
+        missing.push(score);
+      }
+    }
+    if (missing.length > 0) {
+      errors.push({ line: 0, message: `Criterion "${criterion.name}" has no description for score ${missing.join(', ')}` });
+    }
+    const checklist = (criterion as RubricCriterion).checklist;
+    if (checklist) {
+      errors.push(...checkChecklist(criterion.name, checklist, rubric));
+    }
+  }
+
+  if (rubric.performanceBands.length === 0) {
+    errors.push({ line: 0, message: 'No performance levels found' });
+  }
+  errors.push(...checkPerformanceBands(rubric.performanceBands));
+
+  return errors;
+}
+
+// Helper function to check that a checklist has items and scoring that covers every number of items met
+export function checkChecklist(name: string, checklist: CriterionChecklist, rubric: Rubric): RubricParseError[] {
+  const errors: RubricParseError[] = [];
+  if (checklist.items.length === 0 || checklist.items.some(item => !item.trim())) {
+    errors.push({ line: 0, message: `Criterion "${name}" has a checklist with an empty item or no items` });
+  }
+  if (checklist.scoring.length === 0) {
+    errors.push({ line: 0, message: `Criterion "${name}" has a checklist but no checklist scoring, e.g. "**Checklist scoring**: 0 met = 1, 2 met = 3, 4 met = 5"` });
+    return errors;
+  }
+  if (checklist.scoring[0].met !== 0) {
+    errors.push({ line: 0, message: `The checklist scoring of "${name}" must start at 0 met` });
+  }
+  const counts = new Set<number>();
+  for (const rule of checklist.scoring) {
+    if (counts.has(rule.met)) {
+      errors.push({ line: 0, message: `The checklist scoring of "${name}" lists ${rule.met} met more than once` });
+    }
+    counts.add(rule.met);
+    if (rule.met > checklist.items.length) {
+      errors.push({ line: 0, message: `The checklist scoring of "${name}" counts ${rule.met} met, but the checklist has ${checklist.items.length} items` });
+    }
+    if (rule.score < rubric.minScore || rule.score > rubric.maxScore) {
+      errors.push({ line: 0, message: `The checklist scoring of "${name}" gives a score of ${rule.score}, scores go from ${rubric.minScore} to ${rubric.maxScore}` });
+    }
+  }
+  return errors;
+}
+
+// Helper function to check that the performance levels cover 0-100% without gaps or overlaps, highest band first
+export function checkPerformanceBands(bands: PerformanceBand[]): RubricParseError[] {
+  const errors: RubricParseError[] = [];
+  if (bands.length === 0) {
+    return errors;
+  }
+
+  const labels = new Set<string>();
+  bands.forEach((band, index) => {
+    if (!band.level.trim()) {
+      errors.push({ line: 0, message: 'A performance level has no label' });
+    } else if (labels.has(band.level.toLowerCase())) {
+      errors.push({ line: 0, message: `Performance level "${band.level}" is defined more than once` });
+    }
+    labels.add(band.level.toLowerCase());
+
+    if (band.minScore > band.maxScore) {
+      errors.push({ line: 0, message: `Performance level "${band.level}" starts at ${band.minScore}% but ends at ${band.maxScore}%` });
+    }
+    if (band.color && !COLOR_PATTERN.test(band.color)) {
+      errors.push({ line: 0, message: `Performance level "${band.level}" has an invalid color "${band.color}", use a hex color such as #10B981` });
+    }
+    const lower = bands[index + 1];
+    if (lower && lower.maxScore + 1 !== band.minScore) {
+      errors.push({ line: 0, message: `Performance levels "${lower.level}" (up to ${lower.maxScore}%) and "${band.level}" (from ${band.minScore}%) must meet without a gap or overlap` });
+    }
+  });
+
+  if (bands[0].maxScore !== 100) {
+    errors.push({ line: 0, message: `The highest performance level must go up to 100%, "${bands[0].level}" ends at ${bands[0].maxScore}%` });
+  }
+  if (bands[bands.length - 1].minScore !== 0) {
+    errors.push({ line: 0, message: `The lowest performance level must start at 0%, "${bands[bands.length - 1].level}" starts at ${bands[bands.length - 1].minScore}%` });
+  }
+
+  return errors;
+}
+
+// Helper function to turn rubric errors into readable messages
+export function formatRubricErrors(errors: RubricParseError[]): string[] {
+  return errors.map(error => (error.line > 0 ? `Line ${error.line}: ${error.message}` : error.message));
+}
+
+// Helper function to add up the criterion weights, 100 for a valid rubric
+export function getTotalWeight(rubric: Rubric): number {
+  return rubric.criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+}
+
+// Helper function to get the highest possible sum of weighted scores, e.g. 500 for weights totalling 100 and scores up to 5
+export function getMaxWeightedScore(rubric: Rubric): number {
+  return getTotalWeight(rubric) * rubric.maxScore;
+}
+
+// Helper function to keep text on one line and out of the table syntax
+function toMarkdownCell(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/\|/g, '/').trim();
+}
+
+// Helper function to write a criterion's heading, question and score table
+function formatCriterionMarkdown(criterion: RubricCriterion | ObservationalCriterion, number: number, weightLabel: string): string[] {
+  const lines = [`### ${number}. ${toMarkdownCell(criterion.name)} (${weightLabel})`];
+  if (criterion.description.trim()) {
+    lines.push(`*${toMarkdownCell(criterion.description)}*`);
+  }
+  lines.push('', '| Score | Description |', '|-------|-------------|');
+  [...criterion.descriptors]
+    .sort((a, b) => a.score - b.score)
+    .forEach(item => lines.push(`| ${item.score} | ${toMarkdownCell(item.description)} |`));
+  if ('checklist' in criterion && criterion.checklist) {
+    lines.push(
+      '',
+      '**Checklist** (each item met or not met):',
+      ...criterion.checklist.items.map(item => `- ${toMarkdownCell(item)}`),
+      '',
+      `**Checklist scoring**: ${formatChecklistScoring(criterion.checklist)}`
+    );
+  }
+  lines.push('');
+  return lines;
+}
+
+/**
+ * Writes a rubric back to markdown in the layout parseRubric reads, e.g. after it was changed in the rubric editor
+ * @param rubric The rubric
+ * @returns The rubric markdown
+ */
+export function formatRubricMarkdown(rubric: Rubric): string {
+  const lines = [`# ${toMarkdownCell(rubric.title || rubric.name)}`, ''];
+  if (rubric.overview.trim()) {
+    lines.push('## Overview', rubric.overview.trim(), '');
+  }
+
+  lines.push('## Evaluation Criteria', '');
+  rubric.criteria.forEach((criterion, index) => {
+    lines.push(...formatCriterionMarkdown(criterion, index + 1, `Weight: ${criterion.weight}%`));
+  });
+
+  if (rubric.observationalCriteria.length > 0) {
+    lines.push('## Additional Evaluation Factors', '');
+    rubric.observationalCriteria.forEach((criterion, index) => {
+      lines.push(...formatCriterionMarkdown(criterion, rubric.criteria.length + index + 1, 'No Weight - Observational Only'));
+    });
+  }
+
+  lines.push(
+    '## Scoring Guide',
+    '',
+    '### Calculating the Final Score',
+    `1. For each criterion, assign a score from ${rubric.minScore}-${rubric.maxScore}`,
+    "2. Multiply each score by the criterion's weight",
+    '3. Sum all weighted scores',
+    `4. Divide by the total possible points (${getMaxWeightedScore(rubric)}) and multiply by 100 to get a percentage`,
+    '',
+    '### Performance Levels'
+  );
+  rubric.performanceBands.forEach(band => {
+    const range = band.minScore === 0 && band.maxScore < 100 ? `Below ${band.maxScore + 1}%` : `${band.minScore}-${band.maxScore}%`;
+    const color = band.color ? ` (${band.color})` : '';
+    const description = band.description.trim() ? ` - ${toMarkdownCell(band.description)}` : '';
+    lines.push(`* **${toMarkdownCell(band.level)}**: ${range}${color}${description}`);
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+// Helper function to pick a color for a band that has none, by its level name or its rank
+export function getDefaultBandColor(level: string, index: number): string {
+  return DEFAULT_BAND_COLORS[level.trim().toLowerCase()] || BAND_COLOR_SCALE[Math.min(index, BAND_COLOR_SCALE.length - 1)];
+}
+
+// Helper function to get the lowest performance level, used before an evaluation has a score
+export function getLowestPerformanceLevel(rubric: Rubric): PerformanceLevel {
+  return rubric.performanceBands[rubric.performanceBands.length - 1]?.level || '';
+}
+
+// Helper function to get the performance level for an overall percentage score
+export function getPerformanceLevel(score: number, rubric: Rubric): PerformanceLevel {
+  const band = rubric.performanceBands.find(item => score >= item.minScore);
+  return band ? band.level : getLowestPerformanceLevel(rubric);
+}
+
+// Helper function to find a performance band by its level, ignoring case
+export function findPerformanceBand(rubric: Rubric, level: string): PerformanceBand | undefined {
+  const key = (level || '').trim().toLowerCase();
+  return rubric.performanceBands.find(band => band.level.toLowerCase() === key);
+}
+
+// Helper function to get the color of a performance level, gray for a level that is not in the rubric
+export function getPerformanceLevelColor(rubric: Rubric | null, level: string): string {
+  return (rubric && findPerformanceBand(rubric, level)?.color) || UNKNOWN_BAND_COLOR;
+}
+
+// Tells the evaluator when a criterion may be marked not applicable instead of scored
+export const NOT_APPLICABLE_INSTRUCTIONS = `A criterion may be marked not applicable only when the conversation gave the staff member no real opportunity for it, for example a returning club member cannot be pitched the wine club, or a quick bottle pickup has no moment for storytelling. For such a criterion set "notApplicable": true, "score": null and "weightedScore": 0, and explain in the notes why there was no opportunity. A missed opportunity is not "not applicable" and must be scored. Not applicable criteria are left out of the overall score: divide the sum of weighted scores by the highest possible weighted score of the remaining criteria only.`;
+
+export const CHECKLIST_INSTRUCTIONS = `Some criteria have a checklist. For those criteria add a "checklist" array to the criterion score with one object per checklist item, in rubric order: "item" (the checklist item text), "met" (true or false) and "evidence" (a quote or a short description of what happened in the conversation, empty when not met). Mark an item met only when the conversation shows it. The score of such a criterion is the score its checklist scoring gives for the number of items met.`;
+
+// Helper function to get the score for a number of met checklist items
+export function getChecklistScore(checklist: CriterionChecklist, metCount: number): number {
+  const rule = [...checklist.scoring].reverse().find(item => metCount >= item.met);
+  return rule ? rule.score : checklist.scoring[0]?.score ?? 0;
+}
+
+// Helper function to compare checklist item text, ignoring case and punctuation
+function toChecklistKey(text: any): string {
+  return String(text ?? '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Matches the evaluator's checklist to the criterion's checklist items and derives the criterion score from it.
+ * Items the evaluator left out count as not met.
+ * @param results The checklist array the evaluator returned for the criterion
+ * @param checklist The criterion's checklist in the rubric
+ * @returns One result per checklist item, the derived score and the items that were left out, null when there is no checklist array
+ */
+export function applyChecklist(results: any, checklist: CriterionChecklist): { checklist: ChecklistItemResult[]; score: number; missing: string[] } | null {
+  if (!Array.isArray(results)) {
+    return null;
+  }
+  const missing: string[] = [];
+  const items = checklist.items.map((item, index) => {
+    const result = results.find(entry => toChecklistKey(entry?.item) === toChecklistKey(item))
+      || (results.length === checklist.items.length ? results[index] : undefined);
+    if (!result || typeof result !== 'object') {
+      missing.push(item);
+      return { item, met: false, evidence: '' };
+    }
+    const met = result.met === true || /^(true|yes|met)$/i.test(String(result.met).trim());
+    return { item, met, evidence: met && result.evidence ? String(result.evidence) : '' };
+  });
+  return {
+    checklist: items,
+    score: getChecklistScore(checklist, items.filter(item => item.met).length),
+    missing
+  };
+}
+
+// Helper function to check whether the evaluator marked a criterion score not applicable, e.g. "notApplicable": true or "score": "N/A"
+export function isNotApplicableScore(item: any): boolean {
+  return item?.notApplicable === true || item?.score === null || /^n\/?a$/i.test(String(item?.score ?? '').trim());
+}
+
+// Helper function to calculate the overall percentage score from the criteria scores.
+// Not applicable criteria are left out, so the remaining weights count for the whole score.
+export function calculateOverallScore(criteriaScores: CriterionScore[], rubric: Rubric): number {
+  const totalWeightedScore = criteriaScores
+    .filter(criterion => !criterion.notApplicable)
+    .reduce((total, criterion) => total + criterion.weightedScore, 0);
+  const notApplicableWeight = criteriaScores
+    .filter(criterion => criterion.notApplicable)
+    .reduce((total, criterion) => total + criterion.weight, 0);
+  const maxWeightedScore = getMaxWeightedScore(rubric) - notApplicableWeight * rubric.maxScore;
+  return maxWeightedScore > 0 ? Math.round((totalWeightedScore / maxWeightedScore) * 100) : 0;
+}
+
+// Helper function to find a criterion by id or name, ignoring case
+export function findCriterion(rubric: Rubric, nameOrId: string): RubricCriterion | undefined {
+  const key = (nameOrId || '').trim().toLowerCase();
+  return rubric.criteria.find(criterion => criterion.id.toLowerCase() === key || criterion.name.toLowerCase() === key);
+}
+
+// Helper function to find an observational criterion by id or name, ignoring case
+export function findObservationalCriterion(rubric: Rubric, nameOrId: string): ObservationalCriterion | undefined {
+  const key = (nameOrId || '').trim().toLowerCase();
+  return rubric.observationalCriteria.find(criterion => criterion.id.toLowerCase() === key || criterion.name.toLowerCase() === key);
+}
+
+// Placeholder notes that results stored before observational notes were validated may contain
+const PLACEHOLDER_OBSERVATIONAL_NOTES = /^Default .* notes$/;
+
+// Helper function to list observational notes, including results stored before they were a list,
+// e.g. { productKnowledge: { score, notes } }. Placeholder notes are left out.
+export function listObservationalNotes(notes: any): ObservationalNote[] {
+  const items: any[] = Array.isArray(notes)
+    ? notes
+    : notes && typeof notes === 'object'
+      ? Object.entries(notes).map(([key, note]: [string, any]) => note && typeof note === 'object' ? { ...note, criterion: note.criterion || key } : null)
+      : [];
+  return items.filter(note => note && typeof note === 'object' && !PLACEHOLDER_OBSERVATIONAL_NOTES.test(String(note.notes)));
+}
+
+/**
+ * Matches the evaluator's observational notes to the rubric's observational criteria. Notes without
+ * a usable score or text are reported as missing and left out rather than filled with placeholder text.
+ * @param notes The observationalNotes field of an evaluation
+ * @param rubric The rubric
+ * @returns One note per observational criterion that was scored, in rubric order, and the names of the missing ones
+ */
+export function matchObservationalNotes(notes: any, rubric: Rubric): { notes: ObservationalNote[]; missing: string[] } {
+  const items = listObservationalNotes(notes);
+  const result: { notes: ObservationalNote[]; missing: string[] } = { notes: [], missing: [] };
+  for (const criterion of rubric.observationalCriteria) {
+    const item = items.find(note => findObservationalCriterion(rubric, String(note.criterion)) === criterion);
+    const score = typeof item?.score === 'number' || typeof item?.score === 'string' ? Number(item.score) : NaN;
+    if (!item || !item.notes || isNaN(score)) {
+      result.missing.push(criterion.name);
+      continue;
+    }
+    result.notes.push({
+      criterion: criterion.name,
+      score: Math.min(rubric.maxScore, Math.max(rubric.minScore, score)),
+      notes: String(item.notes)
+    });
+  }
+  return result;
+}
+
+// Helper function to describe the observationalNotes field the prompts ask for
+export function describeObservationalNotesField(rubric: Rubric): string {
+  if (rubric.observationalCriteria.length === 0) {
+    return 'observationalNotes (empty array, this rubric has no observational criteria)';
+  }
+  return `observationalNotes (array of ${rubric.observationalCriteria.length} objects with criterion, score(${rubric.minScore}-${rubric.maxScore}) and notes, one for each observational criterion: ${rubric.observationalCriteria.map(criterion => criterion.name).join(', ')})`;
+}
+
+// Helper function to find the description of a score for a criterion
+export function getScoreDescriptor(criterion: RubricCriterion | ObservationalCriterion, score: number): string | null {
+  return criterion.descriptors.find(item => item.score === Math.round(score))?.description || null;
+}
+
+// Helper function to describe a performance band, e.g. "90-100%" or "below 60%"
+export function formatBandRange(band: PerformanceBand): string {
+  return band.minScore === 0 && band.maxScore < 100 ? `below ${band.maxScore + 1}%` : `${band.minScore}-${band.maxScore}%`;
+}
+
+// Helper function to list the performance levels for a prompt, e.g. "Exceptional (90-100%), ..., Needs Improvement (below 60%)"
+export function describePerformanceBands(rubric: Rubric): string {
+  return rubric.performanceBands.map(band => `${band.level} (${formatBandRange(band)})`).join(', ');
+}
+
+// Helper function to describe a checklist's scoring, e.g. "0 met = 1, 2 met = 3, 4 met = 5"
+export function formatChecklistScoring(checklist: CriterionChecklist): string {
+  return checklist.scoring.map(rule => `${rule.met} met = ${rule.score}`).join(', ');
+}
+
+// Helper function to render a criterion's checklist for the prompts
+function formatChecklist(checklist: CriterionChecklist): string {
+  return [
+    'Checklist (mark each item met or not met):',
+    ...checklist.items.map(item => `- [ ] ${item}`),
+    `Score from the number of items met: ${formatChecklistScoring(checklist)}`
+  ].join('\n');
+}
+
+// Helper function to render a criterion with its score descriptions
+function formatCriterion(criterion: RubricCriterion | ObservationalCriterion, heading: string): string {
+  return [
+    heading,
+    criterion.description,
+    ...criterion.descriptors.map(item => `- ${item.score}: ${item.description}`),
+    'checklist' in criterion && criterion.checklist ? formatChecklist(criterion.checklist) : ''
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Renders the rubric as text for the evaluation prompts
+ * @param rubric The rubric
+ * @returns The rubric text
+ */
+export function formatRubricForPrompt(rubric: Rubric): string {
+  const sections = [
+    `# ${rubric.title || 'Evaluation Rubric'}`,
+    rubric.overview,
+    `## Weighted Criteria (score each from ${rubric.minScore} to ${rubric.maxScore})`,
+    ...rubric.criteria.map((criterion, index) =>
+      formatCriterion(criterion, `### ${index + 1}. ${criterion.name} (Weight: ${criterion.weight}%)`)
+    )
+  ];
+
+  if (rubric.observationalCriteria.length > 0) {
+    sections.push(
+      '## Observational Criteria (scored for feedback only, not weighted)',
+      ...rubric.observationalCriteria.map(criterion =>
+        formatCriterion(criterion, `### ${criterion.name}`)
+      )
+    );
+  }
+
+  sections.push(
+    '## Scoring',
+    `Multiply each criterion score by its weight and add them up. The overall score is that total divided by ${getMaxWeightedScore(rubric)} (the highest possible total), as a percentage.`,
+    `Performance levels: ${describePerformanceBands(rubric)}`
+  );
+
+  return sections.filter(Boolean).join('\n\n');
+}
+
+// Helper function to check the rubric library file
+export function validateRubricLibrary(input: any): RubricLibraryValidationResult {
+  const errors: string[] = [];
+  const library: RubricLibrary = { defaultRubricId: '', rubrics: [] };
+
+  if (!input || typeof input !== 'object' || !Array.isArray(input.rubrics)) {
+    errors.push('Rubric library must be an object with a "rubrics" array');
+    return { isValid: false, errors, library };
+  }
+
+  input.rubrics.forEach((entry: any, index: number) => {
+    if (!entry || typeof entry.id !== 'string' || !entry.id.trim()) {
+      errors.push(`Rubric ${index + 1}: "id" is required`);
+      return;
+    }
+    if (typeof entry.file !== 'string' || !entry.file.endsWith('.md')) {
+      errors.push(`Rubric ${index + 1} (${entry.id}): "file" must be a markdown file`);
+      return;
+    }
+    if (library.rubrics.some(rubric => rubric.id === entry.id)) {
+      errors.push(`Rubric ${index + 1} (${entry.id}): "id" is used more than once`);
+      return;
+    }
+    if (entry.version !== undefined && !(Number.isInteger(entry.version) && entry.version > 0)) {
+      errors.push(`Rubric ${index + 1} (${entry.id}): "version" must be a whole number from 1`);
+      return;
+    }
+    library.rubrics.push({
+      id: entry.id.trim(),
+      name: typeof entry.name === 'string' && entry.name.trim() ? entry.name.trim() : entry.id,
+      version: entry.version ?? 1,
+      description: typeof entry.description === 'string' ? entry.description : '',
+      file: entry.file,
+      scenarioKeywords: Array.isArray(entry.scenarioKeywords)
+        ? entry.scenarioKeywords.filter((keyword: any) => typeof keyword === 'string' && keyword.trim())
+        : []
+    });
+  });
+
+  if (library.rubrics.some(rubric => rubric.id === input.defaultRubricId)) {
+    library.defaultRubricId = input.defaultRubricId;
+  } else {
+    errors.push(`"defaultRubricId" must be the id of a rubric in the library`);
+    library.defaultRubricId = library.rubrics[0]?.id || '';
+  }
+
+  return { isValid: errors.length === 0, errors, library };
+}
+
+// Helper function to find a rubric in the library by id
+export function findRubricSummary(library: RubricLibrary, rubricId: string): RubricSummary | undefined {
+  return library.rubrics.find(rubric => rubric.id === rubricId);
+}
+
+// Helper function to count how many of a rubric's keywords appear in a piece of text
+function countKeywordMatches(text: string, keywords: string[]): number {
+  const lowerText = text.toLowerCase();
+  return keywords.filter(keyword => {
+    const escaped = keyword.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`\\b${escaped}\\b`).test(lowerText);
+  }).length;
+}
+
+/**
+ * Picks the rubric for a conversation from its Scenario header.
+ * Keywords found in the scenario title count twice as much as keywords in the description,
+ * and the default rubric is used when no keywords match.
+ * @param library The rubric library
+ * @param scenario The conversation's scenario, if it has one
+ * @returns The best matching rubric
+ */
+export function selectRubricForScenario(library: RubricLibrary, scenario: ConversationScenario | null): RubricSummary {
+  const defaultRubric = findRubricSummary(library, library.defaultRubricId) || library.rubrics[0];
+  if (!scenario) {
+    return defaultRubric;
+  }
+
+  let bestRubric = defaultRubric;
+  let bestScore = 0;
+  for (const rubric of library.rubrics) {
+    const score = countKeywordMatches(scenario.title, rubric.scenarioKeywords) * 2 +
+      countKeywordMatches(scenario.description, rubric.scenarioKeywords);
+    if (score > bestScore) {
+      bestRubric = rubric;
+      bestScore = score;
+    }
+  }
+  return bestRubric;
+}
+
+// Helper function to parse a version of a library rubric, failing when the rubric is invalid
+export function parseLibraryRubric(markdown: string, summary: RubricSummary, version: number = summary.version): Rubric {
+  const { isValid, errors, rubric } = parseRubric(markdown);
+  if (!isValid) {
+    throw new Error(`Version ${version} of the evaluation rubric "${summary.name}" is invalid:\n${formatRubricErrors(errors).join('\n')}`);
+  }
+  return { ...rubric, id: summary.id, name: summary.name, version };
+}
+
+// Helper function to build the reference recorded on an evaluation
+export function getRubricReference(rubric: Rubric): RubricReference {
+  return { id: rubric.id, name: rubric.name, version: rubric.version, contentHash: rubric.contentHash };
+}
+
+// Helper function to check whether an evaluation was scored against exactly this rubric.
+// Evaluations scored before rubrics were versioned were scored against version 1.
+export function isScoredAgainst(reference: RubricReference | undefined, rubric: Rubric): boolean {
+  return !!reference &&
+    reference.id === rubric.id &&
+    (reference.version ?? 1) === rubric.version &&
+    (!reference.contentHash || !rubric.contentHash || reference.contentHash === rubric.contentHash);
+}
+
+// Helper function to compare the descriptors of two versions of a criterion
+function describeCriterion(criterion: RubricCriterion): string {
+  return [
+    criterion.description,
+    ...criterion.descriptors.map(item => `${item.score}:${item.description}`),
+    ...(criterion.checklist?.items ?? []).map(item => `checklist:${item}`)
+  ].join('|');
+}
+
+/**
+ * Lists what changed between two versions of a rubric, matching criteria by name
+ * @param previous The rubric an evaluation was scored against
+ * @param current The rubric to score against now
+ * @returns The changes
+ */
+export function compareRubrics(previous: Rubric, current: Rubric): RubricChanges {
+  const changes: RubricChanges = {
+    weightsChanged: [],
+    descriptorsChanged: [],
+    checklistScoringChanged: [],
+    criteriaAdded: [],
+    criteriaRemoved: [],
+    bandsChanged: JSON.stringify(previous.performanceBands) !== JSON.stringify(current.performanceBands),
+    scaleChanged: previous.minScore !== current.minScore || previous.maxScore !== current.maxScore,
+    unknown: false
+  };
+
+  for (const criterion of current.criteria) {
+    const previousCriterion = findCriterion(previous, criterion.name) || findCriterion(previous, criterion.id);
+    if (!previousCriterion) {
+      changes.criteriaAdded.push(criterion.name);
+      continue;
+    }
+    if (previousCriterion.weight !== criterion.weight) {
+      changes.weightsChanged.push(criterion.name);
+    }
+    if (describeCriterion(previousCriterion) !== describeCriterion(criterion)) {
+      changes.descriptorsChanged.push(criterion.name);
+    } else if (criterion.checklist && formatChecklistScoring(previousCriterion.checklist!) !== formatChecklistScoring(criterion.checklist)) {
+      changes.checklistScoringChanged.push(criterion.name);
+    }
+  }
+
+  changes.criteriaRemoved = previous.criteria
+    .filter(criterion => !findCriterion(current, criterion.name) && !findCriterion(current, criterion.id))
+    .map(criterion => criterion.name);
+
+  return changes;
+}
+
+// Helper function to describe changes whose effect on the previous version is not known
+export function createUnknownRubricChanges(): RubricChanges {
+  return {
+    weightsChanged: [],
+    descriptorsChanged: [],
+    checklistScoringChanged: [],
+    criteriaAdded: [],
+    criteriaRemoved: [],
+    bandsChanged: false,
+    scaleChanged: false,
+    unknown: true
+  };
+}
+
+// Helper function to check whether the stored criterion scores are still valid under the new rubric.
+// Weight, band, checklist scoring and removed-criterion changes only need the scores recomputed; anything else needs Claude.
+export function needsReevaluation(changes: RubricChanges): boolean {
+  return changes.unknown ||
+    changes.scaleChanged ||
+    changes.descriptorsChanged.length > 0 ||
+    changes.criteriaAdded.length > 0;
+}
+
+// Helper function to summarize rubric changes in one line, e.g. "Weights changed: Building Rapport"
+export function summarizeRubricChanges(changes: RubricChanges): string {
+  if (changes.unknown) {
+    return 'The rubric was changed, but the version the evaluation was scored against is not available to compare';
+  }
+  const parts = [
+    changes.weightsChanged.length > 0 ? `Weights changed: ${changes.weightsChanged.join(', ')}` : '',
+    changes.descriptorsChanged.length > 0 ? `Descriptions changed: ${changes.descriptorsChanged.join(', ')}` : '',
+    changes.checklistScoringChanged.length > 0 ? `Checklist scoring changed: ${changes.checklistScoringChanged.join(', ')}` : '',
+    changes.criteriaAdded.length > 0 ? `Criteria added: ${changes.criteriaAdded.join(', ')}` : '',
+    changes.criteriaRemoved.length > 0 ? `Criteria removed: ${changes.criteriaRemoved.join(', ')}` : '',
+    changes.bandsChanged ? 'Performance levels changed' : '',
+    changes.scaleChanged ? 'Score scale changed' : ''
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join('. ') : 'No changes that affect scoring';
+}
+
+let libraryRequest: Promise<RubricLibrary> | null = null;
+const rubricRequests = new Map<string, Promise<Rubric>>();
+
+// Helper function to load the rubric library in the browser, once per page
+export function fetchRubricLibrary(): Promise<RubricLibrary> {
+  if (!libraryRequest) {
+    libraryRequest = fetch(RUBRIC_LIBRARY_URL)
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Rubric library request failed with status ${response.status}`);
+        }
+        return response.json();
+      })
+      .then(data => {
+        const { isValid, errors, library } = validateRubricLibrary(data);
+        if (!isValid) {
+          throw new Error(`The rubric library is invalid:\n${errors.join('\n')}`);
+        }
+        return library;
+      })
+      .catch(error => {
+        libraryRequest = null;
+        throw error;
+      });
+  }
+  return libraryRequest;
+}
+
+// Helper function to load a rubric in the browser, once per page. The current version of the default rubric is loaded when no id is given.
+export async function fetchRubric(rubricId?: string, version?: number): Promise<Rubric> {
+  const id = rubricId || (await fetchRubricLibrary()).defaultRubricId;
+  const key = version ? `${id}@${version}` : id;
+
+  let request = rubricRequests.get(key);
+  if (!request) {
+    const url = `${RUBRIC_LIBRARY_URL}/${encodeURIComponent(id)}${version ? `?version=${version}` : ''}`;
+    request = fetch(url)
+      .then(async response => {
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.message || `Rubric request failed with status ${response.status}`);
+        }
+        return response.json() as Promise<Rubric>;
+      })
+      .catch(error => {
+        rubricRequests.delete(key);
+        throw error;
+      });
+    rubricRequests.set(key, request);
+  }
+  return request;
+}
+
+/**
+ * Saves a rubric changed in the rubric editor as a new version
+ * @param rubric The changed rubric, with the version it was edited from
+ * @returns The new version of the rubric
+ * @throws Error with the problems found when the rubric is invalid, or when a newer version was saved in the meantime
+ */
+export async function saveRubric(rubric: Rubric): Promise<Rubric> {
+  const response = await fetch(`${RUBRIC_LIBRARY_URL}/${encodeURIComponent(rubric.id)}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ rubric, baseVersion: rubric.version }),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.message || body.error || `Rubric save failed with status ${response.status}`);
+  }
+
+  // The library lists the new version, and the current rubric is now the saved one
+  const saved = body as Rubric;
+  libraryRequest = null;
+  rubricRequests.set(saved.id, Promise.resolve(saved));
+  rubricRequests.set(`${saved.id}@${saved.version}`, Promise.resolve(saved));
+  return saved;
+}
+
+// Helper function to get the download address of a rubric as JSON or YAML
+export function getRubricExportUrl(rubricId: string, format: 'json' | 'yaml'): string {
+  return `${RUBRIC_LIBRARY_URL}/${encodeURIComponent(rubricId)}/export?format=${format}`;
+}
+
+/**
+ * Imports a rubric file into the rubric library, as a new rubric or as the next version of the rubric with the same id
+ * @param content The JSON, YAML or markdown file contents
+ * @param fileName The file name, used to tell the format
+ * @param rubricId Id to import the rubric as, the id in the file when not given
+ * @returns The imported rubric and whether it was added to the library
+ * @throws Error listing the problems found per field when the rubric is invalid
+ */
+export async function importRubricFile(content: string, fileName: string, rubricId?: string): Promise<{ rubric: Rubric; created: boolean }> {
+  const response = await fetch(`${RUBRIC_LIBRARY_URL}/import`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ content, fileName, rubricId }),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.message || body.error || `Rubric import failed with status ${response.status}`);
+  }
+
+  // The library lists the imported rubric, and its current version is the imported one
+  const imported = body.rubric as Rubric;
+  libraryRequest = null;
+  rubricRequests.set(imported.id, Promise.resolve(imported));
+  rubricRequests.set(`${imported.id}@${imported.version}`, Promise.resolve(imported));
+  return { rubric: imported, created: !!body.created };
+}
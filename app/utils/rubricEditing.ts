@@ -0,0 +1,133 @@
+import { EvaluationData, PerformanceLevel } from '../types/evaluation';
+import { PerformanceBand, Rubric, RubricChanges, RubricCriterion, ScoreDescriptor } from '../types/rubric';
+import { compareRubrics, getDefaultBandColor, toCriterionId } from './rubric';
+import { rescoreEvaluation } from './rescore';
+
+// Changes that can be made to a criterion's heading
+export interface CriterionUpdate {
+  name?: string;
+  weight?: number;
+  description?: string;
+}
+
+// Changes that can be made to a performance level, its range ends where the next level up starts
+export interface PerformanceBandUpdate {
+  level?: string;
+  minScore?: number;
+  color?: string;
+  description?: string;
+}
+
+// How a stored evaluation would be scored under an edited rubric
+export interface RubricPreview {
+  before: { overallScore: number; performanceLevel: PerformanceLevel };
+  after: { overallScore: number; performanceLevel: PerformanceLevel };
+  changes: RubricChanges;
+}
+
+// Helper function to create empty score descriptions for the rubric's score scale
+function createDescriptors(rubric: Rubric): ScoreDescriptor[] {
+  const descriptors: ScoreDescriptor[] = [];
+  for (let score = rubric.minScore; score <= rubric.maxScore; score++) {
+    descriptors.push({ score, description: '' });
+  }
+  return descriptors;
+}
+
+// Helper function to replace one criterion
+function replaceCriterion(rubric: Rubric, index: number, update: (criterion: RubricCriterion) => RubricCriterion): Rubric {
+  return { ...rubric, criteria: rubric.criteria.map((criterion, i) => (i === index ? update(criterion) : criterion)) };
+}
+
+// Helper function to add an empty criterion at the end, with no weight until one is given
+export function addCriterion(rubric: Rubric): Rubric {
+  let number = rubric.criteria.length + 1;
+  while (rubric.criteria.some(criterion => criterion.name === `New Criterion ${number}`)) {
+    number++;
+  }
+  const name = `New Criterion ${number}`;
+  const criterion: RubricCriterion = { id: toCriterionId(name), name, weight: 0, description: '', descriptors: createDescriptors(rubric) };
+  return { ...rubric, criteria: [...rubric.criteria, criterion] };
+}
+
+// Helper function to remove a criterion
+export function removeCriterion(rubric: Rubric, index: number): Rubric {
+  return { ...rubric, criteria: rubric.criteria.filter((_, i) => i !== index) };
+}
+
+// Helper function to move a criterion up (-1) or down (1)
+export function moveCriterion(rubric: Rubric, index: number, direction: -1 | 1): Rubric {
+  const target = index + direction;
+  if (target < 0 || target >= rubric.criteria.length) {
+    return rubric;
+  }
+  const criteria = [...rubric.criteria];
+  [criteria[index], criteria[target]] = [criteria[target], criteria[index]];
+  return { ...rubric, criteria };
+}
+
+// Helper function to change a criterion's name, weight or question. The id follows the name, as when the rubric is parsed.
+export function updateCriterion(rubric: Rubric, index: number, update: CriterionUpdate): Rubric {
+  return replaceCriterion(rubric, index, criterion => ({
+    ...criterion,
+    ...update,
+    id: update.name !== undefined ? toCriterionId(update.name) : criterion.id
+  }));
+}
+
+// Helper function to change what a score means for a criterion
+export function updateDescriptor(rubric: Rubric, index: number, score: number, description: string): Rubric {
+  return replaceCriterion(rubric, index, criterion => {
+    const descriptors = criterion.descriptors.some(item => item.score === score)
+      ? criterion.descriptors.map(item => (item.score === score ? { ...item, description } : item))
+      : [...criterion.descriptors, { score, description }].sort((a, b) => a.score - b.score);
+    return { ...criterion, descriptors };
+  });
+}
+
+// Helper function to sort the performance levels highest first and end each one where the next level up starts
+function withBandRanges(bands: PerformanceBand[]): PerformanceBand[] {
+  const sorted = [...bands].sort((a, b) => b.minScore - a.minScore);
+  return sorted.map((band, index) => ({ ...band, maxScore: index === 0 ? 100 : sorted[index - 1].minScore - 1 }));
+}
+
+// Helper function to change a performance level's label, lowest score, color or description
+export function updatePerformanceBand(rubric: Rubric, index: number, update: PerformanceBandUpdate): Rubric {
+  const bands = rubric.performanceBands.map((band, i) => (i === index ? { ...band, ...update } : band));
+  return { ...rubric, performanceBands: withBandRanges(bands) };
+}
+
+// Helper function to add a performance level below the others, taking the lower half of the lowest level's range
+export function addPerformanceBand(rubric: Rubric): Rubric {
+  const lowest = rubric.performanceBands[rubric.performanceBands.length - 1];
+  const bands = rubric.performanceBands.map(band => (band === lowest ? { ...band, minScore: Math.ceil((band.maxScore + 1) / 2) } : band));
+  const level = 'New Level';
+  bands.push({ level, minScore: 0, maxScore: 0, color: getDefaultBandColor(level, bands.length), description: '' });
+  return { ...rubric, performanceBands: withBandRanges(bands) };
+}
+
+// Helper function to remove a performance level, the level below takes over its range
+export function removePerformanceBand(rubric: Rubric, index: number): Rubric {
+  const bands = rubric.performanceBands.filter((_, i) => i !== index);
+  if (bands.length > 0) {
+    bands[bands.length - 1] = { ...bands[bands.length - 1], minScore: 0 };
+  }
+  return { ...rubric, performanceBands: withBandRanges(bands) };
+}
+
+/**
+ * Shows how a stored evaluation's overall score and performance level would change under an edited rubric.
+ * The stored criterion scores are re-weighted; changed descriptions are listed in the changes but cannot be previewed.
+ * @param evaluation The stored evaluation
+ * @param original The rubric as it was loaded
+ * @param edited The rubric with the editor's changes
+ * @returns The scores before and after, and what changed
+ */
+export function previewRubricChanges(evaluation: EvaluationData, original: Rubric, edited: Rubric): RubricPreview {
+  const rescored = rescoreEvaluation(evaluation, edited);
+  return {
+    before: { overallScore: evaluation.overallScore, performanceLevel: evaluation.performanceLevel },
+    after: { overallScore: rescored.overallScore, performanceLevel: rescored.performanceLevel },
+    changes: compareRubrics(original, edited)
+  };
+}
@@ -0,0 +1,423 @@
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import {
+  CriterionChecklist,
+  ObservationalCriterion,
+  PerformanceBand,
+  Rubric,
+  RubricCriterion,
+  RubricDocument,
+  RubricFieldError,
+  RubricImportResult,
+  RubricParseError,
+  RubricSummary,
+  ScoreDescriptor
+} from '../types/rubric';
+import {
+  checkChecklist,
+  checkPerformanceBands,
+  getDefaultBandColor,
+  getTotalWeight,
+  parseRubric,
+  toCriterionId
+} from './rubric';
+
+// Name and version of the exchange format, written into every exported file
+export const RUBRIC_DOCUMENT_FORMAT = 'winery-sales-rubric';
+export const RUBRIC_DOCUMENT_VERSION = 1;
+
+// Formats a rubric can be exported to
+export type RubricExportFormat = 'json' | 'yaml';
+
+// Formats a rubric can be imported from, markdown is the layout of the files in public/data/rubrics
+export type RubricImportFormat = RubricExportFormat | 'markdown';
+
+const RUBRIC_ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const COLOR_PATTERN = /^#[0-9a-f]{3}(?:[0-9a-f]{3})?$/i;
+
+// Helper function to turn a name or file name into a rubric id, e.g. "wines_sales_rubric.md" -> "wines-sales-rubric"
+export function toRubricId(name: string): string {
+  return name
+    .replace(/\.(md|markdown|json|ya?ml)$/i, '')
+    .replace(/\.rubric$/i, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Converts a rubric to the exchange format
+ * @param rubric The rubric
+ * @param summary The rubric's entry in the rubric library, for its id, description and scenario keywords
+ * @returns The rubric document
+ */
+export function toRubricDocument(rubric: Rubric, summary?: RubricSummary): RubricDocument {
+  return {
+    format: RUBRIC_DOCUMENT_FORMAT,
+    formatVersion: RUBRIC_DOCUMENT_VERSION,
+    id: summary?.id || rubric.id || undefined,
+    name: summary?.name || rubric.name || undefined,
+    description: summary?.description || undefined,
+    scenarioKeywords: summary?.scenarioKeywords,
+    title: rubric.title,
+    overview: rubric.overview || undefined,
+    minScore: rubric.minScore,
+    maxScore: rubric.maxScore,
+    criteria: rubric.criteria.map(criterion => ({
+      name: criterion.name,
+      weight: criterion.weight,
+      description: criterion.description || undefined,
+      descriptors: criterion.descriptors.map(item => ({ score: item.score, description: item.description })),
+      ...(criterion.checklist ? { checklist: criterion.checklist } : {})
+    })),
+    observationalCriteria: rubric.observationalCriteria.map(criterion => ({
+      name: criterion.name,
+      description: criterion.description || undefined,
+      descriptors: criterion.descriptors.map(item => ({ score: item.score, description: item.description }))
+    })),
+    performanceBands: rubric.performanceBands.map(band => ({
+      level: band.level,
+      minScore: band.minScore,
+      maxScore: band.maxScore,
+      color: band.color || undefined,
+      description: band.description || undefined
+    }))
+  };
+}
+
+/**
+ * Writes a rubric as JSON or YAML in the exchange format
+ * @param rubric The rubric
+ * @param format "json" or "yaml"
+ * @param summary The rubric's entry in the rubric library
+ * @returns The file contents
+ */
+export function exportRubric(rubric: Rubric, format: RubricExportFormat, summary?: RubricSummary): string {
+  // JSON.stringify drops the undefined fields, do the same for YAML
+  const document = JSON.parse(JSON.stringify(toRubricDocument(rubric, summary)));
+  return format === 'yaml' ? stringifyYaml(document) : JSON.stringify(document, null, 2) + '\n';
+}
+
+// Helper function to name an exported rubric file, e.g. "first-time-tasting.rubric.yaml"
+export function getRubricExportFileName(rubricId: string, format: RubricExportFormat): string {
+  return `${rubricId || 'rubric'}.rubric.${format}`;
+}
+
+// Helper function to tell the format of an imported file from its name, or from its contents when the name does not say
+export function detectRubricFormat(content: string, fileName = ''): RubricImportFormat {
+  if (/\.json$/i.test(fileName)) return 'json';
+  if (/\.ya?ml$/i.test(fileName)) return 'yaml';
+  if (/\.(md|markdown)$/i.test(fileName)) return 'markdown';
+
+  const text = content.replace(/^\uFEFF/, '').trim();
+  if (text.startsWith('{')) return 'json';
+  if (text.startsWith('#')) return 'markdown';
+  return 'yaml';
+}
+
+// Helper function to check that a value is a non-empty string
+function checkText(value: any, field: string, errors: RubricFieldError[], required = true): string {
+  if (value === undefined || value === null) {
+    if (required) {
+      errors.push({ field, message: 'Required' });
+    }
+    return '';
+  }
+  if (typeof value !== 'string' || (required && !value.trim())) {
+    errors.push({ field, message: required ? 'Must be a non-empty string' : 'Must be a string' });
+    return '';
+  }
+  return value.trim();
+}
+
+// Helper function to check that a value is a number, optionally a whole number
+function checkNumber(value: any, field: string, errors: RubricFieldError[], integer = false): number {
+  if (typeof value !== 'number' || !isFinite(value) || (integer && !Number.isInteger(value))) {
+    errors.push({ field, message: value === undefined ? 'Required' : `Must be a ${integer ? 'whole number' : 'number'}` });
+    return NaN;
+  }
+  return value;
+}
+
+// Helper function to report rubric problems that belong to one field
+function toFieldErrors(errors: RubricParseError[], field: string): RubricFieldError[] {
+  return errors.map(error => ({ field, message: error.message }));
+}
+
+// Helper function to check a criterion's score descriptions: one per score on the scale, none missing and none outside it
+function checkDescriptors(value: any, field: string, minScore: number, maxScore: number, errors: RubricFieldError[]): ScoreDescriptor[] {
+  if (!Array.isArray(value)) {
+    errors.push({ field, message: 'Must be a list of { score, description }' });
+    return [];
+  }
+
+  const descriptors: ScoreDescriptor[] = [];
+  value.forEach((item: any, index: number) => {
+    const itemField = `${field}[${index}]`;
+    if (!item || typeof item !== 'object') {
+      errors.push({ field: itemField, message: 'Must be an object with score and description' });
+      return;
+    }
+    const score = checkNumber(item.score, `${itemField}.score`, errors, true);
+    const description = checkText(item.description, `${itemField}.description`, errors);
+    if (isNaN(score)) {
+      return;
+    }
+    if (score < minScore || score > maxScore) {
+      errors.push({ field: `${itemField}.score`, message: `Score ${score} is outside the scale ${minScore}-${maxScore}` });
+    } else if (descriptors.some(descriptor => descriptor.score === score)) {
+      errors.push({ field: `${itemField}.score`, message: `Score ${score} is described more than once` });
+    } else {
+      descriptors.push({ score, description });
+    }
+  });
+
+  // The descriptions must cover the scale without gaps
+  if (!isNaN(minScore) && !isNaN(maxScore)) {
+    const missing: number[] = [];
+    for (let score = minScore; score <= maxScore; score++) {
+      if (!descriptors.some(descriptor => descriptor.score === score)) {
+        missing.push(score);
+      }
+    }
+    if (missing.length > 0) {
+      errors.push({ field, message: `No description for score ${missing.join(', ')}, every score from ${minScore} to ${maxScore} needs one` });
+    }
+  }
+
+  return descriptors.sort((a, b) => a.score - b.score);
+}
+
+// Helper function to check a criterion's checklist items and scoring
+function checkChecklistField(value: any, field: string, errors: RubricFieldError[]): CriterionChecklist | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || !Array.isArray(value.items) || !Array.isArray(value.scoring)) {
+    errors.push({ field, message: 'Must be an object with items (a list of strings) and scoring (a list of { met, score })' });
+    return undefined;
+  }
+
+  const items = value.items.map((item: any, index: number) => checkText(item, `${field}.items[${index}]`, errors));
+  const scoring = value.scoring
+    .map((rule: any, index: number) => ({
+      met: checkNumber(rule?.met, `${field}.scoring[${index}].met`, errors, true),
+      score: checkNumber(rule?.score, `${field}.scoring[${index}].score`, errors, true)
+    }))
+    .filter((rule: { met: number; score: number }) => !isNaN(rule.met) && !isNaN(rule.score))
+    .sort((a: { met: number }, b: { met: number }) => a.met - b.met);
+  return { items, scoring };
+}
+
+/**
+ * Checks a rubric in the exchange format and converts it to a rubric. Every problem is reported
+ * against the field it was found in, e.g. "criteria[2].weight" or "performanceBands".
+ * @param input The parsed JSON or YAML
+ * @returns The rubric, its library details and the problems found
+ */
+export function validateRubricDocument(input: any): RubricImportResult {
+  const errors: RubricFieldError[] = [];
+  const rubric: Rubric = {
+    id: '',
+    name: '',
+    version: 1,
+    contentHash: '',
+    title: '',
+    overview: '',
+    minScore: 1,
+    maxScore: 5,
+    criteria: [],
+    observationalCriteria: [],
+    performanceBands: []
+  };
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    errors.push({ field: 'rubric', message: 'The file must contain a rubric object' });
+    return { isValid: false, errors, rubric, summary: {} };
+  }
+
+  if (input.format !== undefined && input.format !== RUBRIC_DOCUMENT_FORMAT) {
+    errors.push({ field: 'format', message: `Must be "${RUBRIC_DOCUMENT_FORMAT}"` });
+  }
+  if (input.formatVersion !== undefined && input.formatVersion !== RUBRIC_DOCUMENT_VERSION) {
+    errors.push({ field: 'formatVersion', message: `Version ${input.formatVersion} of the rubric format is not supported, only version ${RUBRIC_DOCUMENT_VERSION}` });
+  }
+
+  // Library details
+  const id = checkText(input.id, 'id', errors, false);
+  if (id && !RUBRIC_ID_PATTERN.test(id)) {
+    errors.push({ field: 'id', message: 'Must be lowercase letters, numbers and dashes, e.g. "first-time-tasting"' });
+  }
+  const name = checkText(input.name, 'name', errors, false);
+  const description = checkText(input.description, 'description', errors, false);
+  let scenarioKeywords: string[] | undefined;
+  if (input.scenarioKeywords !== undefined) {
+    if (!Array.isArray(input.scenarioKeywords) || input.scenarioKeywords.some((keyword: any) => typeof keyword !== 'string')) {
+      errors.push({ field: 'scenarioKeywords', message: 'Must be a list of strings' });
+    } else {
+      scenarioKeywords = input.scenarioKeywords;
+    }
+  }
+
+  rubric.title = checkText(input.title, 'title', errors);
+  rubric.overview = checkText(input.overview, 'overview', errors, false);
+  rubric.name = name || rubric.title;
+
+  // Score scale
+  const minScore = checkNumber(input.minScore, 'minScore', errors, true);
+  const maxScore = checkNumber(input.maxScore, 'maxScore', errors, true);
+  if (!isNaN(minScore) && !isNaN(maxScore) && minScore >= maxScore) {
+    errors.push({ field: 'maxScore', message: `Must be higher than minScore (${minScore})` });
+  }
+  rubric.minScore = isNaN(minScore) ? rubric.minScore : minScore;
+  rubric.maxScore = isNaN(maxScore) ? rubric.maxScore : maxScore;
+
+  // Weighted criteria
+  const names = new Map<string, string>();
+  const checkName = (value: any, field: string): string => {
+    const criterionName = checkText(value, field, errors);
+    const key = toCriterionId(criterionName);
+    if (criterionName && names.has(key)) {
+      errors.push({ field, message: `Criterion name "${criterionName}" is already used by ${names.get(key)}` });
+    }
+    if (criterionName) {
+      names.set(key, field.replace(/\.name$/, ''));
+    }
+    return criterionName;
+  };
+
+  if (!Array.isArray(input.criteria) || input.criteria.length === 0) {
+    errors.push({ field: 'criteria', message: 'Must be a non-empty list of weighted criteria' });
+  } else {
+    input.criteria.forEach((item: any, index: number) => {
+      const field = `criteria[${index}]`;
+      if (!item || typeof item !== 'object') {
+        errors.push({ field, message: 'Must be an object with name, weight and descriptors' });
+        return;
+      }
+      const criterionName = checkName(item.name, `${field}.name`);
+      const weight = checkNumber(item.weight, `${field}.weight`, errors);
+      if (!isNaN(weight) && weight <= 0) {
+        errors.push({ field: `${field}.weight`, message: 'Must be more than 0' });
+      }
+      const criterion: RubricCriterion = {
+        id: toCriterionId(criterionName),
+        name: criterionName,
+        weight: isNaN(weight) ? 0 : weight,
+        description: checkText(item.description, `${field}.description`, errors, false),
+        descriptors: checkDescriptors(item.descriptors, `${field}.descriptors`, minScore, maxScore, errors)
+      };
+      const checklist = checkChecklistField(item.checklist, `${field}.checklist`, errors);
+      if (checklist) {
+        criterion.checklist = checklist;
+        errors.push(...toFieldErrors(checkChecklist(criterionName, checklist, rubric), `${field}.checklist`));
+      }
+      rubric.criteria.push(criterion);
+    });
+
+    const totalWeight = getTotalWeight(rubric);
+    if (Math.abs(totalWeight - 100) > 0.01) {
+      errors.push({ field: 'criteria', message: `Weights add up to ${totalWeight}%, they must add up to 100%` });
+    }
+  }
+
+  // Observational criteria
+  if (input.observationalCriteria !== undefined && !Array.isArray(input.observationalCriteria)) {
+    errors.push({ field: 'observationalCriteria', message: 'Must be a list of criteria' });
+  } else {
+    (input.observationalCriteria || []).forEach((item: any, index: number) => {
+      const field = `observationalCriteria[${index}]`;
+      if (!item || typeof item !== 'object') {
+        errors.push({ field, message: 'Must be an object with name and descriptors' });
+        return;
+      }
+      const criterionName = checkName(item.name, `${field}.name`);
+      const criterion: ObservationalCriterion = {
+        id: toCriterionId(criterionName),
+        name: criterionName,
+        description: checkText(item.description, `${field}.description`, errors, false),
+        descriptors: checkDescriptors(item.descriptors, `${field}.descriptors`, minScore, maxScore, errors)
+      };
+      rubric.observationalCriteria.push(criterion);
+    });
+  }
+
+  // Performance levels
+  if (!Array.isArray(input.performanceBands) || input.performanceBands.length === 0) {
+    errors.push({ field: 'performanceBands', message: 'Must be a non-empty list of performance levels' });
+  } else {
+    const bands: PerformanceBand[] = [];
+    input.performanceBands.forEach((item: any, index: number) => {
+      const field = `performanceBands[${index}]`;
+      if (!item || typeof item !== 'object') {
+        errors.push({ field, message: 'Must be an object with level, minScore and maxScore' });
+        return;
+      }
+      const color = checkText(item.color, `${field}.color`, errors, false);
+      if (color && !COLOR_PATTERN.test(color)) {
+        errors.push({ field: `${field}.color`, message: 'Must be a hex color such as #10B981' });
+      }
+      const band = {
+        level: checkText(item.level, `${field}.level`, errors),
+        minScore: checkNumber(item.minScore, `${field}.minScore`, errors, true),
+        maxScore: checkNumber(item.maxScore, `${field}.maxScore`, errors, true),
+        color,
+        description: checkText(item.description, `${field}.description`, errors, false)
+      };
+      if (!isNaN(band.minScore) && !isNaN(band.maxScore)) {
+        bands.push(band);
+      }
+    });
+    bands.sort((a, b) => b.minScore - a.minScore);
+    bands.forEach((band, index) => {
+      band.color = COLOR_PATTERN.test(band.color) ? band.color : getDefaultBandColor(band.level, index);
+    });
+    errors.push(...toFieldErrors(checkPerformanceBands(bands), 'performanceBands'));
+    rubric.performanceBands = bands;
+  }
+
+  rubric.id = id;
+  return {
+    isValid: errors.length === 0,
+    errors,
+    rubric,
+    summary: {
+      ...(id ? { id } : {}),
+      ...(name ? { name } : {}),
+      ...(description ? { description } : {}),
+      ...(scenarioKeywords ? { scenarioKeywords } : {})
+    }
+  };
+}
+
+/**
+ * Imports a rubric from a JSON or YAML file in the exchange format, or from a rubric markdown file
+ * such as wines_sales_rubric.md
+ * @param content The file contents
+ * @param fileName The file name, used to tell the format and, for markdown, the rubric id
+ * @returns The rubric, its library details and the problems found, per field
+ */
+export function importRubric(content: string, fileName = ''): RubricImportResult {
+  const format = detectRubricFormat(content, fileName);
+
+  if (format === 'markdown') {
+    const { errors, rubric } = parseRubric(content);
+    const id = fileName ? toRubricId(fileName) : toRubricId(rubric.title);
+    return {
+      isValid: errors.length === 0,
+      errors: errors.map(error => ({ field: error.line > 0 ? `line ${error.line}` : 'rubric', message: error.message })),
+      rubric: { ...rubric, id },
+      summary: { id, name: rubric.title }
+    };
+  }
+
+  let input: any;
+  try {
+    input = format === 'json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    return {
+      ...validateRubricDocument(null),
+      errors: [{ field: 'file', message: `Not valid ${format === 'json' ? 'JSON' : 'YAML'}: ${error instanceof Error ? error.message : error}` }]
+    };
+  }
+  return validateRubricDocument(input);
+}
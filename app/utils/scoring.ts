@@ -0,0 +1,195 @@
+import { CriterionScore, PerformanceLevel, ScoringAuditWarning, ValidationError } from '../types/evaluation';
+import { Rubric, RubricCriterion } from '../types/rubric';
+import {
+  applyChecklist,
+  calculateOverallScore,
+  findCriterion,
+  getPerformanceLevel,
+  isNotApplicableScore
+} from './rubric';
+
+// Scores computed from the rubric and the evaluator's per-criterion scores
+export interface ScoringResult {
+  criteriaScores: CriterionScore[]; // One per scored criterion, in rubric order
+  overallScore: number;             // Percentage (0-100)
+  performanceLevel: PerformanceLevel;
+  warnings: ScoringAuditWarning[];  // Numbers the evaluator reported that differ from the computed ones
+  errors: ValidationError[];        // Criterion scores that are missing or could not be used as given
+}
+
+// Helper function to read a number the evaluator may have returned as a string
+function toNumber(value: any): number | undefined {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && isFinite(number) ? number : undefined;
+}
+
+// Helper function to check whether two computed numbers differ by more than rounding
+function differs(reported: number, computed: number): boolean {
+  return Math.abs(reported - computed) > 0.01;
+}
+
+// Helper function to score one criterion from the evaluator's result, auditing the numbers it reported.
+// A criterion without a usable score is left unscored rather than given a made-up one.
+function scoreCriterion(item: any, criterion: RubricCriterion, rubric: Rubric, field: string, warnings: ScoringAuditWarning[], errors: ValidationError[]): CriterionScore | null {
+  const reportedWeight = toNumber(item.weight);
+  if (reportedWeight !== undefined && differs(reportedWeight, criterion.weight)) {
+    warnings.push({
+      field: `${field}.weight`,
+      reported: reportedWeight,
+      computed: criterion.weight,
+      message: `${criterion.name} was given weight ${reportedWeight}, the rubric weight is ${criterion.weight}`
+    });
+  }
+
+  const notes = typeof item.notes === 'string' ? item.notes : '';
+  const evidence = Array.isArray(item.evidence) ? { evidence: item.evidence } : {};
+  if (isNotApplicableScore(item)) {
+    if (!notes) {
+      errors.push({ field: `${field}.notes`, message: `${criterion.name} is marked not applicable without a justification` });
+    }
+    return { criterion: criterion.name, weight: criterion.weight, score: 0, weightedScore: 0, notes, notApplicable: true, ...evidence };
+  }
+
+  // A criterion with a checklist is scored from the items met rather than the score the evaluator gave
+  const reportedScore = toNumber(item.score);
+  const checklist = criterion.checklist ? applyChecklist(item.checklist, criterion.checklist) : null;
+  if (criterion.checklist && !checklist) {
+    errors.push({ field: `${field}.checklist`, message: `${criterion.name} has no checklist, its score was not derived from one` });
+  } else if (checklist && checklist.missing.length > 0) {
+    errors.push({ field: `${field}.checklist`, message: `${criterion.name} checklist is missing ${checklist.missing.join(', ')}, counted as not met` });
+  }
+
+  let score: number;
+  if (checklist) {
+    score = checklist.score;
+    if (reportedScore !== undefined && differs(reportedScore, score)) {
+      warnings.push({
+        field: `${field}.score`,
+        reported: reportedScore,
+        computed: score,
+        message: `${criterion.name} was scored ${reportedScore}, the checklist items met give ${score}`
+      });
+    }
+  } else if (reportedScore === undefined) {
+    errors.push({ field: `${field}.score`, message: `${criterion.name} has no score, it was left unscored` });
+    return null;
+  } else if (!Number.isInteger(reportedScore) || reportedScore < rubric.minScore || reportedScore > rubric.maxScore) {
+    errors.push({ field: `${field}.score`, message: `${criterion.name} score ${reportedScore} is not a whole number on the ${rubric.minScore}-${rubric.maxScore} scale, it was left unscored` });
+    return null;
+  } else {
+    score = reportedScore;
+  }
+
+  const weightedScore = score * criterion.weight;
+  const reportedWeightedScore = toNumber(item.weightedScore);
+  if (reportedWeightedScore !== undefined && differs(reportedWeightedScore, weightedScore)) {
+    warnings.push({
+      field: `${field}.weightedScore`,
+      reported: reportedWeightedScore,
+      computed: weightedScore,
+      message: `${criterion.name} weighted score was reported as ${reportedWeightedScore}, ${score} × ${criterion.weight} is ${weightedScore}`
+    });
+  }
+
+  return {
+    criterion: criterion.name,
+    weight: criterion.weight,
+    score,
+    weightedScore,
+    notes,
+    ...(checklist ? { checklist: checklist.checklist } : {}),
+    ...evidence
+  };
+}
+
+/**
+ * Scores an evaluation from the per-criterion scores the evaluator gave. The weights, weighted scores, overall
+ * percentage and performance level always come from the rubric, so the same criterion scores always give the
+ * same result. Every number the evaluator reported that disagrees is returned as an audit warning.
+ * @param data The evaluation as the evaluator returned it
+ * @param rubric The rubric to score against
+ * @returns The computed scores, the audit warnings and the problems with the criterion scores
+ */
+export function scoreEvaluation(data: any, rubric: Rubric): ScoringResult {
+  const warnings: ScoringAuditWarning[] = [];
+  const errors: ValidationError[] = [];
+  const scored = new Map<RubricCriterion, CriterionScore | null>();
+
+  const items: any[] = Array.isArray(data?.criteriaScores) ? data.criteriaScores : [];
+  items.forEach((item, index) => {
+    const field = `criteriaScores[${index}]`;
+    if (!item || typeof item !== 'object') {
+      errors.push({ field, message: 'Must be an object with criterion and score' });
+      return;
+    }
+    // Criteria are matched by name, or by position when the evaluator renamed one
+    const byName = findCriterion(rubric, item.criterion);
+    const criterion = byName || (scored.has(rubric.criteria[index]) ? undefined : rubric.criteria[index]);
+    if (!criterion) {
+      errors.push({ field: `${field}.criterion`, message: `"${item.criterion}" is not a criterion in the rubric, its score was left out` });
+      return;
+    }
+    if (scored.has(criterion)) {
+      errors.push({ field: `${field}.criterion`, message: `${criterion.name} was scored more than once, only the first score is used` });
+      return;
+    }
+    scored.set(criterion, scoreCriterion(item, criterion, rubric, field, warnings, errors));
+  });
+
+  // Criteria the evaluator left out add nothing to the overall score
+  rubric.criteria.filter(criterion => !scored.has(criterion)).forEach(criterion => {
+    errors.push({ field: 'criteriaScores', message: `Missing score for ${criterion.name}` });
+  });
+
+  const criteriaScores = rubric.criteria
+    .map(criterion => scored.get(criterion))
+    .filter((item): item is CriterionScore => !!item);
+  const overallScore = calculateOverallScore(criteriaScores, rubric);
+  const performanceLevel = getPerformanceLevel(overallScore, rubric);
+
+  const reportedOverall = toNumber(data?.overallScore ?? data?.totalScore);
+  if (reportedOverall !== undefined && Math.round(reportedOverall) !== overallScore) {
+    warnings.push({
+      field: data?.overallScore !== undefined ? 'overallScore' : 'totalScore',
+      reported: reportedOverall,
+      computed: overallScore,
+      message: reportedOverall > 100
+        ? `Overall score was reported as ${reportedOverall}, which is not a percentage, the criterion scores give ${overallScore}%`
+        : `Overall score was reported as ${reportedOverall}%, the criterion scores give ${overallScore}%`
+    });
+  }
+
+  const reportedLevel = typeof data?.performanceLevel === 'string' ? data.performanceLevel.trim() : '';
+  if (reportedLevel && reportedLevel.toLowerCase() !== performanceLevel.toLowerCase()) {
+    warnings.push({
+      field: 'performanceLevel',
+      reported: reportedLevel,
+      computed: performanceLevel,
+      message: `Performance level was reported as ${reportedLevel}, ${overallScore}% is ${performanceLevel} in the rubric`
+    });
+  }
+
+  return { criteriaScores, overallScore, performanceLevel, warnings, errors };
+}
+
+// Helper function to replace the scores in an evaluator's result with the ones computed from the rubric,
+// recording the numbers it reported differently as the evaluation's scoring audit
+export function applyScoring(data: any, rubric: Rubric): ScoringResult {
+  const scoring = scoreEvaluation(data, rubric);
+  if (Array.isArray(data.criteriaScores)) {
+    data.criteriaScores = scoring.criteriaScores;
+  }
+  data.overallScore = scoring.overallScore;
+  data.performanceLevel = scoring.performanceLevel;
+  data.scoringAudit = scoring.warnings;
+  delete data.totalScore;
+  return scoring;
+}
+
+// Helper function to describe the audit warnings in one line for logs
+export function summarizeScoringAudit(warnings: ScoringAuditWarning[]): string {
+  if (warnings.length === 0) {
+    return 'the reported scores match the rubric';
+  }
+  return `${warnings.length} reported ${warnings.length === 1 ? 'number differs' : 'numbers differ'} from the rubric: ${warnings.map(warning => warning.field).join(', ')}`;
+}
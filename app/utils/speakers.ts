@@ -0,0 +1,142 @@
+import {
+  ConversationMetadata,
+  ConversationParseError,
+  ConversationParseResult,
+  ConversationTurn,
+  SpeakerRoleMap,
+  SpeakerUtterance
+} from '../types/conversation';
+import { createEmptyConversation, extractStaffNameFromTurns, separateNonVerbal } from './conversation';
+
+// Label used when a transcript has no speaker labels at all
+export const UNKNOWN_SPEAKER = 'Unknown Speaker';
+
+// Speaker labels that name a role rather than a person
+const GENERIC_SPEAKER_PATTERN = /^(speaker|unknown|staff|guest|customer|visitor|host|server|participant|user|assistant)\b/i;
+const STAFF_LABEL_PATTERN = /^(staff|host|server|sommelier|associate)\b/i;
+const GUEST_LABEL_PATTERN = /^(guest|customer|visitor)\b/i;
+
+// Helper function to check whether a speaker label names a role rather than a person
+export function isGenericSpeakerLabel(label: string): boolean {
+  return GENERIC_SPEAKER_PATTERN.test(label);
+}
+
+// Helper function to split a speaker label off the front of a line.
+// Supports "Russell: text", "[Russell] text" and ">> Russell: text".
+export function splitSpeakerLabel(rawText: string): { speaker: string | null; text: string } {
+  const withoutMarker = rawText.replace(/^\s*>>\s*/, '');
+
+  const bracketMatch = withoutMarker.match(/^\s*\[([^\]\d][^\]]{0,39})\]\s*:?\s*([\s\S]*)$/);
+  if (bracketMatch) {
+    return { speaker: bracketMatch[1].trim(), text: bracketMatch[2] };
+  }
+
+  // Up to four words before the colon, so sentences containing a colon are not mistaken for labels
+  const colonMatch = withoutMarker.match(/^\s*([A-Z0-9][\w.'-]*(?:\s+[\w.'-]+){0,3})\s*:\s+([\s\S]*)$/);
+  if (colonMatch && !/^\d+$/.test(colonMatch[1])) {
+    return { speaker: colonMatch[1].trim(), text: colonMatch[2] };
+  }
+
+  return { speaker: null, text: rawText };
+}
+
+// Helper function to list the speaker labels in order of first appearance
+export function getSpeakers(utterances: SpeakerUtterance[]): string[] {
+  const speakers: string[] = [];
+  for (const utterance of utterances) {
+    if (!speakers.includes(utterance.speaker)) {
+      speakers.push(utterance.speaker);
+    }
+  }
+  return speakers;
+}
+
+// Helper function to suggest a role for each speaker.
+// Role-like labels are used as-is; otherwise the speaker who welcomes the guests or
+// introduces themselves is taken to be staff, falling back to whoever speaks first.
+export function guessSpeakerRoles(utterances: SpeakerUtterance[]): SpeakerRoleMap {
+  const speakers = getSpeakers(utterances);
+  const roles: SpeakerRoleMap = {};
+
+  let staffSpeaker = speakers.find(speaker => STAFF_LABEL_PATTERN.test(speaker));
+  if (!staffSpeaker) {
+    const greeting = utterances.find(utterance =>
+      !GUEST_LABEL_PATTERN.test(utterance.speaker) &&
+      /\b(welcome|my name is|my name's)\b/i.test(utterance.text)
+    );
+    staffSpeaker = greeting ? greeting.speaker : speakers.find(speaker => !GUEST_LABEL_PATTERN.test(speaker));
+  }
+
+  for (const speaker of speakers) {
+    roles[speaker] = speaker === staffSpeaker ? 'staff' : 'guest';
+  }
+
+  return roles;
+}
+
+// Helper function to find the staff member's name from the turns.
+// A staff speaker label that is a real name wins, e.g. "Russell" rather than "Speaker 1".
+export function findStaffName(turns: ConversationTurn[]): string | null {
+  const staffSpeakers = Array.from(new Set(turns.filter(turn => turn.role === 'staff').map(turn => turn.speaker)));
+  if (staffSpeakers.length === 1 && !isGenericSpeakerLabel(staffSpeakers[0])) {
+    return staffSpeakers[0];
+  }
+  return extractStaffNameFromTurns(turns);
+}
+
+// Build a conversation from speaker-labelled utterances, merging consecutive utterances from the same speaker into one turn
+export function buildConversationFromUtterances(
+  utterances: SpeakerUtterance[],
+  roles: SpeakerRoleMap,
+  metadata: ConversationMetadata = {}
+): ConversationParseResult {
+  const errors: ConversationParseError[] = [];
+  const conversation = { ...createEmptyConversation(), ...metadata, turns: [] as ConversationTurn[] };
+
+  for (const utterance of utterances) {
+    const previousTurn: ConversationTurn | undefined = conversation.turns[conversation.turns.length - 1];
+
+    if (previousTurn && previousTurn.speaker === utterance.speaker) {
+      previousTurn.text = `${previousTurn.text} ${utterance.text}`;
+      if (utterance.endTime !== undefined) {
+        previousTurn.endTime = Math.max(previousTurn.endTime ?? utterance.endTime, utterance.endTime);
+      }
+      continue;
+    }
+
+    const turn: ConversationTurn = {
+      turnNumber: conversation.turns.length + 1,
+      role: roles[utterance.speaker] || 'guest',
+      speaker: utterance.speaker,
+      text: utterance.text,
+      spokenText: '',
+      stageDirections: [],
+      line: utterance.line
+    };
+    if (utterance.startTime !== undefined && utterance.endTime !== undefined) {
+      turn.startTime = utterance.startTime;
+      turn.endTime = utterance.endTime;
+    }
+    conversation.turns.push(turn);
+  }
+
+  for (const turn of conversation.turns) {
+    Object.assign(turn, separateNonVerbal(turn.text));
+  }
+
+  if (conversation.turns.length === 0) {
+    errors.push({ line: 0, message: 'No conversation turns found' });
+  } else if (!conversation.turns.some(turn => turn.role === 'staff')) {
+    errors.push({ line: 0, message: 'No speaker is mapped to the Staff Member role' });
+  }
+
+  if (!conversation.staffName) {
+    conversation.staffName = findStaffName(conversation.turns);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    conversation
+  };
+}
@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
+import { Conversation } from '../types/conversation';
 
 // Define the job status interface
 export interface JobStatus {
@@ -19,6 +20,7 @@ export interface JobStatus {
   expiresAt?: number; // Optional expiration timestamp
   markdown?: string; // The markdown content to analyze
   fileName?: string; // The name of the file being analyzed
+  conversation?: Conversation; // The parsed conversation
 }
 
 // Storage provider interface
@@ -488,12 +490,13 @@ export function getStorageProvider(): StorageProvider {
 }
 
 // Helper function to create a new job
-export function createJob(markdown?: string, fileName?: string): JobStatus {
+export function createJob(markdown?: string, fileName?: string, conversation?: Conversation): JobStatus {
   return {
     id: uuidv4(),
     status: 'pending',
     markdown,
     fileName,
+    conversation,
     createdAt: Date.now().toString(),
     updatedAt: Date.now().toString()
   };
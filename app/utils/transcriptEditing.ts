@@ -0,0 +1,162 @@
+import { Conversation, ConversationTurn, SpeakerRole, TranscriptImportResult } from '../types/conversation';
+import { separateNonVerbal, ROLE_LABELS, validateConversation } from './conversation';
+
+// Corrections that can be made to the conversation details
+export interface ConversationDetailsUpdate {
+  staffName?: string | null;
+  date?: string | null;
+}
+
+// Helper function to count the spoken words in a turn
+export function countWords(turn: ConversationTurn): number {
+  return turn.spokenText ? turn.spokenText.split(/\s+/).length : 0;
+}
+
+// Helper function to split a turn's text into sentences, keeping the offset where each one ends
+export function splitIntoSentences(text: string): { text: string; end: number }[] {
+  const sentences: { text: string; end: number }[] = [];
+  const pattern = /[^.!?\n]+(?:[.!?]+["')\]*]*|\n+|$)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (!match[0]) {
+      pattern.lastIndex++;
+      continue;
+    }
+    if (match[0].trim()) {
+      sentences.push({ text: match[0].trim(), end: match.index + match[0].length });
+    }
+  }
+
+  return sentences;
+}
+
+// Helper function to number turns from 1 after turns have been merged or split
+function renumberTurns(turns: ConversationTurn[]): ConversationTurn[] {
+  return turns.map((turn, index) => ({ ...turn, turnNumber: index + 1 }));
+}
+
+// Helper function to build a turn with its spoken text and stage directions worked out from the text
+function withText(turn: ConversationTurn, text: string): ConversationTurn {
+  return { ...turn, text, ...separateNonVerbal(text) };
+}
+
+/**
+ * Assigns a turn to a different role. Simulator labels such as "Guest" follow the role;
+ * a speaker's own name is kept.
+ * @param conversation The conversation
+ * @param turnIndex Position of the turn (0-based)
+ * @param role The new role
+ * @returns The corrected conversation
+ */
+export function reassignTurn(conversation: Conversation, turnIndex: number, role: SpeakerRole): Conversation {
+  const turns = conversation.turns.map((turn, index) => {
+    if (index !== turnIndex) return turn;
+    const isRoleLabel = Object.values(ROLE_LABELS).includes(turn.speaker);
+    return { ...turn, role, speaker: isRoleLabel ? ROLE_LABELS[role] : turn.speaker };
+  });
+  return { ...conversation, turns };
+}
+
+/**
+ * Merges a turn with the turn after it. The merged turn keeps the first turn's speaker.
+ * @param conversation The conversation
+ * @param turnIndex Position of the first turn (0-based)
+ * @returns The corrected conversation, unchanged if there is no next turn
+ */
+export function mergeTurnWithNext(conversation: Conversation, turnIndex: number): Conversation {
+  const first = conversation.turns[turnIndex];
+  const second = conversation.turns[turnIndex + 1];
+  if (!first || !second) return conversation;
+
+  const merged = withText(first, `${first.text}\n\n${second.text}`.trim());
+  if (second.endTime !== undefined) {
+    merged.endTime = second.endTime;
+  }
+
+  const turns = [
+    ...conversation.turns.slice(0, turnIndex),
+    merged,
+    ...conversation.turns.slice(turnIndex + 2)
+  ];
+  return { ...conversation, turns: renumberTurns(turns) };
+}
+
+/**
+ * Splits a turn in two at a character offset. Both halves keep the speaker;
+ * use reassignTurn afterwards if the second half belongs to someone else.
+ * @param conversation The conversation
+ * @param turnIndex Position of the turn (0-based)
+ * @param offset Character offset in the turn's text where the second turn starts
+ * @returns The corrected conversation, unchanged if either half would be empty
+ */
+export function splitTurn(conversation: Conversation, turnIndex: number, offset: number): Conversation {
+  const turn = conversation.turns[turnIndex];
+  if (!turn) return conversation;
+
+  const firstText = turn.text.slice(0, offset).trim();
+  const secondText = turn.text.slice(offset).trim();
+  if (!firstText || !secondText) return conversation;
+
+  const firstTurn = withText(turn, firstText);
+  const secondTurn = withText(turn, secondText);
+
+  // Timed turns are divided in proportion to the length of each half
+  if (turn.startTime !== undefined && turn.endTime !== undefined) {
+    const splitTime = turn.startTime + (turn.endTime - turn.startTime) * (firstText.length / (firstText.length + secondText.length));
+    firstTurn.endTime = splitTime;
+    secondTurn.startTime = splitTime;
+  }
+
+  const turns = [
+    ...conversation.turns.slice(0, turnIndex),
+    firstTurn,
+    secondTurn,
+    ...conversation.turns.slice(turnIndex + 1)
+  ];
+  return { ...conversation, turns: renumberTurns(turns) };
+}
+
+/**
+ * Corrects the staff name or date of a conversation
+ * @param conversation The conversation
+ * @param update The fields to change; empty values clear the field
+ * @returns The corrected conversation
+ */
+export function updateConversationDetails(conversation: Conversation, update: ConversationDetailsUpdate): Conversation {
+  const corrected = { ...conversation };
+  if (update.staffName !== undefined) {
+    corrected.staffName = update.staffName?.trim() || null;
+  }
+  if (update.date !== undefined) {
+    corrected.date = update.date?.trim() || null;
+  }
+  return corrected;
+}
+
+// Helper function to check whether an import can be corrected in the preview.
+// Errors tied to a source line (e.g. an unrecognized heading) have to be fixed in the file,
+// because the text they refer to is not part of the parsed turns.
+export function canEditImport(result: TranscriptImportResult): boolean {
+  return result.parseResult.conversation.turns.length > 0 &&
+    result.parseResult.errors.every(error => error.line === 0);
+}
+
+/**
+ * Applies a corrected conversation to an import and checks it again
+ * @param result The import being corrected
+ * @param conversation The corrected conversation
+ * @param details Staff name or date fixed by hand, kept when speaker roles are changed later
+ * @returns The updated import
+ */
+export function applyConversationEdit(
+  result: TranscriptImportResult,
+  conversation: Conversation,
+  details: ConversationDetailsUpdate = {}
+): TranscriptImportResult {
+  return {
+    ...result,
+    metadata: { ...result.metadata, ...details },
+    parseResult: validateConversation(conversation)
+  };
+}
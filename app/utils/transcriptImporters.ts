@@ -0,0 +1,316 @@
+import {
+  CaptionFormat,
+  ConversationMetadata,
+  ConversationParseError,
+  SpeakerRoleMap,
+  SpeakerUtterance,
+  TranscriptImporter,
+  TranscriptImportResult
+} from '../types/conversation';
+import { parseConversation, parseDateValue, parseTimestamp, validateConversation } from './conversation';
+import { detectCaptionFormat, parseCaptions } from './captions';
+import { buildConversationFromUtterances, findStaffName, guessSpeakerRoles, splitSpeakerLabel } from './speakers';
+
+// Minimum share of non-empty lines that must start with a speaker label for plain text to be recognized
+const PLAIN_TEXT_LABEL_RATIO = 0.5;
+
+// Matches an optional leading timestamp in plain text, e.g. "[00:01:02] Russell: hi"
+const PLAIN_TEXT_TIMESTAMP_PATTERN = /^\[?((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\]?\s+/;
+
+// Helper function to build an import result from speaker-labelled utterances
+function importUtterances(
+  importerId: string,
+  utterances: SpeakerUtterance[],
+  sourceErrors: ConversationParseError[],
+  metadata: ConversationMetadata = {}
+): TranscriptImportResult {
+  const speakerRoles = guessSpeakerRoles(utterances);
+  const parseResult = buildConversationFromUtterances(utterances, speakerRoles, metadata);
+
+  // Errors in the source have to be fixed in the file, so they come first
+  if (sourceErrors.length > 0) {
+    parseResult.isValid = false;
+    parseResult.errors = [...sourceErrors, ...parseResult.errors];
+  }
+
+  return {
+    importerId,
+    parseResult,
+    utterances: sourceErrors.length > 0 ? null : utterances,
+    speakerRoles,
+    metadata
+  };
+}
+
+// Simulator markdown ("### Staff Member (1)"), roles are already known
+const markdownImporter: TranscriptImporter = {
+  id: 'markdown',
+  label: 'Conversation markdown',
+  detect: content => /^###\s+(Staff|Guest)\b/im.test(content) || /^##\s+Conversation\s*$/im.test(content),
+  import: content => ({
+    importerId: 'markdown',
+    parseResult: parseConversation(content),
+    utterances: null,
+    speakerRoles: {},
+    metadata: {}
+  })
+};
+
+// Helper function to create a WebVTT or SRT importer
+function createCaptionImporter(format: CaptionFormat, label: string): TranscriptImporter {
+  return {
+    id: format,
+    label,
+    detect: content => detectCaptionFormat(content) === format,
+    import: content => {
+      const { cues, errors } = parseCaptions(content, format);
+      return importUtterances(format, cues, errors);
+    }
+  };
+}
+
+// Helper function to convert a chat message timestamp into an absolute time (ms) or an offset (seconds)
+function readChatTimestamp(value: any): { epoch: number | null; offset: number | null } {
+  if (typeof value === 'number') {
+    // Small numbers are offsets into the recording, large ones are Unix times in seconds or milliseconds
+    if (value < 1e9) return { epoch: null, offset: value };
+    return { epoch: value < 1e12 ? value * 1000 : value, offset: null };
+  }
+
+  if (typeof value === 'string' && value.trim()) {
+    const offset = parseTimestamp(value);
+    if (offset !== null) return { epoch: null, offset };
+
+    const epoch = Date.parse(value);
+    if (!isNaN(epoch)) return { epoch, offset: null };
+  }
+
+  return { epoch: null, offset: null };
+}
+
+// Helper function to read the text of a chat message, including content given as a list of parts
+function readChatContent(message: any): string {
+  const content = message.content ?? message.text ?? message.message;
+  if (typeof content === 'string') return content.trim();
+  if (Array.isArray(content)) {
+    return content
+      .map(part => (typeof part === 'string' ? part : part?.text || ''))
+      .join(' ')
+      .trim();
+  }
+  return '';
+}
+
+// Helper function to find the list of messages in a JSON chat export
+function readChatMessages(data: any): any[] | null {
+  if (Array.isArray(data)) return data;
+  if (data && typeof data === 'object') {
+    for (const key of ['messages', 'conversation', 'transcript']) {
+      if (Array.isArray(data[key])) return data[key];
+    }
+  }
+  return null;
+}
+
+// JSON chat exports: an array of { role, content, timestamp } messages
+const jsonChatImporter: TranscriptImporter = {
+  id: 'json-chat',
+  label: 'JSON chat export',
+  detect: content => {
+    const trimmed = content.trim();
+    if (!trimmed.startsWith('[') && !trimmed.startsWith('{')) return false;
+    try {
+      const messages = readChatMessages(JSON.parse(trimmed));
+      return !!messages && messages.some(message => message && typeof message === 'object' && ('role' in message || 'content' in message));
+    } catch (error) {
+      // Broken JSON is still claimed so its syntax error is reported, but "[Russell] hi" is left to plain text
+      return /^[\[{]\s*[\[{"]/.test(trimmed);
+    }
+  },
+  import: content => {
+    const errors: ConversationParseError[] = [];
+    const utterances: SpeakerUtterance[] = [];
+    const metadata: ConversationMetadata = {};
+
+    let data: any;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      errors.push({ line: 0, message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` });
+      return importUtterances('json-chat', utterances, errors);
+    }
+
+    const messages = readChatMessages(data);
+    if (!messages) {
+      errors.push({ line: 0, message: 'Expected an array of { role, content, timestamp } messages' });
+      return importUtterances('json-chat', utterances, errors);
+    }
+
+    let firstEpoch: number | null = null;
+    messages.forEach((message, index) => {
+      const position = index + 1;
+      if (!message || typeof message !== 'object') {
+        errors.push({ line: 0, message: `Message ${position} is not an object` });
+        return;
+      }
+
+      const speaker = String(message.name || message.speaker || message.role || '').trim();
+      const text = readChatContent(message);
+      if (!speaker) {
+        errors.push({ line: 0, message: `Message ${position} has no role` });
+        return;
+      }
+      if (!text) {
+        // System prompts and empty messages are not part of the conversation
+        return;
+      }
+
+      const utterance: SpeakerUtterance = { index: utterances.length, speaker, text, line: 0 };
+      const timestamp = readChatTimestamp(message.timestamp ?? message.time);
+      if (timestamp.epoch !== null) {
+        if (firstEpoch === null) {
+          firstEpoch = timestamp.epoch;
+          // The first message dates the conversation
+          const parsedDate = typeof message.timestamp === 'string' ? parseDateValue(message.timestamp) : null;
+          const date = parsedDate ? parsedDate.date : new Date(timestamp.epoch).toISOString().split('T')[0];
+          metadata.date = date;
+          metadata.time = parsedDate?.time || null;
+        }
+        utterance.startTime = (timestamp.epoch - firstEpoch) / 1000;
+      } else if (timestamp.offset !== null) {
+        utterance.startTime = timestamp.offset;
+      }
+      utterances.push(utterance);
+    });
+
+    // Chat messages only have a start time, so each one ends when the next begins
+    utterances.forEach((utterance, index) => {
+      if (utterance.startTime === undefined) return;
+      const next = utterances[index + 1];
+      utterance.endTime = next?.startTime !== undefined ? Math.max(next.startTime, utterance.startTime) : utterance.startTime;
+    });
+
+    if (messages.length > 0 && utterances.length === 0 && errors.length === 0) {
+      errors.push({ line: 0, message: 'No messages with content found' });
+    }
+
+    return importUtterances('json-chat', utterances, errors, metadata);
+  }
+};
+
+// Plain text where each line starts with the speaker, e.g. "Russell: hi welcome in"
+const plainTextImporter: TranscriptImporter = {
+  id: 'plain-text',
+  label: 'Plain text ("Name: utterance")',
+  detect: content => {
+    const lines = content.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    const labelled = lines.filter(line => splitSpeakerLabel(line.replace(PLAIN_TEXT_TIMESTAMP_PATTERN, '')).speaker);
+    return labelled.length >= 2 && labelled.length / lines.length >= PLAIN_TEXT_LABEL_RATIO;
+  },
+  import: content => {
+    const errors: ConversationParseError[] = [];
+    const utterances: SpeakerUtterance[] = [];
+
+    content.split(/\r?\n/).forEach((rawLine, index) => {
+      const lineNumber = index + 1;
+      let line = rawLine.trim();
+      if (!line) return;
+
+      let startTime: number | null = null;
+      const timestampMatch = line.match(PLAIN_TEXT_TIMESTAMP_PATTERN);
+      if (timestampMatch) {
+        startTime = parseTimestamp(timestampMatch[1]);
+        line = line.slice(timestampMatch[0].length);
+      }
+
+      const { speaker, text } = splitSpeakerLabel(line);
+      if (speaker) {
+        const utterance: SpeakerUtterance = { index: utterances.length, speaker, text: text.trim(), line: lineNumber };
+        if (startTime !== null) {
+          utterance.startTime = startTime;
+          utterance.endTime = startTime;
+        }
+        utterances.push(utterance);
+        return;
+      }
+
+      // Lines without a label continue the previous utterance
+      const previous = utterances[utterances.length - 1];
+      if (previous) {
+        previous.text = previous.text ? `${previous.text} ${line}` : line;
+      } else {
+        errors.push({ line: lineNumber, message: 'Text found before the first "Name: utterance" line' });
+      }
+    });
+
+    for (const utterance of utterances) {
+      if (!utterance.text) {
+        errors.push({ line: utterance.line, message: `${utterance.speaker} has an empty line` });
+      }
+    }
+
+    return importUtterances('plain-text', utterances, errors);
+  }
+};
+
+// Registered importers, in the order they are tried
+const importers: TranscriptImporter[] = [
+  jsonChatImporter,
+  createCaptionImporter('vtt', 'WebVTT captions'),
+  createCaptionImporter('srt', 'SRT captions'),
+  markdownImporter,
+  plainTextImporter
+];
+
+// Register an additional importer. Importers are tried in order, so more specific formats should go first.
+export function registerTranscriptImporter(importer: TranscriptImporter, options: { first?: boolean } = {}): void {
+  const existingIndex = importers.findIndex(item => item.id === importer.id);
+  if (existingIndex !== -1) {
+    importers.splice(existingIndex, 1);
+  }
+
+  if (options.first) {
+    importers.unshift(importer);
+  } else {
+    importers.push(importer);
+  }
+}
+
+// Helper function to list the registered importers
+export function getTranscriptImporters(): TranscriptImporter[] {
+  return [...importers];
+}
+
+// Helper function to pick the importer for some content
+export function detectTranscriptImporter(content: string): TranscriptImporter | null {
+  return importers.find(importer => importer.detect(content)) || null;
+}
+
+// Import a transcript in any registered format.
+// Content that no importer recognizes is read as simulator markdown, so its parse errors are reported.
+export function importTranscript(content: string): TranscriptImportResult {
+  const importer = detectTranscriptImporter(content) || markdownImporter;
+  console.log(`Transcript import: Using ${importer.label} importer`);
+  return importer.import(content);
+}
+
+// Map speakers to different roles. Only the turns of speakers whose role changed are updated,
+// so corrections made to single turns in the preview are not lost.
+export function applySpeakerRoles(result: TranscriptImportResult, speakerRoles: SpeakerRoleMap): TranscriptImportResult {
+  const conversation = result.parseResult.conversation;
+  const turns = conversation.turns.map(turn => {
+    const role = speakerRoles[turn.speaker];
+    return role && role !== result.speakerRoles[turn.speaker] ? { ...turn, role } : turn;
+  });
+
+  return {
+    ...result,
+    speakerRoles,
+    parseResult: validateConversation({
+      ...conversation,
+      turns,
+      // A staff name fixed by hand is kept, otherwise it follows the new roles
+      staffName: result.metadata.staffName || findStaffName(turns)
+    })
+  };
+}
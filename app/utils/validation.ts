@@ -1,4 +1,19 @@
-import { EvaluationData, CriterionScore, ObservationalNotes, PerformanceLevel } from '../types/evaluation';
+import { EvaluationData, CriterionScore, PerformanceLevel } from '../types/evaluation';
+import { Conversation } from '../types/conversation';
+import { parseConversation } from './conversation';
+import { toTranscript } from './evidence';
+import { detectGuests } from './guests';
+import { computeConversationMetrics } from './metrics';
+import { Rubric } from '../types/rubric';
+import {
+  calculateOverallScore,
+  getLowestPerformanceLevel,
+  getMaxWeightedScore,
+  getPerformanceLevel,
+  getRubricReference,
+  matchObservationalNotes
+} from './rubric';
+import { scoreEvaluation } from './scoring';
 
 // Validation error interface
 export interface ValidationError {
@@ -13,62 +28,16 @@ export interface ValidationResult {
   data: EvaluationData;
 }
 
-// Default criteria for fallback
-export const DEFAULT_CRITERIA = [
-  { criterion: "Initial Greeting and Welcome", weight: 8 },
-  { criterion: "Wine Knowledge and Recommendations", weight: 10 },
-  { criterion: "Customer Engagement", weight: 10 },
-  { criterion: "Sales Techniques", weight: 10 },
-  { criterion: "Upselling and Cross-selling", weight: 8 },
-  { criterion: "Handling Customer Questions", weight: 8 },
-  { criterion: "Personalization", weight: 8 },
-  { criterion: "Closing the Sale", weight: 8 },
-  { criterion: "Follow-up and Future Business", weight: 8 },
-  { criterion: "Closing Interaction", weight: 8 }
-];
-
-// Default observational notes
-export const DEFAULT_OBSERVATIONAL_NOTES: ObservationalNotes = {
-  productKnowledge: { score: 3, notes: "Default product knowledge notes" },
-  handlingObjections: { score: 3, notes: "Default handling objections notes" }
-};
-
-// Default array values
-export const DEFAULT_ARRAY_VALUES = {
-  strengths: [
-    "Not available due to processing error",
-    "Please try again with the conversation",
-    "Consider reviewing the conversation manually"
-  ],
-  areasForImprovement: [
-    "Not available due to processing error",
-    "Please try again with the conversation",
-    "Consider reviewing the conversation manually"
-  ],
-  keyRecommendations: [
-    "Not available due to processing error",
-    "Please try again with the conversation",
-    "Consider reviewing the conversation manually"
-  ]
-};
-
 // Helper function to extract staff name from markdown
 export function extractStaffNameFromMarkdown(markdown: string): string {
-  const staffNameMatch = markdown.match(/Staff(?:\s+Member)?(?:\s+\(\d+\))?[:\s]+([^\n]+)/i);
-  if (staffNameMatch && staffNameMatch[1]) {
-    const nameMatch = staffNameMatch[1].match(/(?:hi|hello|hey)[\s,]+(?:my name is|i'm|i am)\s+([^\s,\.]+)/i);
-    return nameMatch && nameMatch[1] ? nameMatch[1].trim() : staffNameMatch[1].trim();
-  }
-  return "Unknown Staff";
+  const { conversation } = parseConversation(markdown);
+  return conversation.staffName || "Unknown Staff";
 }
 
 // Helper function to extract date from markdown
 export function extractDateFromMarkdown(markdown: string): string {
-  const dateMatch = markdown.match(/Date:?\s+(\d{1,2}\/\d{1,2}\/\d{4}|\d{4}-\d{2}-\d{2})/i);
-  if (dateMatch && dateMatch[1]) {
-    return dateMatch[1];
-  }
-  return new Date().toISOString().split('T')[0];
+  const { conversation } = parseConversation(markdown);
+  return conversation.date || new Date().toISOString().split('T')[0];
 }
 
 // Helper function to extract staff name from filename
@@ -78,12 +47,8 @@ export function extractStaffNameFromFilename(fileName: string): string {
 }
 
 // Helper function to get performance level from score
-export function getPerformanceLevelFromScore(score: number): PerformanceLevel {
-  if (score >= 90) return 'Exceptional';
-  if (score >= 80) return 'Strong';
-  if (score >= 70) return 'Proficient';
-  if (score >= 60) return 'Developing';
-  return 'Needs Improvement';
+export function getPerformanceLevelFromScore(score: number, rubric: Rubric): PerformanceLevel {
+  return getPerformanceLevel(score, rubric);
 }
 
 // Helper function to calculate weighted score
@@ -92,57 +57,33 @@ export function calculateWeightedScore(score: number, weight: number): number {
 }
 
 // Helper function to calculate total score from criteria scores
-export function calculateTotalScoreFromCriteriaScores(criteriaScores: CriterionScore[]): number {
-  const totalWeightedScore = criteriaScores.reduce(
-    (total, criterion) => total + criterion.weightedScore,
-    0
-  );
-  
-  // Maximum possible score is 500 (sum of all weights * 5)
-  return Math.round((totalWeightedScore / 500) * 100);
+export function calculateTotalScoreFromCriteriaScores(criteriaScores: CriterionScore[], rubric: Rubric): number {
+  return calculateOverallScore(criteriaScores, rubric);
 }
 
 // Helper function to normalize score to percentage (0-100)
-export function normalizeScoreToPercentage(score: number): number {
+export function normalizeScoreToPercentage(score: number, rubric: Rubric): number {
   if (score > 100) {
-    return Math.round((score / 500) * 100);
+    return Math.round((score / getMaxWeightedScore(rubric)) * 100);
   }
   return score;
 }
 
-// Helper function to convert string to number
-export function convertToNumber(value: any): number {
-  if (typeof value === 'number') return value;
-  if (typeof value === 'string') return parseFloat(value);
-  return 0;
-}
-
-// Helper function to validate and repair criteria score
-export function validateAndRepairCriteriaScore(score: any, index: number): CriterionScore {
-  return {
-    criterion: score.criterion || `Criterion ${index + 1}`,
-    weight: convertToNumber(score.weight) || 8,
-    score: convertToNumber(score.score) || 3,
-    weightedScore: convertToNumber(score.weightedScore) || (convertToNumber(score.score) || 3) * (convertToNumber(score.weight) || 8),
-    notes: score.notes || 'No notes provided'
-  };
-}
-
-// Main validation function
-export function validateEvaluationData(data: any): ValidationResult {
+// Main validation function, the rubric supplies the criterion weights and performance levels
+export function validateEvaluationData(data: any, rubric: Rubric, conversation?: Conversation): ValidationResult {
   const errors: ValidationError[] = [];
   
-  // Create a default valid structure to fall back on
+  // Start from an empty structure, missing feedback is reported as an error rather than filled in with placeholders
   const validData: EvaluationData = {
     staffName: data?.staffName || "Unknown Staff",
     date: data?.date || new Date().toISOString().split('T')[0],
     overallScore: 0,
-    performanceLevel: "Needs Improvement",
+    performanceLevel: getLowestPerformanceLevel(rubric),
     criteriaScores: [],
-    observationalNotes: DEFAULT_OBSERVATIONAL_NOTES,
-    strengths: [...DEFAULT_ARRAY_VALUES.strengths],
-    areasForImprovement: [...DEFAULT_ARRAY_VALUES.areasForImprovement],
-    keyRecommendations: [...DEFAULT_ARRAY_VALUES.keyRecommendations]
+    observationalNotes: [],
+    strengths: [],
+    areasForImprovement: [],
+    keyRecommendations: []
   };
   
   // Check for required fields
@@ -164,33 +105,33 @@ export function validateEvaluationData(data: any): ValidationResult {
     errors.push({ field: "date", message: "Missing date" });
   }
   
-  // Handle both overallScore and totalScore
-  if (data.overallScore !== undefined) {
-    validData.overallScore = Number(data.overallScore);
-  } else if (data.totalScore !== undefined) {
-    validData.overallScore = Number(data.totalScore);
+  // Score the criteria from the rubric, the overall score and performance level Claude reported are only audited.
+  // Missing notes are left empty and reported, the results page shows them as missing.
+  const scoring = scoreEvaluation(data, rubric);
+  if (Array.isArray(data.criteriaScores)) {
+    validData.criteriaScores = scoring.criteriaScores;
+    errors.push(...scoring.errors);
+    scoring.criteriaScores
+      .filter(item => !item.notApplicable && !item.notes)
+      .forEach(item => errors.push({ field: "criteriaScores", message: `Missing notes for ${item.criterion}` }));
   } else {
-    errors.push({ field: "overallScore", message: "Missing overallScore" });
+    errors.push({ field: "criteriaScores", message: "Missing or invalid criteriaScores" });
   }
+  validData.overallScore = scoring.overallScore;
+  validData.performanceLevel = scoring.performanceLevel;
   
-  if (data.performanceLevel) {
-    validData.performanceLevel = data.performanceLevel;
-  } else {
-    errors.push({ field: "performanceLevel", message: "Missing performanceLevel" });
+  // Keep the audit warnings recorded on the server, and add any found now
+  const scoringAudit = [...(Array.isArray(data.scoringAudit) ? data.scoringAudit : []), ...scoring.warnings];
+  if (scoringAudit.length > 0) {
+    validData.scoringAudit = scoringAudit;
   }
   
-  // Validate criteriaScores
-  if (Array.isArray(data.criteriaScores)) {
-    validData.criteriaScores = data.criteriaScores.map((item: any, index: number) => ({
-      criterion: item.criterion || `Criterion ${index + 1}`,
-      weight: Number(item.weight) || 10,
-      score: Number(item.score) || 3,
-      weightedScore: Number(item.weightedScore) || (Number(item.score) * Number(item.weight)),
-      notes: item.notes || "No notes provided"
-    }));
-  } else {
-    errors.push({ field: "criteriaScores", message: "Missing or invalid criteriaScores" });
-  }
+  // Validate observational notes against the rubric's observational criteria, missing notes are left out
+  const observational = matchObservationalNotes(data.observationalNotes, rubric);
+  validData.observationalNotes = observational.notes;
+  observational.missing.forEach(name => {
+    errors.push({ field: "observationalNotes", message: `Missing observational note for ${name}` });
+  });
   
   // Validate strengths
   if (Array.isArray(data.strengths)) {
@@ -213,28 +154,58 @@ export function validateEvaluationData(data: any): ValidationResult {
     errors.push({ field: "keyRecommendations", message: "Missing or invalid keyRecommendations" });
   }
   
-  // Try to extract staff name from markdown or filename if missing
+  // Try to extract staff name from the conversation, markdown or filename if missing
   if (!validData.staffName || validData.staffName === "Unknown Staff") {
-    if (data?.markdown) {
+    if (conversation?.staffName) {
+      validData.staffName = conversation.staffName;
+    } else if (data?.markdown) {
       validData.staffName = extractStaffNameFromMarkdown(data.markdown);
     } else if (data?.fileName) {
       validData.staffName = extractStaffNameFromFilename(data.fileName);
     }
   }
   
-  // Try to extract date from markdown if missing
-  if (!validData.date) {
-    if (data?.markdown) {
+  // Try to extract date from the conversation or markdown if missing
+  if (!data?.date) {
+    if (conversation?.date) {
+      validData.date = conversation.date;
+    } else if (data?.markdown) {
       validData.date = extractDateFromMarkdown(data.markdown);
     }
   }
   
-  // Normalize score to percentage
-  validData.overallScore = normalizeScoreToPercentage(validData.overallScore);
+  // Keep the guest roster, detecting it from the conversation when the result has none
+  if (data.guestRoster && Array.isArray(data.guestRoster.guests)) {
+    validData.guestRoster = data.guestRoster;
+  } else if (conversation) {
+    validData.guestRoster = detectGuests(conversation);
+  }
+  
+  // Keep the conversation metrics, computing them when the result has none
+  if (data.metrics && data.metrics.questions) {
+    validData.metrics = data.metrics;
+  } else if (conversation) {
+    validData.metrics = computeConversationMetrics(conversation);
+  }
+  
+  // Keep the transcript the evidence citations open, taking it from the conversation when the result has none
+  if (Array.isArray(data.transcript)) {
+    validData.transcript = data.transcript;
+  } else if (conversation) {
+    validData.transcript = toTranscript(conversation);
+  }
+  
+  // Keep the agreement between the samples of a multi-sample evaluation
+  if (data.consistency && Array.isArray(data.consistency.criteria)) {
+    validData.consistency = data.consistency;
+  }
+  
+  // Record the rubric the evaluation was scored against
+  validData.rubric = data.rubric && data.rubric.id ? data.rubric : getRubricReference(rubric);
   
-  // Set performance level based on score if not already set
-  if (!validData.performanceLevel || validData.performanceLevel === "Needs Improvement") {
-    validData.performanceLevel = getPerformanceLevelFromScore(validData.overallScore);
+  // Keep the prompt template the evaluation was made with
+  if (data.prompt && data.prompt.id) {
+    validData.prompt = data.prompt;
   }
   
   return {
@@ -0,0 +1,35 @@
+import React from 'react';
+import { CriterionConsistency, ScoreConfidence } from '@/app/types/evaluation';
+import { describeConfidence } from '@/app/utils/consistency';
+
+interface ConfidenceIndicatorProps {
+  consistency: CriterionConsistency;
+}
+
+// Badge styles for each confidence level
+const CONFIDENCE_STYLES: Record<ScoreConfidence, { label: string; className: string }> = {
+  high: { label: 'High confidence', className: 'bg-green-100 text-green-800' },
+  medium: { label: 'Medium confidence', className: 'bg-yellow-100 text-yellow-800' },
+  low: { label: 'Low confidence', className: 'bg-red-100 text-red-800' }
+};
+
+// Shows how closely the runs of a multi-sample evaluation agreed on a criterion's score
+const ConfidenceIndicator: React.FC<ConfidenceIndicatorProps> = ({ consistency }) => {
+  const style = CONFIDENCE_STYLES[consistency.confidence];
+
+  return (
+    <div className="ml-4 flex flex-col items-end">
+      <span className={`text-sm font-semibold px-2 py-1 rounded ${style.className}`} title={describeConfidence(consistency)}>
+        {style.label}
+      </span>
+      <span className="text-xs text-gray-500 mt-1">
+        Runs: {consistency.scores.map(score => (score === null ? 'N/A' : score)).join(', ')}
+      </span>
+      {consistency.needsReview && (
+        <span className="text-xs font-semibold text-orange-700 mt-1">Needs review</span>
+      )}
+    </div>
+  );
+};
+
+export default ConfidenceIndicator;
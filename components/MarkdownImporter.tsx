@@ -1,9 +1,19 @@
 "use client";
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import Link from 'next/link';
 import { toast } from 'react-hot-toast';
-import { validateEvaluationData } from '@/app/utils/validation';
 import { EvaluationData } from '@/app/types/evaluation';
+import { BatchItem, BatchItemStatus } from '@/app/types/batch';
+import { TranscriptImportResult } from '@/app/types/conversation';
+import { importTranscript } from '@/app/utils/transcriptImporters';
+import { fetchLexicon, normalizeImport } from '@/app/utils/lexicon';
+import { fetchRubricLibrary, selectRubricForScenario } from '@/app/utils/rubric';
+import { RubricLibrary } from '@/app/types/rubric';
+import { createBatchItem, getNextBatchItems, summarizeBatch } from '@/app/utils/batch';
+import { analyzeConversation } from '@/app/utils/analysisClient';
+import { saveEvaluationResult, getEvaluationResultUrl, isQuotaExceededError } from '@/app/utils/evaluationResults';
+import TranscriptPreview from './TranscriptPreview';
 
 interface MarkdownImporterProps {
   onAnalysisComplete: (evaluationData: EvaluationData) => void;
@@ -11,172 +21,412 @@ interface MarkdownImporterProps {
   setIsAnalyzing: (value: boolean) => void;
 }
 
-const MarkdownImporter: React.FC<MarkdownImporterProps> = ({ 
+// Badge styles for each queue status
+const STATUS_STYLES: Record<BatchItemStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-gray-100 text-gray-700' },
+  analyzing: { label: 'Analyzing', className: 'bg-blue-100 text-blue-700' },
+  done: { label: 'Done', className: 'bg-green-100 text-green-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700' }
+};
+
+// Independent evaluations per conversation, more runs give a confidence for each score but take longer
+const SAMPLE_OPTIONS = [
+  { value: 1, label: '1 run' },
+  { value: 3, label: '3 runs, median with confidence' },
+  { value: 5, label: '5 runs, median with confidence' }
+];
+
+// Helper function to read a file as text
+const readFileAsText = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onerror = () => reject(reader.error || new Error(`Could not read ${file.name}`));
+    reader.readAsText(file);
+  });
+};
+
+const MarkdownImporter: React.FC<MarkdownImporterProps> = ({
   onAnalysisComplete,
-  isAnalyzing,
   setIsAnalyzing
 }) => {
-  const [markdown, setMarkdown] = useState<string | null>(null);
-  const [fileName, setFileName] = useState<string>('');
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [previewItemId, setPreviewItemId] = useState<string | null>(null);
+  const [rubricLibrary, setRubricLibrary] = useState<RubricLibrary | null>(null);
+  const [samples, setSamples] = useState(1);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Attempts already started, so an item is never analyzed twice for the same attempt
+  const startedAttemptsRef = useRef<Set<string>>(new Set());
+
+  // Load the rubric library for the rubric picker
+  useEffect(() => {
+    fetchRubricLibrary()
+      .then(setRubricLibrary)
+      .catch(error => console.error('MarkdownImporter: Error loading the rubric library:', error));
+  }, []);
+
+  const updateItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const addFiles = async (files: FileList | File[]) => {
+    const fileList = Array.from(files);
+    if (fileList.length === 0) return;
+
+    const lexicon = await fetchLexicon();
+    const newItems: BatchItem[] = [];
+    for (const file of fileList) {
+      try {
+        const content = await readFileAsText(file);
+
+        // Parse the transcript up front so malformed files are caught before analysis
+        // and correct mis-transcribed winery names so the preview shows what will be analyzed
+        const imported = importTranscript(content);
+        const result = lexicon ? normalizeImport(imported, lexicon) : imported;
+        if (!result.parseResult.isValid) {
+          console.warn(`MarkdownImporter: Conversation parse errors in ${file.name}`, result.parseResult.errors);
+        }
+        newItems.push(createBatchItem(file.name, result));
+      } catch (error) {
+        console.error(`MarkdownImporter: Error reading ${file.name}:`, error);
+        toast.error(`Could not read ${file.name}`);
+      }
+    }
+
+    setItems(prev => [...prev, ...newItems]);
+
+    // Open the preview straight away for a single file so it can be checked before analysis
+    if (newItems.length === 1 && items.length === 0) {
+      setPreviewItemId(newItems[0].id);
+    }
+
+    const invalidCount = newItems.filter(item => !item.importResult.parseResult.isValid).length;
+    if (invalidCount > 0) {
+      toast.error(`${invalidCount} of ${newItems.length} conversations could not be parsed. Please fix the errors listed below.`);
+    }
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-    
-    setFileName(file.name);
-    
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
-      setMarkdown(content);
-    };
-    reader.readAsText(file);
+    if (event.target.files) {
+      addFiles(event.target.files);
+    }
   };
-  
-  const analyzeConversation = async () => {
-    if (!markdown) {
-      toast.error('Please select a markdown file first');
-      return;
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (event.dataTransfer.files) {
+      addFiles(event.dataTransfer.files);
     }
-    
-    setIsAnalyzing(true);
-    
-    try {
-      // Call the direct evaluation endpoint
-      console.log('MarkdownImporter: Calling API endpoint', { endpoint: '/api/analyze-conversation' });
-      const response = await fetch('/api/analyze-conversation', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          markdown: markdown,
-          fileName: fileName,
-          directEvaluation: true
-        }),
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || `Error: ${response.status}`);
-      }
-      
-      const { jobId, message } = await response.json();
-      
-      if (!jobId) {
-        throw new Error('No job ID received');
-      }
-      
-      // Show toast notification
-      toast.success('Analysis started! This may take a minute...');
-      
-      // Poll for job status
-      let completed = false;
-      let result = null;
-      let retryCount = 0;
-      const startTime = Date.now();
-      const MAX_POLLING_TIME = 300000; // 300 seconds max polling time
-      
-      while (!completed && retryCount < 20 && (Date.now() - startTime) < MAX_POLLING_TIME) {
-        // Wait 3 seconds between polls
-        await new Promise(resolve => setTimeout(resolve, 3000));
-        
+  };
+
+  // Corrections made in the preview replace the imported conversation that will be sent
+  const handleImportChange = (item: BatchItem, importResult: TranscriptImportResult) => {
+    updateItem(item.id, { importResult });
+  };
+
+  const startItem = useCallback((item: BatchItem) => {
+    const attemptKey = `${item.id}:${item.attempts}`;
+    if (startedAttemptsRef.current.has(attemptKey)) return;
+    startedAttemptsRef.current.add(attemptKey);
+
+    updateItem(item.id, { status: 'analyzing', error: null, warning: null, attempts: item.attempts + 1 });
+
+    analyzeConversation(
+      item.importResult.parseResult.conversation,
+      item.fileName,
+      jobId => updateItem(item.id, { jobId }),
+      item.rubricId || undefined,
+      samples
+    )
+      .then(outcome => {
+        // The analysis succeeded even when its result cannot be stored, so it is not marked failed and retried
+        let resultId: string | null = null;
+        let warning: string | null = null;
         try {
-          const statusResponse = await fetch(`/api/check-job-status?jobId=${jobId}`, {
-            method: 'GET'
-          });
-          
-          if (!statusResponse.ok) {
-            throw new Error(`Error checking status: ${statusResponse.status}`);
-          }
-          
-          const job = await statusResponse.json();
-          
-          if (job.status === 'completed') {
-            completed = true;
-            result = job.result;
-          } else if (job.status === 'failed') {
-            throw new Error(job.error || 'Analysis failed');
-          }
-          
-          // If still processing, continue polling
+          resultId = saveEvaluationResult(outcome.data, item.fileName, outcome.jobId);
         } catch (error) {
-          console.error('Error checking job status:', error);
-          retryCount++;
+          console.error(`MarkdownImporter: Error storing the result of ${item.fileName}:`, error);
+          warning = isQuotaExceededError(error)
+            ? 'Result not saved: the browser storage is full even after dropping older results.'
+            : 'Result not saved: it could not be written to the browser storage.';
         }
-      }
-      
-      // Validate the evaluation data structure
-      const validationResult = validateEvaluationData(result);
-      if (!validationResult.isValid) {
-        console.warn('Validation issues found:', validationResult.errors);
-        toast.error('The evaluation data has some issues, but we\'ll try to use it anyway');
-      }
-      
-      // Use the validated data
-      onAnalysisComplete(validationResult.data);
-      toast.success('Conversation analyzed successfully!');
-      
-      // Reset the form
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-      setMarkdown(null);
-      setFileName('');
-      
-    } catch (error) {
-      console.error('Error analyzing conversation:', error);
-      toast.error(error instanceof Error ? error.message : 'Error analyzing conversation. Please try again.');
-    } finally {
-      setIsAnalyzing(false);
+        updateItem(item.id, { status: 'done', result: outcome.data, resultId, warning });
+      })
+      .catch(error => {
+        console.error(`MarkdownImporter: Error analyzing ${item.fileName}:`, error);
+        updateItem(item.id, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Error analyzing conversation'
+        });
+      });
+  }, [updateItem, samples]);
+
+  // Start queued items as slots free up, and finish the batch when nothing is left to run
+  useEffect(() => {
+    if (!isBatchRunning) return;
+
+    const nextItems = getNextBatchItems(items);
+    nextItems.forEach(startItem);
+
+    const summary = summarizeBatch(items);
+    if (nextItems.length > 0 || summary.analyzing > 0) return;
+
+    setIsBatchRunning(false);
+    setIsAnalyzing(false);
+
+    if (summary.failed > 0) {
+      toast.error(`${summary.done} of ${summary.done + summary.failed} conversations analyzed, ${summary.failed} failed`);
+    } else if (summary.done > 0) {
+      toast.success(summary.done === 1 ? 'Conversation analyzed successfully!' : `${summary.done} conversations analyzed successfully!`);
     }
+
+    // A single upload goes straight to its detailed results
+    if (items.length === 1 && items[0].status === 'done' && items[0].result) {
+      onAnalysisComplete(items[0].result);
+      setItems([]);
+    }
+  }, [items, isBatchRunning, startItem, setIsAnalyzing, onAnalysisComplete]);
+
+  const analyzeQueue = () => {
+    const summary = summarizeBatch(items);
+    if (summary.total === 0) {
+      toast.error('Please select a conversation file first');
+      return;
+    }
+
+    if (summary.queued === 0) {
+      toast.error('Please fix the conversation parse errors first');
+      return;
+    }
+
+    toast.success(summary.queued === 1 ? 'Analysis started! This may take a minute...' : `Analyzing ${summary.queued} conversations...`);
+    setIsAnalyzing(true);
+    setIsBatchRunning(true);
   };
-  
+
+  const retryItem = (item: BatchItem) => {
+    updateItem(item.id, { status: 'queued', error: null });
+    setIsAnalyzing(true);
+    setIsBatchRunning(true);
+  };
+
+  const removeItem = (item: BatchItem) => {
+    setItems(prev => prev.filter(existing => existing.id !== item.id));
+  };
+
+  const clearFinished = () => {
+    setItems(prev => prev.filter(item => item.status !== 'done'));
+  };
+
+  const summary = summarizeBatch(items);
+  const finishedItems = items.filter(item => item.status === 'done' || item.status === 'failed');
+  const showSummaryTable = !isBatchRunning && items.length > 1 && finishedItems.length > 0;
+
   return (
-    <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4">
-      <input
-        type="file"
-        ref={fileInputRef}
-        onChange={handleFileChange}
-        accept=".md,.txt"
-        className="hidden"
-      />
-      <button
-        onClick={() => fileInputRef.current?.click()}
-        className="px-4 py-2 bg-purple-700 text-white rounded hover:bg-purple-600 flex items-center"
-        disabled={isAnalyzing}
+    <div className="flex flex-col gap-4">
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col sm:flex-row items-start sm:items-center gap-4 p-4 border-2 border-dashed rounded ${isDragging ? 'border-purple-500 bg-purple-50' : 'border-gray-300'}`}
       >
-        <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"></path>
-        </svg>
-        Import Conversation
-      </button>
-      
-      {fileName && (
-        <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2">
-          <span className="text-sm text-gray-600 truncate max-w-xs">{fileName}</span>
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={handleFileChange}
+          accept=".md,.txt,.vtt,.srt,.json"
+          multiple
+          className="hidden"
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-4 py-2 bg-purple-700 text-white rounded hover:bg-purple-600 flex items-center"
+        >
+          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"></path>
+          </svg>
+          Import Conversations
+        </button>
+        <span className="text-sm text-gray-500">or drop transcript files here</span>
+
+        {items.length > 0 && (
+          <select
+            value={samples}
+            onChange={(e) => setSamples(Number(e.target.value))}
+            disabled={isBatchRunning}
+            className="border border-gray-300 rounded px-2 py-2 text-sm text-gray-700 sm:ml-auto"
+            title="Evaluate each conversation several times and keep the median score of each criterion"
+          >
+            {SAMPLE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        )}
+
+        {items.length > 0 && (
           <button
-            onClick={analyzeConversation}
-            disabled={isAnalyzing}
-            className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-500 flex items-center"
+            onClick={analyzeQueue}
+            disabled={isBatchRunning || summary.queued === 0}
+            className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-500 flex items-center disabled:opacity-50"
           >
-            {isAnalyzing ? (
+            {isBatchRunning ? (
               <>
                 <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                 </svg>
-                Analyzing...
+                Analyzing... ({summary.done + summary.failed} of {summary.done + summary.failed + summary.analyzing + summary.queued} finished)
               </>
             ) : (
-              <>Analyze with Claude</>
+              <>Analyze {summary.queued === 1 ? 'with Claude' : `${summary.queued} conversations`}</>
             )}
           </button>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded">
+          {items.map(item => {
+            const { parseResult } = item.importResult;
+            const showPreview = previewItemId === item.id || (item.status === 'queued' && !parseResult.isValid);
+            const status = STATUS_STYLES[item.status];
+
+            return (
+              <li key={item.id} className="p-3 text-sm space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-gray-800 truncate max-w-xs">{item.fileName}</span>
+                  <span className={`px-2 py-0.5 rounded text-xs ${status.className}`}>{status.label}</span>
+                  {parseResult.isValid && (
+                    <span className="text-gray-600">
+                      {parseResult.conversation.staffName || 'Staff name not found'}
+                      {' · '}
+                      {parseResult.conversation.date || 'No date'}
+                      {' · '}
+                      {parseResult.conversation.turns.length} turns
+                      {parseResult.conversation.scenario?.title && ` · ${parseResult.conversation.scenario.title}`}
+                    </span>
+                  )}
+                  {rubricLibrary && parseResult.isValid && (
+                    <select
+                      value={item.rubricId || ''}
+                      onChange={(e) => updateItem(item.id, { rubricId: e.target.value || null })}
+                      disabled={item.status === 'analyzing' || item.status === 'done'}
+                      className="border border-gray-300 rounded px-1 py-0.5 text-gray-700"
+                      title="Rubric to score the conversation against"
+                    >
+                      <option value="">
+                        Auto: {selectRubricForScenario(rubricLibrary, parseResult.conversation.scenario).name}
+                      </option>
+                      {rubricLibrary.rubrics.map(rubric => (
+                        <option key={rubric.id} value={rubric.id}>{rubric.name}</option>
+                      ))}
+                    </select>
+                  )}
+                  <span className="ml-auto flex gap-2">
+                    {(item.status === 'queued' || item.status === 'failed') && (
+                      <button
+                        onClick={() => setPreviewItemId(previewItemId === item.id ? null : item.id)}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {previewItemId === item.id ? 'Hide preview' : 'Preview & correct'}
+                      </button>
+                    )}
+                    {item.status === 'failed' && (
+                      <button onClick={() => retryItem(item)} className="text-blue-600 hover:underline">
+                        Retry
+                      </button>
+                    )}
+                    {item.status === 'done' && item.resultId && (
+                      <Link href={getEvaluationResultUrl(item.resultId)} className="text-blue-600 hover:underline">
+                        View results
+                      </Link>
+                    )}
+                    {item.status !== 'analyzing' && (
+                      <button onClick={() => removeItem(item)} className="text-gray-500 hover:underline">
+                        Remove
+                      </button>
+                    )}
+                  </span>
+                </div>
+
+                {item.error && (
+                  <p className="text-red-700">{item.error}</p>
+                )}
+
+                {item.warning && (
+                  <p className="text-yellow-700">{item.warning}</p>
+                )}
+
+                {showPreview && (
+                  <TranscriptPreview
+                    importResult={item.importResult}
+                    onChange={(importResult) => handleImportChange(item, importResult)}
+                    disabled={item.status === 'analyzing' || item.status === 'done'}
+                  />
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {showSummaryTable && (
+        <div className="border border-gray-200 rounded">
+          <div className="flex items-center justify-between p-3 bg-gray-50">
+            <h3 className="font-medium text-gray-800">
+              Batch results: {summary.done} analyzed{summary.failed > 0 && `, ${summary.failed} failed`}
+            </h3>
+            <button onClick={clearFinished} className="text-sm text-gray-500 hover:underline">
+              Clear finished
+            </button>
+          </div>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-t border-gray-200">
+                <th className="p-2">File</th>
+                <th className="p-2">Staff</th>
+                <th className="p-2">Date</th>
+                <th className="p-2 text-right">Score</th>
+                <th className="p-2">Performance</th>
+                <th className="p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {finishedItems.map(item => (
+                <tr key={item.id} className="border-t border-gray-200">
+                  <td className="p-2 truncate max-w-xs">{item.fileName}</td>
+                  <td className="p-2">{item.result?.staffName || '-'}</td>
+                  <td className="p-2">{item.result?.date || '-'}</td>
+                  <td className="p-2 text-right">{item.result ? `${item.result.overallScore}%` : '-'}</td>
+                  <td className="p-2">{item.result?.performanceLevel || <span className="text-red-700">{item.error}</span>}</td>
+                  <td className="p-2">
+                    {item.resultId ? (
+                      <Link href={getEvaluationResultUrl(item.resultId)} className="text-blue-600 hover:underline">
+                        Details
+                      </Link>
+                    ) : item.status === 'done' ? (
+                      <span className="text-yellow-700">Not saved</span>
+                    ) : (
+                      <button onClick={() => retryItem(item)} className="text-blue-600 hover:underline">
+                        Retry
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
         </div>
       )}
     </div>
   );
 };
 
-export default MarkdownImporter; 
\ No newline at end of file
+export default MarkdownImporter;
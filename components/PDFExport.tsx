@@ -3,6 +3,9 @@
 import React, { useState, useEffect } from 'react';
 import { Document, Page, Text, View, StyleSheet, PDFViewer, pdf, PDFDownloadLink as ReactPDFDownloadLink, PDFDownloadLinkProps, BlobProvider } from '@react-pdf/renderer';
 import type { EvaluationData } from '@/types/evaluation';
+import { getMetricRows } from '@/app/utils/metrics';
+import { findObservationalCriterion, getPerformanceLevelColor, listObservationalNotes } from '@/app/utils/rubric';
+import type { Rubric } from '@/app/types/rubric';
 import LoadingIndicator from './LoadingIndicator';
 import { toast } from 'react-hot-toast';
 
@@ -84,6 +87,17 @@ const styles = StyleSheet.create({
     color: '#1F2937',
     fontWeight: 500,
   },
+  metricLabel: {
+    width: '50%',
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  metricValue: {
+    width: '50%',
+    fontSize: 12,
+    color: '#1F2937',
+    fontWeight: 500,
+  },
   criterionCard: {
     marginBottom: 15,
     padding: 10,
@@ -167,12 +181,13 @@ const extractSuggestions = (notes: string): string[] => {
 
 interface PDFExportProps {
   evaluationData: EvaluationData;
+  rubric?: Rubric | null;           // Rubric the evaluation was scored against, for the performance level color and criterion names
   onClose: () => void;
   fileName?: string;
 }
 
 // Separate component for the PDF document
-const PDFDocument: React.FC<{ evaluationData: EvaluationData }> = ({ evaluationData }) => {
+const PDFDocument: React.FC<{ evaluationData: EvaluationData; rubric: Rubric | null }> = ({ evaluationData, rubric }) => {
   // Format date for display
   const formatDate = (dateString: string) => {
     try {
@@ -211,15 +226,38 @@ const PDFDocument: React.FC<{ evaluationData: EvaluationData }> = ({ evaluationD
             </View>
             <View style={styles.summaryRow}>
               <Text style={styles.summaryLabel}>Performance Level:</Text>
-              <Text style={styles.summaryValue}>{evaluationData.performanceLevel}</Text>
+              <Text style={[styles.summaryValue, { color: getPerformanceLevelColor(rubric, evaluationData.performanceLevel) }]}>
+                {evaluationData.performanceLevel}
+              </Text>
             </View>
             <View style={styles.summaryRow}>
               <Text style={styles.summaryLabel}>Overall Score:</Text>
-              <Text style={styles.summaryValue}>{evaluationData.overallScore}/5</Text>
+              <Text style={styles.summaryValue}>{evaluationData.overallScore}%</Text>
             </View>
+            {evaluationData.rubric && (
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Rubric:</Text>
+                <Text style={styles.summaryValue}>{evaluationData.rubric.name}</Text>
+              </View>
+            )}
           </View>
         </View>
 
+        {/* Conversation Metrics Section */}
+        {evaluationData.metrics && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Conversation Metrics</Text>
+            <View style={styles.summaryCard}>
+              {getMetricRows(evaluationData.metrics).map((row, index) => (
+                <View key={index} style={styles.summaryRow}>
+                  <Text style={styles.metricLabel}>{row.label}:</Text>
+                  <Text style={styles.metricValue}>{row.value}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Criteria Scores Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Detailed Criteria Analysis</Text>
@@ -232,11 +270,16 @@ const PDFDocument: React.FC<{ evaluationData: EvaluationData }> = ({ evaluationD
               <View key={index} style={styles.criterionCard}>
                 <View style={styles.criterionHeader}>
                   <Text style={styles.criterionName}>{criterion.criterion}</Text>
-                  <Text style={[styles.criterionScore, { color: scoreColor }]}>
-                    {criterion.score}/5
+                  <Text style={[styles.criterionScore, { color: criterion.notApplicable ? '#6B7280' : scoreColor }]}>
+                    {criterion.notApplicable ? 'N/A (not counted)' : `${criterion.score}/5`}
                   </Text>
                 </View>
-                <Text style={styles.criterionNotes}>{criterion.notes}</Text>
+                <Text style={styles.criterionNotes}>{criterion.notes || 'No notes were recorded for this criterion'}</Text>
+                {!criterion.notApplicable && criterion.checklist && criterion.checklist.map((result, idx) => (
+                  <Text key={idx} style={styles.listItem}>
+                    {result.met ? '[x]' : '[ ]'} {result.item}{result.evidence ? ` - "${result.evidence}"` : ''}
+                  </Text>
+                ))}
                 {example && (
                   <View style={styles.exampleBox}>
                     <Text style={styles.exampleText}>"{example}"</Text>
@@ -255,6 +298,26 @@ const PDFDocument: React.FC<{ evaluationData: EvaluationData }> = ({ evaluationD
           })}
         </View>
 
+        {/* Observational Criteria Section */}
+        {listObservationalNotes(evaluationData.observationalNotes).length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Observational Criteria (No Weight)</Text>
+            {listObservationalNotes(evaluationData.observationalNotes).map((note, index) => (
+              <View key={index} style={styles.criterionCard}>
+                <View style={styles.criterionHeader}>
+                  <Text style={styles.criterionName}>
+                    {(rubric && findObservationalCriterion(rubric, note.criterion)?.name) || note.criterion}
+                  </Text>
+                  <Text style={[styles.criterionScore, { color: getScoreColor(note.score) }]}>
+                    {note.score}/5
+                  </Text>
+                </View>
+                <Text style={styles.criterionNotes}>{note.notes}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Strengths Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Key Strengths</Text>
@@ -288,7 +351,7 @@ const PDFDocument: React.FC<{ evaluationData: EvaluationData }> = ({ evaluationD
   );
 };
 
-const PDFExport: React.FC<PDFExportProps> = ({ evaluationData, onClose, fileName = 'wine-sales-evaluation.pdf' }) => {
+const PDFExport: React.FC<PDFExportProps> = ({ evaluationData, rubric = null, onClose, fileName = 'wine-sales-evaluation.pdf' }) => {
   const [isClient, setIsClient] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
@@ -356,7 +419,7 @@ const PDFExport: React.FC<PDFExportProps> = ({ evaluationData, onClose, fileName
         </div>
         
         <div className="mb-4">
-          <BlobProvider document={<PDFDocument evaluationData={evaluationData} />}>
+          <BlobProvider document={<PDFDocument evaluationData={evaluationData} rubric={rubric} />}>
             {({ blob, url, loading, error }) => {
               if (loading) return <div>Loading document...</div>;
               if (error) return <div>Error: {error instanceof Error ? error.message : 'Unknown error'}</div>;
@@ -0,0 +1,153 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { PromptLibraryListing, PromptSection, PromptTemplate } from '@/app/types/prompt';
+import {
+  fetchPromptLibrary,
+  fetchPromptTemplate,
+  findTemplateVariables,
+  PROMPT_SECTION_HEADINGS
+} from '@/app/utils/promptTemplate';
+
+const PromptTemplateLibrary: React.FC = () => {
+  const [listing, setListing] = useState<PromptLibraryListing | null>(null);
+  const [templateId, setTemplateId] = useState<string>('');
+  const [version, setVersion] = useState<number | null>(null);
+  const [template, setTemplate] = useState<PromptTemplate | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPromptLibrary()
+      .then(loaded => {
+        setListing(loaded);
+        setTemplateId(loaded.activeTemplate.id);
+        setVersion(loaded.activeTemplate.version ?? null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load the prompt library'));
+  }, []);
+
+  // Load the chosen version of the chosen template, the current version when none is chosen
+  useEffect(() => {
+    if (!templateId) return;
+    setTemplate(null);
+    fetchPromptTemplate(templateId, version ?? undefined)
+      .then(setTemplate)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load the prompt template'));
+  }, [templateId, version]);
+
+  if (error) {
+    return <div className="p-4 bg-red-50 text-red-700 rounded-lg whitespace-pre-line">{error}</div>;
+  }
+
+  if (!listing) {
+    return <p className="text-gray-600">Loading prompt templates...</p>;
+  }
+
+  const active = listing.activeTemplate;
+  const selected = listing.templates.find(summary => summary.id === templateId);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold text-gray-800 mb-1">Templates</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          {listing.setByDeployment
+            ? `New evaluations use ${active.id}${active.version ? ` v${active.version}` : ''}, set by the PROMPT_TEMPLATE setting of this deployment.`
+            : 'New evaluations use the library default. Set PROMPT_TEMPLATE to use another template.'}
+        </p>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Template</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Id</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Version</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">Status</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {listing.templates.map(summary => (
+                <tr key={summary.id} className={summary.id === templateId ? 'bg-blue-50' : ''}>
+                  <td className="px-4 py-2">
+                    <p className="font-medium text-gray-800">{summary.name}</p>
+                    <p className="text-gray-500">{summary.description}</p>
+                  </td>
+                  <td className="px-4 py-2 font-mono text-gray-600">{summary.id}</td>
+                  <td className="px-4 py-2 text-gray-600">
+                    v{summary.version}
+                    {summary.versions.length > 1 && (
+                      <span className="text-gray-400"> ({summary.versions.length} versions)</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 space-x-1">
+                    {summary.id === active.id && (
+                      <span className="inline-block px-2 py-0.5 rounded bg-green-100 text-green-800">
+                        In use{active.version ? ` (v${active.version})` : ''}
+                      </span>
+                    )}
+                    {summary.id === listing.defaultTemplateId && (
+                      <span className="inline-block px-2 py-0.5 rounded bg-gray-100 text-gray-700">Library default</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      onClick={() => {
+                        setTemplateId(summary.id);
+                        setVersion(null);
+                      }}
+                      className="text-blue-600 hover:underline"
+                    >
+                      View
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {selected && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <h2 className="text-xl font-semibold text-gray-800">{selected.name}</h2>
+            <div>
+              <label className="text-sm font-medium text-gray-700 mr-2" htmlFor="prompt-version-select">Version</label>
+              <select
+                id="prompt-version-select"
+                value={version ?? selected.version}
+                onChange={(e) => setVersion(Number(e.target.value))}
+                className="border border-gray-300 rounded px-2 py-1 text-gray-700"
+              >
+                {selected.versions.map(item => (
+                  <option key={item} value={item}>v{item}{item === selected.version ? ' (current)' : ''}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {!template ? (
+            <p className="text-gray-600">Loading template...</p>
+          ) : (
+            <div className="space-y-6">
+              {(Object.keys(PROMPT_SECTION_HEADINGS) as PromptSection[]).map(section => (
+                <div key={section}>
+                  <h3 className="text-lg font-medium text-gray-800 mb-1">{PROMPT_SECTION_HEADINGS[section]}</h3>
+                  <p className="text-sm text-gray-500 mb-2">
+                    Variables: {findTemplateVariables(template.sections[section]).join(', ') || 'none'}
+                  </p>
+                  <pre className="bg-gray-50 border border-gray-200 rounded p-3 text-sm text-gray-700 whitespace-pre-wrap max-h-96 overflow-y-auto">
+                    {template.sections[section]}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptTemplateLibrary;
@@ -0,0 +1,388 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { Rubric, RubricLibrary } from '@/app/types/rubric';
+import {
+  checkRubric,
+  fetchRubric,
+  fetchRubricLibrary,
+  formatRubricErrors,
+  getRubricExportUrl,
+  getTotalWeight,
+  importRubricFile,
+  needsReevaluation,
+  saveRubric,
+  summarizeRubricChanges
+} from '@/app/utils/rubric';
+import {
+  addCriterion,
+  addPerformanceBand,
+  moveCriterion,
+  previewRubricChanges,
+  removeCriterion,
+  removePerformanceBand,
+  updateCriterion,
+  updateDescriptor,
+  updatePerformanceBand
+} from '@/app/utils/rubricEditing';
+import { listEvaluationResults, StoredEvaluationResult } from '@/app/utils/evaluationResults';
+
+const RubricEditor: React.FC = () => {
+  const [library, setLibrary] = useState<RubricLibrary | null>(null);
+  const [rubricId, setRubricId] = useState<string>('');
+  // The rubric as it was loaded, and the rubric with the editor's changes
+  const [original, setOriginal] = useState<Rubric | null>(null);
+  const [draft, setDraft] = useState<Rubric | null>(null);
+  const [expandedCriterion, setExpandedCriterion] = useState<number | null>(null);
+  const [sampleResults, setSampleResults] = useState<StoredEvaluationResult[]>([]);
+  const [sampleId, setSampleId] = useState<string>('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRubricLibrary()
+      .then(loaded => {
+        setLibrary(loaded);
+        setRubricId(loaded.defaultRubricId);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load the rubric library'));
+  }, []);
+
+  // Load the chosen rubric, and the stored evaluations scored against it to preview changes with
+  useEffect(() => {
+    if (!rubricId) return;
+    setError(null);
+    fetchRubric(rubricId)
+      .then(loaded => {
+        setOriginal(loaded);
+        setDraft(loaded);
+        setExpandedCriterion(null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load the rubric'));
+
+    const samples = listEvaluationResults().filter(result => (result.data.rubric?.id || library?.defaultRubricId) === rubricId);
+    setSampleResults(samples);
+    setSampleId(samples[0]?.id || '');
+  }, [rubricId, library]);
+
+  const totalWeight = draft ? getTotalWeight(draft) : 0;
+  const errors = useMemo(() => (draft ? formatRubricErrors(checkRubric(draft)) : []), [draft]);
+  const hasChanges = !!draft && !!original && JSON.stringify(draft) !== JSON.stringify(original);
+
+  const preview = useMemo(() => {
+    const sample = sampleResults.find(result => result.id === sampleId);
+    return sample && original && draft ? previewRubricChanges(sample.data, original, draft) : null;
+  }, [sampleResults, sampleId, original, draft]);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    try {
+      const saved = await saveRubric(draft);
+      setOriginal(saved);
+      setDraft(saved);
+      toast.success(`Saved ${saved.name} as version ${saved.version}`);
+    } catch (err) {
+      console.error('RubricEditor: Error saving rubric:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to save the rubric');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Import a JSON, YAML or markdown rubric file, as a new rubric or the next version of the one with the same id
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (hasChanges && !window.confirm('Importing a rubric discards the changes you have not saved. Continue?')) return;
+
+    setIsSaving(true);
+    try {
+      const { rubric, created } = await importRubricFile(await file.text(), file.name);
+      setLibrary(await fetchRubricLibrary());
+      setRubricId(rubric.id);
+      setOriginal(rubric);
+      setDraft(rubric);
+      toast.success(created ? `Added ${rubric.name} to the rubric library` : `Imported ${rubric.name} as version ${rubric.version}`);
+    } catch (err) {
+      console.error('RubricEditor: Error importing rubric:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to import the rubric');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (error) {
+    return <div className="p-4 bg-red-50 text-red-700 rounded-lg whitespace-pre-line">{error}</div>;
+  }
+
+  if (!library || !draft || !original) {
+    return <p className="text-gray-600">Loading rubric...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="rubric-select">Rubric</label>
+            <select
+              id="rubric-select"
+              value={rubricId}
+              onChange={(e) => setRubricId(e.target.value)}
+              disabled={isSaving}
+              className="border border-gray-300 rounded px-2 py-1 text-gray-700"
+            >
+              {library.rubrics.map(summary => (
+                <option key={summary.id} value={summary.id}>{summary.name}</option>
+              ))}
+            </select>
+            <p className="text-sm text-gray-500 mt-1">Version {original.version}</p>
+            <div className="flex flex-wrap items-center gap-3 mt-2 text-sm">
+              <a href={getRubricExportUrl(rubricId, 'json')} download className="text-blue-600 hover:underline">Export JSON</a>
+              <a href={getRubricExportUrl(rubricId, 'yaml')} download className="text-blue-600 hover:underline">Export YAML</a>
+              <label className={`text-blue-600 hover:underline ${isSaving ? 'opacity-50' : 'cursor-pointer'}`}>
+                Import rubric
+                <input
+                  type="file"
+                  accept=".json,.yaml,.yml,.md,.markdown"
+                  onChange={handleImport}
+                  disabled={isSaving}
+                  className="hidden"
+                />
+              </label>
+            </div>
+          </div>
+          <div className="text-right">
+            <p className={`text-2xl font-bold ${totalWeight === 100 ? 'text-green-600' : 'text-red-600'}`}>
+              {totalWeight}%
+            </p>
+            <p className="text-sm text-gray-500">
+              {totalWeight === 100 ? 'Weights add up to 100%' : `Weights must add up to 100% (${totalWeight > 100 ? 'remove' : 'add'} ${Math.abs(100 - totalWeight)}%)`}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold text-gray-800 mb-4">Weighted Criteria</h2>
+        <div className="space-y-3">
+          {draft.criteria.map((criterion, index) => (
+            <div key={index} className="border border-gray-200 rounded-md p-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-gray-500 w-6">{index + 1}.</span>
+                <input
+                  type="text"
+                  value={criterion.name}
+                  onChange={(e) => setDraft(updateCriterion(draft, index, { name: e.target.value }))}
+                  className="flex-1 min-w-[12rem] border border-gray-300 rounded px-2 py-1"
+                  aria-label="Criterion name"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={criterion.weight}
+                  onChange={(e) => setDraft(updateCriterion(draft, index, { weight: Number(e.target.value) || 0 }))}
+                  className="w-20 border border-gray-300 rounded px-2 py-1 text-right"
+                  aria-label="Weight (%)"
+                />
+                <span className="text-gray-500">%</span>
+                <button
+                  onClick={() => setDraft(moveCriterion(draft, index, -1))}
+                  disabled={index === 0}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded disabled:opacity-40"
+                  title="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => setDraft(moveCriterion(draft, index, 1))}
+                  disabled={index === draft.criteria.length - 1}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded disabled:opacity-40"
+                  title="Move down"
+                >
+                  ↓
+                </button>
+                <button
+                  onClick={() => setExpandedCriterion(expandedCriterion === index ? null : index)}
+                  className="px-2 py-1 text-sm text-blue-600 hover:underline"
+                >
+                  {expandedCriterion === index ? 'Hide scores' : 'Edit scores'}
+                </button>
+                <button
+                  onClick={() => {
+                    setExpandedCriterion(null);
+                    setDraft(removeCriterion(draft, index));
+                  }}
+                  className="px-2 py-1 text-sm text-red-600 hover:underline"
+                >
+                  Remove
+                </button>
+              </div>
+
+              {expandedCriterion === index && (
+                <div className="mt-3 space-y-2">
+                  <input
+                    type="text"
+                    value={criterion.description}
+                    onChange={(e) => setDraft(updateCriterion(draft, index, { description: e.target.value }))}
+                    placeholder="The question the criterion answers"
+                    className="w-full border border-gray-300 rounded px-2 py-1 text-sm italic"
+                  />
+                  {Array.from({ length: draft.maxScore - draft.minScore + 1 }, (_, i) => draft.minScore + i).map(score => (
+                    <div key={score} className="flex items-start gap-2">
+                      <span className="w-6 pt-1 text-sm font-semibold text-gray-700">{score}</span>
+                      <textarea
+                        value={criterion.descriptors.find(item => item.score === score)?.description || ''}
+                        onChange={(e) => setDraft(updateDescriptor(draft, index, score, e.target.value))}
+                        rows={2}
+                        className="flex-1 border border-gray-300 rounded px-2 py-1 text-sm"
+                        aria-label={`Description for score ${score}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => {
+            setDraft(addCriterion(draft));
+            setExpandedCriterion(draft.criteria.length);
+          }}
+          className="mt-4 px-4 py-2 text-sm border border-blue-600 text-blue-600 rounded hover:bg-blue-50"
+        >
+          Add criterion
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold text-gray-800 mb-1">Performance Levels</h2>
+        <p className="text-sm text-gray-500 mb-4">Each level runs from its lowest score up to where the next level starts.</p>
+        <div className="space-y-2">
+          {draft.performanceBands.map((band, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <input
+                type="color"
+                value={band.color}
+                onChange={(e) => setDraft(updatePerformanceBand(draft, index, { color: e.target.value }))}
+                className="h-8 w-10 border border-gray-300 rounded"
+                aria-label="Color"
+              />
+              <input
+                type="text"
+                value={band.level}
+                onChange={(e) => setDraft(updatePerformanceBand(draft, index, { level: e.target.value }))}
+                className="w-48 border border-gray-300 rounded px-2 py-1 font-semibold"
+                style={{ color: band.color }}
+                aria-label="Level label"
+              />
+              <span className="text-sm text-gray-500">from</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={band.minScore}
+                onChange={(e) => setDraft(updatePerformanceBand(draft, index, { minScore: Number(e.target.value) || 0 }))}
+                className="w-20 border border-gray-300 rounded px-2 py-1 text-right"
+                aria-label="Lowest score (%)"
+              />
+              <span className="text-sm text-gray-500">to {band.maxScore}%</span>
+              <input
+                type="text"
+                value={band.description}
+                onChange={(e) => setDraft(updatePerformanceBand(draft, index, { description: e.target.value }))}
+                placeholder="What the level means"
+                className="flex-1 min-w-[12rem] border border-gray-300 rounded px-2 py-1 text-sm"
+                aria-label="Level description"
+              />
+              <button
+                onClick={() => setDraft(removePerformanceBand(draft, index))}
+                disabled={draft.performanceBands.length === 1}
+                className="px-2 py-1 text-sm text-red-600 hover:underline disabled:opacity-40"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => setDraft(addPerformanceBand(draft))}
+          className="mt-4 px-4 py-2 text-sm border border-blue-600 text-blue-600 rounded hover:bg-blue-50"
+        >
+          Add level
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold text-gray-800 mb-4">Preview</h2>
+        {sampleResults.length === 0 ? (
+          <p className="text-sm text-gray-500">No stored evaluations were scored against this rubric yet.</p>
+        ) : (
+          <div className="space-y-3">
+            <select
+              value={sampleId}
+              onChange={(e) => setSampleId(e.target.value)}
+              className="border border-gray-300 rounded px-2 py-1 text-gray-700"
+              aria-label="Sample evaluation"
+            >
+              {sampleResults.map(result => (
+                <option key={result.id} value={result.id}>
+                  {result.data.staffName} – {result.fileName} ({result.data.date})
+                </option>
+              ))}
+            </select>
+            {preview && (
+              <>
+                <p className="text-gray-800">
+                  {preview.before.overallScore}% {preview.before.performanceLevel}
+                  {' → '}
+                  <span className="font-semibold">{preview.after.overallScore}% {preview.after.performanceLevel}</span>
+                </p>
+                <p className="text-sm text-gray-500">{summarizeRubricChanges(preview.changes)}</p>
+                {needsReevaluation(preview.changes) && (
+                  <p className="text-sm text-yellow-700">
+                    Changed descriptions and new criteria are not reflected in the preview. Evaluations scored against this rubric will need to be evaluated again.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        {errors.length > 0 && (
+          <ul className="mb-4 list-disc list-inside text-sm text-red-600">
+            {errors.map(message => <li key={message}>{message}</li>)}
+          </ul>
+        )}
+        <div className="flex gap-3">
+          <button
+            onClick={handleSave}
+            disabled={!hasChanges || errors.length > 0 || isSaving}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : `Save as version ${original.version + 1}`}
+          </button>
+          <button
+            onClick={() => {
+              setDraft(original);
+              setExpandedCriterion(null);
+            }}
+            disabled={!hasChanges || isSaving}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded hover:bg-gray-50 disabled:opacity-50"
+          >
+            Discard changes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RubricEditor;
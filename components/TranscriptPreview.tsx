@@ -0,0 +1,224 @@
+"use client";
+
+import React, { useState } from 'react';
+import { SpeakerRole, TranscriptImportResult } from '@/app/types/conversation';
+import { formatParseErrors, formatTimestamp } from '@/app/utils/conversation';
+import { getSpeakers } from '@/app/utils/speakers';
+import { applySpeakerRoles } from '@/app/utils/transcriptImporters';
+import { summarizeSubstitutions } from '@/app/utils/lexicon';
+import {
+  applyConversationEdit,
+  canEditImport,
+  countWords,
+  mergeTurnWithNext,
+  reassignTurn,
+  splitIntoSentences,
+  splitTurn,
+  updateConversationDetails
+} from '@/app/utils/transcriptEditing';
+
+interface TranscriptPreviewProps {
+  importResult: TranscriptImportResult;
+  onChange: (importResult: TranscriptImportResult) => void;
+  disabled?: boolean;
+}
+
+const TranscriptPreview: React.FC<TranscriptPreviewProps> = ({
+  importResult,
+  onChange,
+  disabled = false
+}) => {
+  // Turn whose sentences are shown as split points
+  const [splittingTurn, setSplittingTurn] = useState<number | null>(null);
+
+  const { parseResult, utterances, speakerRoles } = importResult;
+  const { conversation } = parseResult;
+  const editable = !disabled && canEditImport(importResult);
+
+  const handleSpeakerRoleChange = (speaker: string, role: SpeakerRole) => {
+    onChange(applySpeakerRoles(importResult, { ...speakerRoles, [speaker]: role }));
+  };
+
+  const handleTurnRoleChange = (turnIndex: number, role: SpeakerRole) => {
+    onChange(applyConversationEdit(importResult, reassignTurn(conversation, turnIndex, role)));
+  };
+
+  const handleMerge = (turnIndex: number) => {
+    setSplittingTurn(null);
+    onChange(applyConversationEdit(importResult, mergeTurnWithNext(conversation, turnIndex)));
+  };
+
+  const handleSplit = (turnIndex: number, offset: number) => {
+    setSplittingTurn(null);
+    onChange(applyConversationEdit(importResult, splitTurn(conversation, turnIndex, offset)));
+  };
+
+  const handleStaffNameChange = (staffName: string) => {
+    onChange(applyConversationEdit(importResult, updateConversationDetails(conversation, { staffName }), { staffName: staffName.trim() || null }));
+  };
+
+  const handleDateChange = (date: string) => {
+    onChange(applyConversationEdit(importResult, updateConversationDetails(conversation, { date }), { date: date || null }));
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 p-3 bg-gray-50 rounded">
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-600">Staff name</span>
+          <input
+            type="text"
+            value={conversation.staffName || ''}
+            onChange={(e) => handleStaffNameChange(e.target.value)}
+            disabled={!editable}
+            placeholder="Not found"
+            className="border border-gray-300 rounded px-2 py-1"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-600">Date</span>
+          <input
+            type="date"
+            value={conversation.date || ''}
+            onChange={(e) => handleDateChange(e.target.value)}
+            disabled={!editable}
+            className="border border-gray-300 rounded px-2 py-1"
+          />
+        </label>
+        <div className="flex flex-col gap-1">
+          <span className="text-gray-600">Scenario</span>
+          <span className="py-1">{conversation.scenario?.title || 'None'}</span>
+        </div>
+      </div>
+
+      {importResult.substitutions && importResult.substitutions.length > 0 && (
+        <div className="p-3 bg-amber-50 rounded">
+          <p className="font-medium mb-2">Transcript corrections</p>
+          <ul className="space-y-1">
+            {summarizeSubstitutions(importResult.substitutions).map((group, index) => (
+              <li key={index} className="flex flex-wrap items-center gap-2">
+                <span className="line-through text-gray-500">{group.original}</span>
+                <span>&rarr;</span>
+                <span className="font-medium">{group.replacement}</span>
+                <span className="text-xs text-gray-500">
+                  {group.category}, {group.method === 'alias' ? 'known mistake' : 'similar spelling'}, turn{group.turns.length > 1 ? 's' : ''} {group.turns.join(', ')}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {utterances && utterances.length > 0 && (
+        <div className="p-3 bg-gray-50 rounded">
+          <p className="font-medium mb-2">Speaker roles</p>
+          <div className="space-y-1">
+            {getSpeakers(utterances).map(speaker => (
+              <label key={speaker} className="flex items-center gap-2">
+                <span className="w-40 truncate">{speaker}</span>
+                <select
+                  value={speakerRoles[speaker] || 'guest'}
+                  onChange={(e) => handleSpeakerRoleChange(speaker, e.target.value as SpeakerRole)}
+                  disabled={!editable}
+                  className="border border-gray-300 rounded px-2 py-1"
+                >
+                  <option value="staff">Staff Member</option>
+                  <option value="guest">Guest</option>
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {!parseResult.isValid && (
+        <div className="p-3 bg-red-50 text-red-700 rounded">
+          <p className="font-medium mb-1">This conversation could not be parsed:</p>
+          <ul className="list-disc pl-5 space-y-1">
+            {formatParseErrors(parseResult.errors).map((message, index) => (
+              <li key={index}>{message}</li>
+            ))}
+          </ul>
+          {!canEditImport(importResult) && conversation.turns.length > 0 && (
+            <p className="mt-2">Errors with a line number have to be fixed in the file before the turns can be corrected here.</p>
+          )}
+        </div>
+      )}
+
+      {conversation.turns.length > 0 && (
+        <ol className="max-h-96 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded">
+          {conversation.turns.map((turn, index) => (
+            <li key={`${turn.turnNumber}-${index}`} className={`p-3 ${turn.role === 'staff' ? 'bg-purple-50' : 'bg-white'}`}>
+              <div className="flex flex-wrap items-center gap-2 mb-1">
+                <span className="font-medium text-gray-700">{turn.turnNumber}.</span>
+                <span className="text-gray-800">{turn.speaker}</span>
+                <select
+                  value={turn.role}
+                  onChange={(e) => handleTurnRoleChange(index, e.target.value as SpeakerRole)}
+                  disabled={!editable}
+                  className="border border-gray-300 rounded px-1 py-0.5 text-xs"
+                >
+                  <option value="staff">Staff Member</option>
+                  <option value="guest">Guest</option>
+                </select>
+                <span className="text-xs text-gray-500">{countWords(turn)} words</span>
+                {turn.startTime !== undefined && (
+                  <span className="text-xs text-gray-500">{formatTimestamp(turn.startTime)}</span>
+                )}
+                {editable && (
+                  <span className="ml-auto flex gap-2 text-xs">
+                    <button
+                      onClick={() => setSplittingTurn(splittingTurn === index ? null : index)}
+                      className="text-blue-600 hover:underline"
+                    >
+                      {splittingTurn === index ? 'Cancel split' : 'Split'}
+                    </button>
+                    {index < conversation.turns.length - 1 && (
+                      <button onClick={() => handleMerge(index)} className="text-blue-600 hover:underline">
+                        Merge with next
+                      </button>
+                    )}
+                  </span>
+                )}
+              </div>
+
+              {splittingTurn === index ? (
+                <div className="space-y-1">
+                  <p className="text-xs text-gray-500">Choose the sentence that ends the first turn:</p>
+                  {splitIntoSentences(turn.text).slice(0, -1).map((sentence, sentenceIndex) => (
+                    <button
+                      key={sentenceIndex}
+                      onClick={() => handleSplit(index, sentence.end)}
+                      className="block w-full text-left px-2 py-1 rounded hover:bg-blue-50"
+                    >
+                      {sentence.text} <span className="text-blue-600">| split here</span>
+                    </button>
+                  ))}
+                  {splitIntoSentences(turn.text).length < 2 && (
+                    <p className="text-xs text-gray-500">This turn has only one sentence.</p>
+                  )}
+                </div>
+              ) : (
+                <>
+                  <p className="text-gray-700 whitespace-pre-wrap">{turn.spokenText || <span className="italic text-gray-400">No speech</span>}</p>
+                  {turn.stageDirections.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      <span className="text-xs text-gray-500">{turn.role === 'guest' ? 'Guest reaction:' : 'Non-verbal:'}</span>
+                      {turn.stageDirections.map((direction, directionIndex) => (
+                        <span key={directionIndex} className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs italic">
+                          {direction}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptPreview;
@@ -2,6 +2,7 @@
 
 import React, { useState, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import type { WineEvaluation } from '@/types/evaluation';
 import type { AnalysisState } from '@/types/analysis';
 import MarkdownImporter from './MarkdownImporter';
@@ -59,24 +60,33 @@ const WineEvaluationDashboard: React.FC = () => {
             Wine Sales Performance Evaluator
           </h1>
           <p className="text-xl text-gray-600">
-            Upload a markdown file containing a wine tasting conversation to analyze sales performance
+            Upload one or more wine tasting conversation transcripts to analyze sales performance
           </p>
+          <div className="flex justify-center gap-6 mt-4 text-sm">
+            <Link href="/rubrics" className="text-blue-600 hover:underline">
+              Edit evaluation rubrics
+            </Link>
+            <Link href="/prompts" className="text-blue-600 hover:underline">
+              Prompt templates
+            </Link>
+          </div>
         </div>
 
         <div className="bg-white rounded-lg shadow-lg p-8">
-          {analysisState.isAnalyzing ? (
-            <div className="flex flex-col items-center justify-center py-12">
-              <LoadingIndicator message="Analyzing conversation with Claude..." />
-              <p className="mt-4 text-gray-600">This may take a few moments...</p>
+          {analysisState.isAnalyzing && (
+            <div className="flex flex-col items-center justify-center pb-6">
+              <LoadingIndicator message="Analyzing conversations with Claude..." />
+              <p className="mt-2 text-gray-600">You can keep adding files while the queue runs.</p>
             </div>
-          ) : (
-            <MarkdownImporter
-              onAnalysisComplete={handleAnalysisComplete}
-              isAnalyzing={analysisState.isAnalyzing}
-              setIsAnalyzing={setIsAnalyzing}
-            />
           )}
 
+          {/* Kept mounted while analyzing so the upload queue is not lost */}
+          <MarkdownImporter
+            onAnalysisComplete={handleAnalysisComplete}
+            isAnalyzing={analysisState.isAnalyzing}
+            setIsAnalyzing={setIsAnalyzing}
+          />
+
           {analysisState.error && (
             <div className="mt-4 p-4 bg-red-50 text-red-700 rounded-lg">
               {analysisState.error}
@@ -2,6 +2,9 @@ import { NextApiRequest, NextApiResponse } from 'next';
 import { handler as analyzeConversationHandler } from '../../netlify/functions/analyze-conversation';
 import { handler as checkJobStatusHandler } from '../../netlify/functions/check-job-status';
 import { handler as forceCompleteJobHandler } from '../../netlify/functions/force-complete-job';
+import { loadRubric, loadRubricLibrary } from '../../app/lib/rubric';
+import { findRubricSummary } from '../../app/utils/rubric';
+import { exportRubric, getRubricExportFileName } from '../../app/utils/rubricExchange';
 
 // Helper function to convert Next.js request to a format similar to Netlify functions
 const convertRequest = (req: NextApiRequest) => {
@@ -120,6 +123,30 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const body = safeJsonParse(result.body);
       res.status(result.statusCode).json(body);
     }
+    else if (path.startsWith('/api/rubrics/') && path.split('?')[0].endsWith('/export')) {
+      const rubricId = decodeURIComponent(path.slice('/api/rubrics/'.length).split('?')[0].replace(/\/export$/, ''));
+      const format = req.query.format === 'yaml' ? 'yaml' : 'json';
+      const summary = findRubricSummary(loadRubricLibrary(), rubricId);
+      if (!summary) {
+        res.status(404).json({ error: 'Rubric not found', message: `Unknown rubric "${rubricId}"` });
+        return;
+      }
+      res.setHeader('Content-Type', format === 'yaml' ? 'application/yaml; charset=utf-8' : 'application/json; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${getRubricExportFileName(summary.id, format)}"`);
+      res.status(200).send(exportRubric(loadRubric(rubricId), format, summary));
+    }
+    else if (path.startsWith('/api/rubrics/')) {
+      const rubricId = decodeURIComponent(path.slice('/api/rubrics/'.length).split('?')[0]);
+      const version = req.query.version ? Number(req.query.version) : undefined;
+      if (!findRubricSummary(loadRubricLibrary(), rubricId)) {
+        res.status(404).json({ error: 'Rubric not found', message: `Unknown rubric "${rubricId}"` });
+        return;
+      }
+      res.status(200).json(loadRubric(rubricId, version));
+    }
+    else if (path.startsWith('/api/rubrics')) {
+      res.status(200).json(loadRubricLibrary());
+    }
     else {
       res.status(404).json({ error: 'Not found' });
     }